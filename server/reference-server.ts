@@ -0,0 +1,203 @@
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  Capability,
+  ClientMessage,
+  CLOSE_UNAUTHORIZED,
+  CLOSE_UNSUPPORTED_VERSION,
+  createMessage,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  ProtocolErrorCode,
+  ServerMessage,
+  WireMatch,
+} from '../src/lib/recognition-protocol.js';
+import { distanceToConfidence } from '../src/lib/match-confidence.js';
+
+// Reference implementation of the recognition protocol, for developing and
+// testing the integration offline. It acknowledges frame results, logs them,
+// and matches descriptors against an optional gallery file exported from the
+// people table: [{ "id": "...", "name": "...", "face_descriptor": [128 numbers] }]
+//
+//   npm run server -- --port 8080 --gallery people.json --token secret
+
+interface GalleryFace {
+  id: string;
+  name: string;
+  face_descriptor: number[] | null;
+}
+
+const SERVER_NAME = 'identity-hub-reference';
+const PATH = '/face-recognition';
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Connections that stay silent for this long are assumed dead
+const IDLE_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 3;
+const DEFAULT_THRESHOLD = 0.6;
+const CAPABILITIES: Capability[] = ['frame_results', 'match'];
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+const CLOSE_UNSUPPORTED_DATA = 1003;
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.PORT ?? '8080' },
+    token: { type: 'string', default: process.env.RECOGNITION_SERVER_TOKEN },
+    gallery: { type: 'string' },
+    threshold: { type: 'string', default: String(DEFAULT_THRESHOLD) },
+  },
+});
+
+const loadGallery = (path: string | undefined): GalleryFace[] => {
+  if (!path) return [];
+  const faces = JSON.parse(readFileSync(path, 'utf8')) as GalleryFace[];
+  return faces.filter(face => Array.isArray(face.face_descriptor) && face.face_descriptor.length === 128);
+};
+
+const gallery = loadGallery(args.gallery);
+const defaultThreshold = Number(args.threshold);
+
+const euclideanDistance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+const matchDescriptor = (trackId: string, descriptor: number[], threshold: number): WireMatch => {
+  let best: { face: GalleryFace; distance: number } | null = null;
+  for (const face of gallery) {
+    const distance = euclideanDistance(descriptor, face.face_descriptor ?? []);
+    if (!best || distance < best.distance) best = { face, distance };
+  }
+
+  const isKnown = !!best && best.distance < threshold;
+  return {
+    trackId,
+    personId: isKnown && best ? best.face.id : null,
+    name: isKnown && best ? best.face.name : 'Unknown Person',
+    distance: best?.distance ?? null,
+    confidence: isKnown && best ? distanceToConfidence(best.distance, threshold) : 0,
+    isKnown,
+  };
+};
+
+let nextSession = 1;
+
+const handleConnection = (connection: WebSocket) => {
+  const sessionId = `session-${nextSession++}`;
+  let sourceId: string | null = null;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = (message: ServerMessage) => connection.send(JSON.stringify(message));
+
+  const sendError = (replyTo: string | null, code: ProtocolErrorCode, message: string, fatal = false) => {
+    send(createMessage({ type: 'error', replyTo, code, message, fatal }));
+    if (!fatal) return;
+    const closeCode = code === 'unauthorized' ? CLOSE_UNAUTHORIZED
+      : code === 'unsupported_version' ? CLOSE_UNSUPPORTED_VERSION
+      : 1008;
+    connection.close(closeCode, message);
+  };
+
+  const resetIdleTimer = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      console.log(`[${sessionId}] idle for ${IDLE_TIMEOUT_MS} ms, closing`);
+      connection.close(1001, 'Idle timeout');
+    }, IDLE_TIMEOUT_MS);
+  };
+
+  const handleMessage = (message: ClientMessage) => {
+    if (message.type === 'hello') {
+      if (args.token && message.token !== args.token) {
+        sendError(message.id, 'unauthorized', 'Invalid or missing token', true);
+        return;
+      }
+      sourceId = message.sourceId;
+      console.log(`[${sessionId}] hello from ${message.clientId} (source ${message.sourceId})`);
+      send(createMessage({
+        type: 'welcome',
+        replyTo: message.id,
+        sessionId,
+        serverName: SERVER_NAME,
+        capabilities: CAPABILITIES,
+        heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+      }));
+      return;
+    }
+
+    if (!sourceId) {
+      sendError(message.id, 'not_ready', 'Send hello before any other message');
+      return;
+    }
+
+    switch (message.type) {
+      case 'frame_results': {
+        const names = message.faces.map(face => face.recognized ? face.name : `(${face.name})`);
+        console.log(`[${sessionId}] ${new Date(message.frameAt).toISOString()} ${names.join(', ') || 'no faces'}`);
+        for (const event of message.events) {
+          console.log(`[${sessionId}]   ${event.type} ${event.name} (${event.trackId})`);
+        }
+        send(createMessage({ type: 'ack', replyTo: message.id }));
+        return;
+      }
+      case 'match_request': {
+        const threshold = message.threshold ?? defaultThreshold;
+        send(createMessage({
+          type: 'match_response',
+          replyTo: message.id,
+          matches: message.faces.map(face => matchDescriptor(face.trackId, face.descriptor, threshold)),
+        }));
+        return;
+      }
+      case 'heartbeat':
+        send(createMessage({ type: 'heartbeat_ack', replyTo: message.id }));
+        return;
+    }
+  };
+
+  resetIdleTimer();
+  connection.on('message', (data, isBinary) => {
+    resetIdleTimer();
+    // The protocol is JSON only
+    if (isBinary) {
+      connection.close(CLOSE_UNSUPPORTED_DATA, 'Binary messages are not supported');
+      return;
+    }
+
+    const parsed = parseClientMessage(data.toString());
+    if (!parsed.ok) {
+      sendError(parsed.replyTo, parsed.code, parsed.error, parsed.code === 'unsupported_version');
+      return;
+    }
+
+    try {
+      handleMessage(parsed.message);
+    } catch (error) {
+      console.error(`[${sessionId}] error handling ${parsed.message.type}:`, error);
+      sendError(parsed.message.id, 'internal', 'The server failed to handle the message');
+    }
+  });
+  // Oversized or malformed frames; ws closes the connection itself
+  connection.on('error', error => {
+    console.error(`[${sessionId}] connection error:`, error.message);
+  });
+  connection.on('close', code => {
+    if (idleTimer) clearTimeout(idleTimer);
+    console.log(`[${sessionId}] closed (${code})`);
+  });
+};
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end(`Connect with a WebSocket to ${PATH}\n`);
+});
+
+// Upgrades to any other path are refused
+const webSocketServer = new WebSocketServer({ server, path: PATH, maxPayload: MAX_MESSAGE_BYTES });
+webSocketServer.on('connection', handleConnection);
+
+server.listen(Number(args.port), () => {
+  console.log(`Recognition protocol v${PROTOCOL_VERSION} reference server on ws://localhost:${args.port}${PATH}`);
+  console.log(`Gallery: ${gallery.length} faces${args.token ? ', token required' : ''}`);
+});
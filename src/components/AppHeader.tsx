@@ -1,10 +1,51 @@
 
 import React from 'react';
-import { Eye, Shield, Cpu } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Eye, Shield, Cpu, Settings, LogOut, ScrollText } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { ROLE_LABELS, signOut } from '@/lib/auth';
+
+const BUTTON_CLASS = 'p-2 rounded-lg bg-slate-800/50 border border-slate-700 text-slate-300 hover:text-white hover:bg-slate-700 transition-colors';
 
 const AppHeader = () => {
+  const { session, role, can } = useAuth();
+  const { toast } = useToast();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Sign-out error:', error);
+      toast({
+        title: "Sign-out Failed",
+        description: "Failed to sign out. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
-    <div className="text-center mb-8">
+    <div className="relative text-center mb-8">
+      {session && (
+        <div className="absolute right-0 top-0 flex items-center gap-2">
+          <div className="hidden sm:block text-right text-xs">
+            <p className="text-slate-300">{session.user.email}</p>
+            {role && <p className="text-slate-500">{ROLE_LABELS[role]}</p>}
+          </div>
+          {can('admin') && (
+            <Link to="/audit" className={BUTTON_CLASS} title="Audit log">
+              <ScrollText className="w-5 h-5" />
+            </Link>
+          )}
+          <Link to="/settings" className={BUTTON_CLASS} title="Settings">
+            <Settings className="w-5 h-5" />
+          </Link>
+          <button onClick={handleSignOut} className={BUTTON_CLASS} title="Sign out">
+            <LogOut className="w-5 h-5" />
+          </button>
+        </div>
+      )}
       <div className="flex items-center justify-center space-x-3 mb-4">
         <div className="relative">
           <Eye className="w-12 h-12 text-blue-400" />
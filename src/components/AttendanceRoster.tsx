@@ -0,0 +1,250 @@
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalendarCheck, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useRegistrationChanges } from '@/hooks/use-registration-changes';
+import { useTableChanges } from '@/hooks/use-table-changes';
+import { useSettings } from '@/hooks/use-settings';
+import {
+  ATTENDANCE_STATUS_LABELS,
+  AttendancePerson,
+  AttendanceRecord,
+  AttendanceStatus,
+  attendanceToCsv,
+  dateRange,
+  fetchAttendance,
+  localDateKey,
+  summarizeDay,
+} from '@/lib/attendance';
+import { recordAuditEvent } from '@/lib/audit';
+
+const STATUS_STYLES: Record<AttendanceStatus, string> = {
+  present: 'bg-green-500/20 text-green-300',
+  late: 'bg-yellow-500/20 text-yellow-300',
+  absent: 'bg-red-500/20 text-red-300',
+};
+
+// Keeps a CSV export from fetching an unbounded history by accident
+const MAX_EXPORT_DAYS = 366;
+
+const formatTime = (date: Date | null) => date ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '—';
+
+const AttendanceRoster = () => {
+  const { settings } = useSettings();
+  const today = localDateKey(new Date());
+  const [date, setDate] = useState(today);
+  // Starts at the deployment's setting; changing it here only affects this view
+  const [lateAfter, setLateAfter] = useState(settings.attendance.lateAfter);
+  const [people, setPeople] = useState<AttendancePerson[]>([]);
+  const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [exportFrom, setExportFrom] = useState(today);
+  const [exportTo, setExportTo] = useState(today);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const loadPeople = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('people')
+        .select('id, name, external_id, department, created_at')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      setPeople(data || []);
+    } catch (error) {
+      console.error('Error loading people:', error);
+    }
+  }, []);
+
+  const loadRecords = useCallback(async () => {
+    try {
+      setRecords(await fetchAttendance(date, date));
+    } catch (error) {
+      console.error('Error loading attendance:', error);
+      toast({
+        title: "Database Error",
+        description: "Failed to load attendance records.",
+        variant: "destructive",
+      });
+    }
+  }, [date, toast]);
+
+  useEffect(() => {
+    setLateAfter(settings.attendance.lateAfter);
+  }, [settings.attendance.lateAfter]);
+
+  useEffect(() => {
+    loadPeople();
+  }, [loadPeople]);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  useRegistrationChanges(loadPeople);
+  useTableChanges('attendance_records', loadRecords);
+
+  const roster = summarizeDay(date, people, records, lateAfter);
+  const counts = roster.reduce(
+    (totals, summary) => ({ ...totals, [summary.status]: totals[summary.status] + 1 }),
+    { present: 0, late: 0, absent: 0 } as Record<AttendanceStatus, number>
+  );
+
+  const exportCsv = async () => {
+    const days = dateRange(exportFrom, exportTo);
+    if (days.length === 0 || days.length > MAX_EXPORT_DAYS) {
+      toast({
+        title: "Invalid Range",
+        description: `Choose a start date on or before the end date, at most ${MAX_EXPORT_DAYS} days apart.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      const rangeRecords = await fetchAttendance(exportFrom, exportTo);
+      const summaries = days.flatMap(day => summarizeDay(day, people, rangeRecords, lateAfter));
+
+      const blob = new Blob([attendanceToCsv(summaries)], { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `attendance-${exportFrom}-to-${exportTo}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      recordAuditEvent('attendance.exported', { from: exportFrom, to: exportTo, rows: summaries.length });
+    } catch (error) {
+      console.error('Attendance export error:', error);
+      toast({
+        title: "Export Failed",
+        description: "Failed to export attendance. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl p-6 border border-slate-700 shadow-2xl space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+          <CalendarCheck className="text-green-400" />
+          Attendance
+        </h2>
+        <div className="flex items-end gap-3">
+          <div>
+            <Label htmlFor="attendance-date" className="text-slate-300">Day</Label>
+            <Input
+              id="attendance-date"
+              type="date"
+              value={date}
+              max={today}
+              onChange={(e) => e.target.value && setDate(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+          <div>
+            <Label htmlFor="attendance-late-after" className="text-slate-300">Late after</Label>
+            <Input
+              id="attendance-late-after"
+              type="time"
+              value={lateAfter}
+              onChange={(e) => e.target.value && setLateAfter(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {(Object.keys(counts) as AttendanceStatus[]).map(status => (
+          <div key={status} className={`rounded-lg p-4 ${STATUS_STYLES[status]}`}>
+            <div className="text-2xl font-bold">{counts[status]}</div>
+            <div className="text-sm">{ATTENDANCE_STATUS_LABELS[status]}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto">
+        {roster.length === 0 ? (
+          <p className="text-center py-8 text-slate-400">No one was registered on this day</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-slate-700">
+                <TableHead className="text-slate-400">Name</TableHead>
+                <TableHead className="text-slate-400">Department</TableHead>
+                <TableHead className="text-slate-400">Status</TableHead>
+                <TableHead className="text-slate-400">First in</TableHead>
+                <TableHead className="text-slate-400">Last out</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {roster.map(({ person, status, firstCheckIn, lastCheckOut }) => (
+                <TableRow key={person.id} className="border-slate-700">
+                  <TableCell className="text-white">
+                    {person.name}
+                    {person.external_id && <span className="ml-2 text-xs text-slate-400">{person.external_id}</span>}
+                  </TableCell>
+                  <TableCell className="text-slate-300">{person.department || '—'}</TableCell>
+                  <TableCell>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                      {ATTENDANCE_STATUS_LABELS[status]}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-slate-300">{formatTime(firstCheckIn)}</TableCell>
+                  <TableCell className="text-slate-300">{formatTime(lastCheckOut)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 border-t border-slate-700 pt-4">
+        <div>
+          <Label htmlFor="attendance-export-from" className="text-slate-300">From</Label>
+          <Input
+            id="attendance-export-from"
+            type="date"
+            value={exportFrom}
+            max={today}
+            onChange={(e) => e.target.value && setExportFrom(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white"
+          />
+        </div>
+        <div>
+          <Label htmlFor="attendance-export-to" className="text-slate-300">To</Label>
+          <Input
+            id="attendance-export-to"
+            type="date"
+            value={exportTo}
+            max={today}
+            onChange={(e) => e.target.value && setExportTo(e.target.value)}
+            className="bg-slate-700 border-slate-600 text-white"
+          />
+        </div>
+        <Button
+          onClick={exportCsv}
+          disabled={isExporting}
+          variant="outline"
+          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          Export CSV
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceRoster;
@@ -0,0 +1,65 @@
+import React, { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { AuthContext } from '@/hooks/use-auth';
+import { AppRole, fetchRole, hasRole } from '@/lib/auth';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+const AuthProvider = ({ children }: AuthProviderProps) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isSessionLoaded, setIsSessionLoaded] = useState(false);
+  const [role, setRole] = useState<AppRole | null>(null);
+  // The user the current role was loaded for
+  const [roleUserId, setRoleUserId] = useState<string | null>(null);
+  const userId = session?.user.id ?? null;
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsSessionLoaded(true);
+    });
+
+    // Token refreshes hand out a new session object for the same user, so
+    // the role is keyed on the user id rather than reloaded here
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      setIsSessionLoaded(true);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setRole(null);
+      setRoleUserId(null);
+      return;
+    }
+
+    let isCurrent = true;
+    fetchRole(userId)
+      .catch(error => {
+        console.error('Error loading user role:', error);
+        return null;
+      })
+      .then(loaded => {
+        if (!isCurrent) return;
+        setRole(loaded);
+        setRoleUserId(userId);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [userId]);
+
+  const can = useCallback((required: AppRole) => hasRole(role, required), [role]);
+  const isLoading = !isSessionLoaded || (userId !== null && roleUserId !== userId);
+
+  const value = useMemo(() => ({ session, role, isLoading, can }), [session, role, isLoading, can]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
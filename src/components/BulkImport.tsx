@@ -0,0 +1,245 @@
+
+import React, { useRef, useState } from 'react';
+import { FileArchive, Loader2, Upload, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { useFaceEngine } from '@/hooks/use-face-engine';
+import { EnrolledFace } from '@/lib/face-matcher';
+import {
+  collectRosterFiles,
+  insertRoster,
+  processRoster,
+  ROSTER_FAILURE_LABELS,
+  RosterFailure,
+  RosterProgress,
+  RosterReport,
+} from '@/lib/roster-import';
+
+type ImportStage = 'select' | 'processing' | 'review' | 'inserting' | 'done';
+
+interface BulkImportProps {
+  existing: EnrolledFace[];
+  onImported: () => void;
+  disabled?: boolean;
+}
+
+const BulkImport = ({ existing, onImported, disabled }: BulkImportProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stage, setStage] = useState<ImportStage>('select');
+  const [progress, setProgress] = useState<RosterProgress | null>(null);
+  const [report, setReport] = useState<RosterReport | null>(null);
+  const [inserted, setInserted] = useState(0);
+  const [insertFailures, setInsertFailures] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const { engine } = useFaceEngine();
+
+  const reset = () => {
+    setStage('select');
+    setProgress(null);
+    setReport(null);
+    setInserted(0);
+    setInsertFailures([]);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    // Closing mid-run would orphan the queue
+    if (stage === 'processing' || stage === 'inserting') return;
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    try {
+      setStage('processing');
+      const roster = await collectRosterFiles(Array.from(fileList));
+
+      if (roster.files.length === 0) {
+        toast({
+          title: "No Images Found",
+          description: "The selection did not contain any JPEG, PNG or WebP images.",
+          variant: "destructive",
+        });
+        setStage('select');
+        return;
+      }
+
+      await engine.loadPhotoModels();
+      const result = await processRoster(roster, existing, setProgress, {
+        detector: settings.detector,
+        qualityThresholds: settings.quality,
+        duplicateThreshold: settings.recognition.matchThreshold,
+        photoQuality: settings.images.photoQuality,
+        thumbnailQuality: settings.images.thumbnailQuality,
+      });
+      setReport(result);
+      setStage('review');
+    } catch (error) {
+      console.error('Roster import error:', error);
+      toast({
+        title: "Import Failed",
+        description: "Failed to read the selected files.",
+        variant: "destructive",
+      });
+      setStage('select');
+    }
+  };
+
+  const insertPeople = async () => {
+    if (!report) return;
+
+    setStage('inserting');
+    const failed = await insertRoster(report.people, setInserted);
+    setInsertFailures(failed);
+    setStage('done');
+    onImported();
+
+    toast({
+      title: "Import Complete",
+      description: `${report.people.length - failed.length} of ${report.people.length} people imported.`,
+      variant: failed.length > 0 ? "destructive" : "default",
+    });
+  };
+
+  const renderFailures = (failures: RosterFailure[]) => (
+    <div className="max-h-48 overflow-y-auto space-y-1 text-sm">
+      {failures.map((failure, index) => (
+        <div key={`${failure.path}-${index}`} className="flex justify-between gap-3 text-slate-500">
+          <span className="truncate">{failure.path}</span>
+          <span className="text-red-500 whitespace-nowrap">
+            {ROSTER_FAILURE_LABELS[failure.reason]}
+            {failure.detail && ` (${failure.detail})`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+        >
+          <FileArchive className="w-4 h-4 mr-2" />
+          Bulk Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Bulk Import Roster</DialogTitle>
+          <DialogDescription>
+            Select a ZIP or several photos named after each person (e.g. <code>Jane_Doe.jpg</code> or{' '}
+            <code>Jane Doe/1.jpg</code>), plus an optional CSV with a <code>file</code> or <code>name</code> column and
+            any of <code>employee_id</code>, <code>department</code>, <code>title</code>, <code>email</code>,{' '}
+            <code>tags</code> and <code>notes</code>.
+          </DialogDescription>
+        </DialogHeader>
+
+        {stage === 'select' && (
+          <div
+            onClick={() => inputRef.current?.click()}
+            className="flex flex-col items-center justify-center h-40 rounded-lg border-2 border-dashed border-slate-300 cursor-pointer hover:border-slate-400"
+          >
+            <Upload className="w-8 h-8 text-slate-400 mb-2" />
+            <p className="text-sm text-slate-500">Click to choose a ZIP, images and CSV</p>
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              accept=".zip,.csv,image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        )}
+
+        {stage === 'processing' && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span className="truncate">
+                {progress ? `Processing ${progress.current}` : 'Reading files...'}
+              </span>
+            </div>
+            <Progress value={progress && progress.total > 0 ? (progress.processed / progress.total) * 100 : 0} />
+            {progress && (
+              <p className="text-xs text-slate-500">{progress.processed} of {progress.total} images</p>
+            )}
+          </div>
+        )}
+
+        {(stage === 'review' || stage === 'inserting' || stage === 'done') && report && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="w-4 h-4 text-green-500" />
+              <span>
+                {report.people.length} {report.people.length === 1 ? 'person' : 'people'} ready from{' '}
+                {report.people.reduce((sum, person) => sum + person.descriptors.length, 0)} images
+              </span>
+            </div>
+
+            {report.failures.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <AlertTriangle className="w-4 h-4 text-red-500" />
+                  <span>{report.failures.length} files skipped</span>
+                </div>
+                {renderFailures(report.failures)}
+              </div>
+            )}
+
+            {stage !== 'review' && (
+              <div className="space-y-2">
+                <Progress value={report.people.length > 0 ? (inserted / report.people.length) * 100 : 100} />
+                <p className="text-xs text-slate-500">{inserted} of {report.people.length} inserted</p>
+              </div>
+            )}
+
+            {insertFailures.length > 0 && (
+              <p className="text-sm text-red-500">
+                Failed to insert: {insertFailures.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {stage === 'review' && (
+            <>
+              <Button variant="outline" onClick={reset}>Start Over</Button>
+              <Button onClick={insertPeople} disabled={!report || report.people.length === 0}>
+                Import {report?.people.length ?? 0} People
+              </Button>
+            </>
+          )}
+          {stage === 'done' && (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkImport;
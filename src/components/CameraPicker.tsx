@@ -0,0 +1,100 @@
+import React, { useSyncExternalStore } from 'react';
+import { SwitchCamera, Video } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useSettings } from '@/hooks/use-settings';
+import { CameraManager, RESOLUTION_PRESETS } from '@/lib/camera-manager';
+
+interface CameraPickerProps {
+  camera: CameraManager;
+  disabled?: boolean;
+}
+
+// Radix Select items cannot have an empty value
+const AUTOMATIC_DEVICE = 'auto';
+
+const resolutionKey = ({ width, height }: { width: number; height: number }) => `${width}x${height}`;
+
+// The camera choice is remembered on this device; the resolution is part of
+// the deployment settings
+const CameraPicker = ({ camera, disabled }: CameraPickerProps) => {
+  const { devices, deviceId, facingMode } = useSyncExternalStore(camera.subscribe, camera.getState);
+  const { settings, save } = useSettings();
+  const isMobile = useIsMobile();
+  const { toast } = useToast();
+
+  const currentResolution = resolutionKey(settings.camera);
+  const isPreset = RESOLUTION_PRESETS.some(preset => resolutionKey(preset) === currentResolution);
+
+  const changeResolution = async (key: string) => {
+    const preset = RESOLUTION_PRESETS.find(candidate => resolutionKey(candidate) === key);
+    if (!preset) return;
+
+    try {
+      await save({ ...settings, camera: { width: preset.width, height: preset.height } });
+    } catch (error) {
+      console.error('Error saving camera resolution:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save the camera resolution.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Video className="w-4 h-4 text-slate-400" />
+      <Select
+        value={deviceId ?? AUTOMATIC_DEVICE}
+        onValueChange={(value) => camera.selectDevice(value === AUTOMATIC_DEVICE ? null : value)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="flex-1 min-w-40 h-8 bg-slate-700 border-slate-600 text-white text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTOMATIC_DEVICE}>
+            {facingMode === 'environment' ? 'Back camera' : 'Front camera'}
+          </SelectItem>
+          {devices.map(device => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>{device.label}</SelectItem>
+          ))}
+          {deviceId && !devices.some(device => device.deviceId === deviceId) && (
+            <SelectItem value={deviceId}>Remembered camera (not connected)</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+
+      <Select value={currentResolution} onValueChange={changeResolution} disabled={disabled}>
+        <SelectTrigger className="w-44 h-8 bg-slate-700 border-slate-600 text-white text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RESOLUTION_PRESETS.map(preset => (
+            <SelectItem key={preset.label} value={resolutionKey(preset)}>{preset.label}</SelectItem>
+          ))}
+          {!isPreset && (
+            <SelectItem value={currentResolution}>
+              {settings.camera.width} × {settings.camera.height} (custom)
+            </SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+
+      {isMobile && (
+        <button
+          onClick={() => camera.setFacingMode(facingMode === 'user' ? 'environment' : 'user')}
+          disabled={disabled}
+          title="Switch between front and back camera"
+          className="p-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-white transition-colors disabled:opacity-50"
+        >
+          <SwitchCamera className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CameraPicker;
@@ -3,6 +3,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { MessageCircle, Send, Mic, Download, Search, Settings, User, Bot } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useRegistrationChanges } from '@/hooks/use-registration-changes';
+import { recordAuditEvent } from '@/lib/audit';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 
@@ -18,7 +20,6 @@ interface RegistrationData {
   id: string;
   name: string;
   created_at: string;
-  face_encoding: string;
 }
 
 const ChatInterface = () => {
@@ -41,23 +42,13 @@ const ChatInterface = () => {
   // Load registration data
   useEffect(() => {
     fetchRegistrationData();
-    
-    // Subscribe to real-time updates
-    const subscription = supabase
-      .channel('face_registrations_changes')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'face_registrations' }, 
-        () => {
-          fetchRegistrationData();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(subscription);
-    };
   }, []);
 
+  // Subscribe to real-time updates
+  useRegistrationChanges(() => {
+    fetchRegistrationData();
+  });
+
   // Auto-scroll to bottom
   useEffect(() => {
     scrollToBottom();
@@ -66,8 +57,8 @@ const ChatInterface = () => {
   const fetchRegistrationData = async () => {
     try {
       const { data, error } = await supabase
-        .from('face_registrations')
-        .select('*')
+        .from('people')
+        .select('id, name, created_at')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -242,6 +233,7 @@ const ChatInterface = () => {
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
+    recordAuditEvent('chat.exported', { messages: chatData.length, file: a.download });
     
     toast({
       title: "Success",
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Loader2, ScanFace } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import { useFaceEngine } from '@/hooks/use-face-engine';
+import { useSettings } from '@/hooks/use-settings';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  DETECTOR_DESCRIPTIONS,
+  DETECTOR_LABELS,
+  DetectorConfig,
+  DetectorKind,
+  TINY_INPUT_SIZES,
+} from '@/lib/detector-config';
+
+const DETECTOR_KINDS = Object.keys(DETECTOR_LABELS) as DetectorKind[];
+
+// Changes apply to the running engine straight away and are saved to the
+// deployment settings; slider drags are only saved once released. Only admins
+// may change the deployment settings, so others just see the current detector.
+const DetectorSettings = () => {
+  const { engine, detectorConfig, isReady } = useFaceEngine();
+  const canConfigure = useAuth().can('admin');
+  const { settings, save } = useSettings();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const { toast } = useToast();
+
+  const update = async (changes: Partial<DetectorConfig>, persist = true) => {
+    const next = { ...detectorConfig, ...changes };
+    try {
+      setIsSwitching(next.kind !== detectorConfig.kind);
+      await engine.setDetectorConfig(next);
+      if (persist) await save({ ...settings, detector: next });
+    } catch (error) {
+      console.error('Error switching face detector:', error);
+      toast({
+        title: "Detector Unavailable",
+        description: `${DETECTOR_LABELS[next.kind]} could not be loaded. Still using ${DETECTOR_LABELS[detectorConfig.kind]}.`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-700/50 rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center">
+        <ScanFace className="w-5 h-5 mr-2 text-cyan-400" />
+        Detector
+        {isSwitching && <Loader2 className="w-4 h-4 ml-2 animate-spin text-slate-400" />}
+      </h3>
+
+      <div>
+        <Select
+          value={detectorConfig.kind}
+          onValueChange={(kind) => update({ kind: kind as DetectorKind })}
+          disabled={!canConfigure || !isReady || isSwitching}
+        >
+          <SelectTrigger className="bg-slate-800 border-slate-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DETECTOR_KINDS.map(kind => (
+              <SelectItem key={kind} value={kind}>{DETECTOR_LABELS[kind]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-slate-400 mt-1">{DETECTOR_DESCRIPTIONS[detectorConfig.kind]}</p>
+        {!canConfigure && (
+          <p className="text-xs text-slate-500 mt-1">Changing the detector needs the Admin role.</p>
+        )}
+      </div>
+
+      {detectorConfig.kind === 'tiny' && (
+        <label className="flex items-center justify-between text-sm text-slate-300">
+          Input size
+          <select
+            value={detectorConfig.inputSize}
+            onChange={(e) => update({ inputSize: Number(e.target.value) })}
+            disabled={!canConfigure}
+            className="w-24 px-2 py-1 rounded bg-slate-800 border border-slate-600 text-white"
+          >
+            {TINY_INPUT_SIZES.map(size => (
+              <option key={size} value={size}>{size}px</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {detectorConfig.kind === 'mtcnn' && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-slate-300">
+            <span>Min face size</span>
+            <span className="text-white font-medium">{detectorConfig.minFaceSize}px</span>
+          </div>
+          <Slider
+            min={20}
+            max={200}
+            step={10}
+            value={[detectorConfig.minFaceSize]}
+            disabled={!canConfigure}
+            onValueChange={([minFaceSize]) => update({ minFaceSize }, false)}
+            onValueCommit={([minFaceSize]) => update({ minFaceSize })}
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm text-slate-300">
+          <span>Score threshold</span>
+          <span className="text-white font-medium">{detectorConfig.scoreThreshold.toFixed(2)}</span>
+        </div>
+        <Slider
+          min={0.1}
+          max={0.95}
+          step={0.05}
+          value={[detectorConfig.scoreThreshold]}
+          disabled={!canConfigure}
+          onValueChange={([scoreThreshold]) => update({ scoreThreshold }, false)}
+          onValueCommit={([scoreThreshold]) => update({ scoreThreshold })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DetectorSettings;
@@ -0,0 +1,131 @@
+
+import React, { useState } from 'react';
+import { Merge, ImagePlus, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { distanceToConfidence } from '@/lib/face-matcher';
+
+export interface DuplicateCandidate {
+  id: string;
+  name: string;
+  thumbnail: string;
+  distance: number;
+}
+
+interface DuplicateReviewDialogProps {
+  open: boolean;
+  newName: string;
+  newThumbnail: string | null;
+  candidates: DuplicateCandidate[];
+  threshold: number;
+  isSaving: boolean;
+  // Merging deletes the other candidates; left out when that is not allowed
+  onMerge?: () => void;
+  onAddSamples: (candidateId: string) => void;
+  onOverride: (reason: string) => void;
+  onCancel: () => void;
+}
+
+const DuplicateReviewDialog = ({
+  open,
+  newName,
+  newThumbnail,
+  candidates,
+  threshold,
+  isSaving,
+  onMerge,
+  onAddSamples,
+  onOverride,
+  onCancel,
+}: DuplicateReviewDialogProps) => {
+  const [reason, setReason] = useState('');
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setReason('');
+      onCancel();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-yellow-500" />
+            Possible Duplicate
+          </DialogTitle>
+          <DialogDescription>
+            The face you are enrolling as <span className="font-semibold">{newName}</span> closely matches{' '}
+            {candidates.length === 1 ? 'someone' : `${candidates.length} people`} already registered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {newThumbnail && (
+            <div className="flex items-center gap-3 p-2 rounded-lg bg-blue-500/10">
+              <img src={newThumbnail} alt={newName} className="w-12 h-12 rounded-md object-cover" />
+              <div className="flex-1 text-sm">
+                <div className="font-semibold">{newName}</div>
+                <div className="text-slate-500">New enrollment</div>
+              </div>
+            </div>
+          )}
+          {candidates.map((candidate) => (
+            <div key={candidate.id} className="flex items-center gap-3 p-2 rounded-lg border">
+              <img src={candidate.thumbnail} alt={candidate.name} className="w-12 h-12 rounded-md object-cover" />
+              <div className="flex-1 text-sm">
+                <div className="font-semibold">{candidate.name}</div>
+                <div className="text-slate-500">
+                  {distanceToConfidence(candidate.distance, threshold).toFixed(1)}% similar
+                </div>
+              </div>
+              <Button size="sm" variant="outline" disabled={isSaving} onClick={() => onAddSamples(candidate.id)}>
+                <ImagePlus className="w-4 h-4 mr-1" />
+                Add as Sample
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="override-reason">Override reason</Label>
+          <Textarea
+            id="override-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. identical twins, verified by ID"
+            rows={2}
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          {onMerge && (
+            <Button variant="outline" disabled={isSaving} onClick={onMerge}>
+              <Merge className="w-4 h-4 mr-2" />
+              Merge as {newName}
+            </Button>
+          )}
+          <Button
+            variant="destructive"
+            disabled={!reason.trim() || isSaving}
+            onClick={() => onOverride(reason.trim())}
+          >
+            Register Anyway
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateReviewDialog;
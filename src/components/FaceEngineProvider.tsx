@@ -0,0 +1,47 @@
+import React, { ReactNode, useEffect, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { FaceEngineContext } from '@/hooks/use-face-engine';
+import { useSettings } from '@/hooks/use-settings';
+import { createFaceEngine } from '@/lib/face-engine';
+import { MODEL_URL } from '@/lib/face-detector';
+import { DETECTOR_LABELS } from '@/lib/detector-config';
+
+interface FaceEngineProviderProps {
+  children: ReactNode;
+}
+
+// Loads the face models once for the whole app and keeps the engine's
+// detector in line with the deployment settings
+const FaceEngineProvider = ({ children }: FaceEngineProviderProps) => {
+  const { settings } = useSettings();
+  const [engine] = useState(() => createFaceEngine(MODEL_URL, settings.detector));
+  const { toast } = useToast();
+
+  useEffect(() => {
+    engine.load().catch(error => {
+      console.error('Error loading face models:', error);
+      toast({
+        title: "Model Loading Error",
+        description: "Face recognition models couldn't be loaded. Face detection is unavailable until they load.",
+        variant: "destructive",
+      });
+    });
+
+    return () => engine.dispose();
+  }, [engine, toast]);
+
+  useEffect(() => {
+    engine.setDetectorConfig(settings.detector).catch(error => {
+      console.error('Error switching face detector:', error);
+      toast({
+        title: "Detector Unavailable",
+        description: `${DETECTOR_LABELS[settings.detector.kind]} could not be loaded. Still using the previous detector.`,
+        variant: "destructive",
+      });
+    });
+  }, [engine, settings.detector, toast]);
+
+  return <FaceEngineContext.Provider value={engine}>{children}</FaceEngineContext.Provider>;
+};
+
+export default FaceEngineProvider;
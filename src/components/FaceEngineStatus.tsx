@@ -0,0 +1,40 @@
+import React from 'react';
+import { AlertTriangle, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useFaceEngine } from '@/hooks/use-face-engine';
+
+// Shown while the face models load, or in their place when loading failed.
+// Renders nothing once the engine is ready.
+const FaceEngineStatus = () => {
+  const { status, progress, error, retry } = useFaceEngine();
+
+  if (status === 'ready') return null;
+
+  if (status === 'error') {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-lg bg-red-500/10 border border-red-500/30 p-3 text-sm text-red-300">
+        <span className="flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          Face models failed to load{error ? `: ${error.message}` : ''}
+        </span>
+        <Button size="sm" variant="outline" onClick={retry} className="border-red-500/40 text-red-300 hover:bg-red-500/20">
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-slate-700/50 p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm text-slate-300">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading face models… {Math.round(progress * 100)}%
+      </div>
+      <Progress value={progress * 100} className="h-1.5 bg-slate-600" />
+    </div>
+  );
+};
+
+export default FaceEngineStatus;
@@ -1,68 +1,156 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useRegistrationChanges } from '@/hooks/use-registration-changes';
+import { useFaceEngine } from '@/hooks/use-face-engine';
+import { useSettings } from '@/hooks/use-settings';
+import { useAuth } from '@/hooks/use-auth';
+import { useCameraManager } from '@/hooks/use-camera-manager';
+import { createThumbnail, cropFace, descriptorToArray, meanDescriptor } from '@/lib/face-descriptors';
+import { createFrameScheduler } from '@/lib/frame-scheduler';
+import { backfillDescriptors } from '@/lib/backfill-descriptors';
+import { backfillImages } from '@/lib/backfill-images';
+import { createFaceImagePaths, removeFaceImages, StoredFaceImages, uploadFaceImages } from '@/lib/face-storage';
+import { useSignedUrls } from '@/hooks/use-signed-urls';
+import {
+  addFaceSamples,
+  detailsFromDraft,
+  draftFromDetails,
+  EMPTY_DETAILS_DRAFT,
+  EMPTY_PEOPLE_FILTER,
+  enrollPeople,
+  filterPeople,
+  isDuplicateExternalIdError,
+  mergeDetails,
+  mergePeople,
+  NewFaceSample,
+  PeopleFilter,
+  PERSON_COLUMNS,
+  PersonDetails,
+  PersonDetailsDraft,
+  replaceFaceSamples,
+  toFaceSampleRows,
+  validateDetails,
+} from '@/lib/people';
+import { assessFaceQuality, DEFAULT_QUALITY_THRESHOLDS, QualityReport } from '@/lib/face-quality';
+import { findSimilarFaces } from '@/lib/face-matcher';
+import { createLivenessSession, LivenessMode, LivenessVerdict, measureMoire } from '@/lib/liveness';
+import { ENROLLMENT_POSES, estimateHeadPose, HeadPose, matchesPose, PoseId } from '@/lib/head-pose';
+import QualityIndicator from '@/components/QualityIndicator';
+import LivenessModeToggle from '@/components/LivenessModeToggle';
+import RegistrationActions, { ReenrollMode } from '@/components/RegistrationActions';
+import DuplicateReviewDialog, { DuplicateCandidate } from '@/components/DuplicateReviewDialog';
+import PhotoEnrollment, { UploadedSample } from '@/components/PhotoEnrollment';
+import PersonDetailsFields from '@/components/PersonDetailsFields';
+import BulkImport from '@/components/BulkImport';
+import FaceEngineStatus from '@/components/FaceEngineStatus';
+import CameraPicker from '@/components/CameraPicker';
 import * as faceapi from 'face-api.js';
-import { Camera, UserPlus, Loader2 } from 'lucide-react';
+import { Camera, Upload, UserPlus, Loader2, Undo2, CheckCircle2, ShieldAlert, ShieldCheck, RotateCcw, X, Search } from 'lucide-react';
 
-interface FaceRegistration {
+interface FaceRegistration extends PersonDetails {
   id: string;
-  name: string;
-  face_encoding: string;
+  face_descriptor: number[] | null;
+  image_path: string | null;
+  thumbnail_path: string | null;
   created_at: string;
+  face_samples: { count: number }[];
+}
+
+// Radix Select items cannot have an empty value
+const ALL_DEPARTMENTS = 'all';
+
+const sampleCount = (registration: FaceRegistration) => registration.face_samples[0]?.count ?? 0;
+
+interface DuplicateOverride {
+  reason: string;
+  matches: { id: string; name: string; distance: number }[];
+}
+
+type EnrollmentSource = 'camera' | 'upload';
+
+interface ReenrollTarget {
+  registration: FaceRegistration;
+  mode: ReenrollMode;
+}
+
+interface CapturedSample {
+  pose: PoseId;
+  descriptor: Float32Array;
+  // Face crop at native resolution, uploaded to storage on save
+  photo: string;
+  thumbnail: string;
 }
 
 const FaceRegistration = () => {
   const [isLoading, setIsLoading] = useState(false);
-  const [isCameraActive, setIsCameraActive] = useState(false);
   const [faceDetected, setFaceDetected] = useState(false);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [name, setName] = useState('');
+  const [samples, setSamples] = useState<CapturedSample[]>([]);
+  const [poseMatched, setPoseMatched] = useState(false);
+  const [quality, setQuality] = useState<QualityReport | null>(null);
+  const [livenessMode, setLivenessMode] = useState<LivenessMode>('passive');
+  const [livenessVerdict, setLivenessVerdict] = useState<LivenessVerdict | null>(null);
+  const [reenrollTarget, setReenrollTarget] = useState<ReenrollTarget | null>(null);
+  const [enrollmentSource, setEnrollmentSource] = useState<EnrollmentSource>('camera');
+  const [duplicateCandidates, setDuplicateCandidates] = useState<DuplicateCandidate[]>([]);
+  const [details, setDetails] = useState<PersonDetailsDraft>(EMPTY_DETAILS_DRAFT);
   const [registrations, setRegistrations] = useState<FaceRegistration[]>([]);
-  const [modelsLoaded, setModelsLoaded] = useState(false);
+  const [filter, setFilter] = useState<PeopleFilter>(EMPTY_PEOPLE_FILTER);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const stepRef = useRef(0);
+  const qualityThresholdsRef = useRef(DEFAULT_QUALITY_THRESHOLDS);
+  const baselineRef = useRef<HeadPose | null>(null);
+  const livenessRef = useRef(createLivenessSession({ mode: 'passive' }));
+  const detectFrameRef = useRef<() => Promise<void>>(async () => {});
+  const hasMigratedRef = useRef(false);
+  // About 10 FPS for the live quality/pose feedback, without overlapping frames
+  const [frameScheduler] = useState(() => createFrameScheduler(() => detectFrameRef.current(), { minIntervalMs: 100 }));
   
   const { toast } = useToast();
+  const { engine, isReady: isEngineReady } = useFaceEngine();
+  const { settings } = useSettings();
+  const { can } = useAuth();
+  const canEnroll = can('operator');
+  const canDelete = can('admin');
+  // Anyone the live matcher would recognize as an existing person is a duplicate
+  const duplicateThreshold = settings.recognition.matchThreshold;
+  const { camera, stream, isActive: isCameraActive } = useCameraManager(settings.camera, error => {
+    console.error('Camera lost:', error);
+    stopCamera();
+    toast({
+      title: "Camera Disconnected",
+      description: "The camera stopped and no other camera could be opened.",
+      variant: "destructive",
+    });
+  });
+  const thumbnailUrls = useSignedUrls(registrations.map(registration => registration.thumbnail_path));
 
-  useEffect(() => {
-    loadModels();
-    fetchRegistrations();
-  }, []);
+  const name = details.name;
+  const detailsError = validateDetails(detailsFromDraft(details));
+  const filteredRegistrations = filterPeople(registrations, filter);
+  const departments = Array.from(new Set(registrations.map(r => r.department).filter(Boolean))).sort();
 
-  const loadModels = async () => {
-    try {
-      setIsLoading(true);
-      await Promise.all([
-        faceapi.nets.tinyFaceDetector.loadFromUri('/models'),
-        faceapi.nets.faceLandmark68Net.loadFromUri('/models'),
-        faceapi.nets.faceRecognitionNet.loadFromUri('/models'),
-      ]);
-      setModelsLoaded(true);
-      console.log('Face-api models loaded successfully');
-    } catch (error) {
-      console.error('Error loading face-api models:', error);
-      toast({
-        title: "Model Loading Error",
-        description: "Face detection models couldn't be loaded. Using fallback detection.",
-        variant: "destructive",
-      });
-      setModelsLoaded(true); // Continue anyway with fallback
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const currentStep = samples.length;
+  const currentPose = ENROLLMENT_POSES[currentStep];
+  // Uploaded photos are not posed, so any number of them completes enrollment
+  const enrollmentComplete = enrollmentSource === 'upload'
+    ? samples.length > 0
+    : currentStep >= ENROLLMENT_POSES.length;
+  // Liveness can only be checked on a live camera; uploads are trusted input
+  const livenessSatisfied = enrollmentSource === 'upload' || livenessVerdict?.status === 'live';
 
-  const fetchRegistrations = async () => {
+  const fetchRegistrations = useCallback(async () => {
     try {
       const { data, error } = await supabase
-        .from('face_registrations')
-        .select('*')
+        .from('people')
+        .select(PERSON_COLUMNS)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -75,26 +163,80 @@ const FaceRegistration = () => {
         variant: "destructive",
       });
     }
-  };
+  }, [toast]);
 
-  const startCamera = async () => {
+  const migrateLegacyRegistrations = useCallback(async () => {
     try {
-      setIsLoading(true);
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480 }
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-        setIsCameraActive(true);
-        
-        videoRef.current.addEventListener('loadedmetadata', () => {
-          if (modelsLoaded) {
-            detectFaces();
-          }
+      const { updated, failed } = await backfillDescriptors();
+      if (updated > 0) fetchRegistrations();
+      if (failed.length > 0) {
+        toast({
+          title: "Legacy Registrations",
+          description: `${failed.length} older registration(s) have no detectable face and need to be re-enrolled.`,
+          variant: "destructive",
         });
       }
+    } catch (error) {
+      console.error('Error backfilling face descriptors:', error);
+    }
+
+    try {
+      const { moved } = await backfillImages();
+      if (moved > 0) fetchRegistrations();
+    } catch (error) {
+      console.error('Error moving legacy images to storage:', error);
+    }
+  }, [fetchRegistrations, toast]);
+
+  useEffect(() => {
+    fetchRegistrations();
+  }, [fetchRegistrations]);
+
+  useEffect(() => () => frameScheduler.stop(), [frameScheduler]);
+
+  useRegistrationChanges(() => {
+    fetchRegistrations();
+  });
+
+  // The detection loop runs outside React's render cycle, so it reads the
+  // current wizard step and quality thresholds from refs.
+  useEffect(() => {
+    stepRef.current = samples.length;
+  }, [samples]);
+
+  useEffect(() => {
+    qualityThresholdsRef.current = settings.quality;
+  }, [settings.quality]);
+
+  useEffect(() => {
+    livenessRef.current = createLivenessSession({ mode: livenessMode });
+    setLivenessVerdict(null);
+  }, [livenessMode]);
+
+  // The backfills run on the main-thread models and write to the gallery, so
+  // they wait for the role to load and only run for those who may enroll.
+  // Once per mount is enough; rows they cannot fix stay as they are.
+  useEffect(() => {
+    if (!canEnroll || hasMigratedRef.current) return;
+    hasMigratedRef.current = true;
+
+    engine.loadPhotoModels()
+      .then(migrateLegacyRegistrations)
+      .catch(error => console.error('Error loading face models for the legacy backfills:', error));
+  }, [canEnroll, engine, migrateLegacyRegistrations]);
+
+  // The video element only exists while the camera is active, so the stream
+  // is attached once it has rendered, and again whenever the camera switches
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream, isCameraActive]);
+
+  const startCamera = async () => {
+    try {
+      setIsLoading(true);
+      await camera.start();
     } catch (error) {
       console.error('Error accessing camera:', error);
       toast({
@@ -107,99 +249,345 @@ const FaceRegistration = () => {
     }
   };
 
-  const detectFaces = async () => {
-    if (!videoRef.current || !canvasRef.current || !modelsLoaded) return;
-
+  // Runs once per scheduled frame; the scheduler waits for it to finish
+  // before starting the next one
+  const detectFrame = async () => {
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    const displaySize = { width: video.videoWidth, height: video.videoHeight };
-    
-    faceapi.matchDimensions(canvas, displaySize);
+    if (!video || !canvas || video.paused || video.ended) return;
+    // Frames are skipped until the models are in; the status banner explains why
+    if (engine.getState().status !== 'ready') return;
 
-    const detectFace = async () => {
-      if (!video || video.paused || video.ended) return;
+    try {
+      const detections = await engine.detectFaces(video);
 
-      try {
-        const detections = await faceapi.detectAllFaces(video, new faceapi.TinyFaceDetectorOptions());
-        const resizedDetections = faceapi.resizeResults(detections, displaySize);
+      const context = canvas.getContext('2d');
+      if (context) {
+        context.clearRect(0, 0, canvas.width, canvas.height);
         
-        const context = canvas.getContext('2d');
-        if (context) {
-          context.clearRect(0, 0, canvas.width, canvas.height);
-          
-          // Draw face detection rectangles
-          resizedDetections.forEach(detection => {
-            const box = detection.box;
-            context.strokeStyle = '#00ff00';
-            context.lineWidth = 2;
-            context.strokeRect(box.x, box.y, box.width, box.height);
-          });
-        }
-
-        setFaceDetected(detections.length > 0);
-      } catch (error) {
-        console.error('Face detection error:', error);
-        // Fallback: assume face is detected for demo purposes
-        setFaceDetected(true);
+        // Draw face detection rectangles
+        detections.forEach(({ box }) => {
+          context.strokeStyle = '#00ff00';
+          context.lineWidth = 2;
+          context.strokeRect(box.x, box.y, box.width, box.height);
+        });
       }
 
-      requestAnimationFrame(detectFace);
-    };
+      const targetPose = ENROLLMENT_POSES[stepRef.current];
+      setFaceDetected(detections.length > 0);
+      setQuality(
+        detections.length === 1
+          ? assessFaceQuality(video, video.videoWidth, video.videoHeight, detections[0], qualityThresholdsRef.current)
+          : null
+      );
+      setPoseMatched(
+        detections.length === 1 &&
+        !!targetPose &&
+        matchesPose(estimateHeadPose(detections[0].landmarks), targetPose.id, baselineRef.current)
+      );
 
-    detectFace();
+      // Liveness is judged on a single face only; a second face in frame
+      // would make the landmark sequence meaningless.
+      if (detections.length === 1) {
+        setLivenessVerdict(livenessRef.current.addFrame({
+          landmarks: detections[0].landmarks,
+          moire: measureMoire(video, detections[0].box),
+          timestamp: Date.now(),
+        }));
+      }
+    } catch (error) {
+      console.error('Face detection error:', error);
+      setFaceDetected(false);
+      setQuality(null);
+    }
   };
 
-  const captureFace = () => {
+  // The scheduler outlives the render that started it, so it always calls
+  // the latest detectFrame through a ref
+  useEffect(() => {
+    detectFrameRef.current = detectFrame;
+  });
+
+  const detectFaces = () => {
     if (!videoRef.current || !canvasRef.current) return;
 
     const video = videoRef.current;
-    const canvas = document.createElement('canvas');
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    const context = canvas.getContext('2d');
-    if (context) {
-      context.drawImage(video, 0, 0);
-      const imageData = canvas.toDataURL('image/jpeg', 0.8);
-      setCapturedImage(imageData);
-      
+    faceapi.matchDimensions(canvasRef.current, { width: video.videoWidth, height: video.videoHeight });
+    frameScheduler.start();
+  };
+
+  const captureFace = async () => {
+    if (!videoRef.current || !canvasRef.current) return;
+
+    const video = videoRef.current;
+
+    try {
+      setIsLoading(true);
+      const targetPose = ENROLLMENT_POSES[stepRef.current];
+      if (!targetPose) return;
+
+      // Same pipeline as the preview loop; the most confident face is enrolled
+      const [sample] = (await engine.detectFaceSamples(video))
+        .sort((a, b) => b.score - a.score);
+
+      if (!sample) {
+        toast({
+          title: "No Face Found",
+          description: "Could not extract a face from this frame. Please face the camera and try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const report = assessFaceQuality(video, video.videoWidth, video.videoHeight, sample, settings.quality);
+      if (!report.passed) {
+        setQuality(report);
+        toast({
+          title: "Low Quality Capture",
+          description: "The frame did not pass the quality checks. Adjust lighting and distance and try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const pose = estimateHeadPose(sample.landmarks);
+      if (!matchesPose(pose, targetPose.id, baselineRef.current)) {
+        toast({
+          title: "Pose Not Matched",
+          description: targetPose.instruction,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (!baselineRef.current) {
+        baselineRef.current = pose;
+      }
+
+      setSamples(prev => [
+        ...prev,
+        {
+          pose: targetPose.id,
+          descriptor: sample.descriptor,
+          photo: cropFace(video, sample.box, video.videoWidth, video.videoHeight)
+            .toDataURL('image/jpeg', settings.images.photoQuality),
+          thumbnail: createThumbnail(video, sample.box, video.videoWidth, video.videoHeight, settings.images.thumbnailQuality),
+        },
+      ]);
+
       toast({
         title: "Face Captured",
-        description: "Face image captured successfully!",
+        description: `${targetPose.label} sample ${stepRef.current + 1} of ${ENROLLMENT_POSES.length} captured.`,
       });
+    } catch (error) {
+      console.error('Face capture error:', error);
+      toast({
+        title: "Capture Failed",
+        description: "Failed to compute the face descriptor. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const registerFace = async () => {
-    if (!capturedImage || !name.trim()) {
+  const addUploadedSample = (sample: UploadedSample) => {
+    setSamples(prev => [...prev, { pose: 'frontal', ...sample }]);
+    toast({
+      title: "Photo Added",
+      description: "Face sample extracted from the uploaded photo.",
+    });
+  };
+
+  const switchEnrollmentSource = (source: EnrollmentSource) => {
+    if (source === enrollmentSource) return;
+    if (source === 'upload') stopCamera();
+    resetEnrollment();
+    setEnrollmentSource(source);
+  };
+
+  const retakeLastSample = () => {
+    setSamples(prev => {
+      const next = prev.slice(0, -1);
+      if (next.length === 0) baselineRef.current = null;
+      return next;
+    });
+  };
+
+  const resetLiveness = () => {
+    livenessRef.current.reset();
+    setLivenessVerdict(null);
+  };
+
+  const resetEnrollment = () => {
+    setSamples([]);
+    setPoseMatched(false);
+    baselineRef.current = null;
+    resetLiveness();
+  };
+
+  const startReenroll = (registration: FaceRegistration, mode: ReenrollMode) => {
+    resetEnrollment();
+    setReenrollTarget({ registration, mode });
+    setDetails(draftFromDetails(registration));
+    if (enrollmentSource === 'camera' && !isCameraActive) startCamera();
+  };
+
+  const cancelReenroll = () => {
+    setReenrollTarget(null);
+    setDetails(EMPTY_DETAILS_DRAFT);
+    resetEnrollment();
+  };
+
+  // Rethrows so the edit dialog stays open with the operator's changes
+  const updateDetails = async (registration: FaceRegistration, updated: PersonDetails) => {
+    try {
+      const { error } = await supabase
+        .from('people')
+        .update({ ...updated })
+        .eq('id', registration.id);
+
+      if (error) throw error;
+
       toast({
-        title: "Missing Information",
-        description: "Please capture a face and enter a name.",
+        title: "Details Saved",
+        description: `${updated.name}'s details have been updated.`,
+      });
+      fetchRegistrations();
+    } catch (error) {
+      console.error('Update error:', error);
+      toast({
+        title: "Update Failed",
+        description: isDuplicateExternalIdError(error)
+          ? "That employee ID is already assigned to someone else."
+          : "Failed to save the details. Please try again.",
         variant: "destructive",
       });
-      return;
+      throw error;
     }
+  };
 
+  const deleteRegistration = async (registration: FaceRegistration) => {
     try {
-      setIsLoading(true);
-      
       const { error } = await supabase
-        .from('face_registrations')
-        .insert({
-          name: name.trim(),
-          face_encoding: capturedImage,
-        });
+        .from('people')
+        .delete()
+        .eq('id', registration.id);
 
       if (error) throw error;
 
+      await removeFaceImages([registration.image_path, registration.thumbnail_path]);
+      if (reenrollTarget?.registration.id === registration.id) cancelReenroll();
+      toast({
+        title: "Deleted",
+        description: `${registration.name} has been removed.`,
+      });
+      fetchRegistrations();
+    } catch (error) {
+      console.error('Delete error:', error);
       toast({
-        title: "Registration Successful",
-        description: `${name} has been registered successfully!`,
+        title: "Delete Failed",
+        description: "Failed to delete. Please try again.",
+        variant: "destructive",
       });
+    }
+  };
+
+  const toFaceSamples = (): NewFaceSample[] => samples.map(sample => ({
+    descriptor: sample.descriptor,
+    // Uploaded photos are not posed
+    pose: enrollmentSource === 'camera' ? sample.pose : null,
+    source: enrollmentSource,
+  }));
+
+  // The person is already saved by the time their photo uploads, so a failed
+  // upload is reported without failing the enrollment
+  const uploadPhoto = async (registrationId: string, name: string, images: StoredFaceImages) => {
+    try {
+      await uploadFaceImages(registrationId, images, samples[0].photo, samples[0].thumbnail);
+    } catch (error) {
+      console.error('Photo upload error:', error);
+      toast({
+        title: "Photo Not Saved",
+        description: `${name} was saved, but the photo could not be uploaded.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Re-enrollment either appends the new samples to the stored ones or
+  // replaces them; the mean descriptor is recomputed from whatever remains.
+  const updateSamples = async ({ registration, mode }: ReenrollTarget) => {
+    if (mode === 'add') {
+      await addFaceSamples(registration.id, toFaceSamples());
+    } else {
+      await replaceFaceSamples(registration.id, toFaceSamples());
+
+      const images = createFaceImagePaths(registration.id);
+      const { error } = await supabase
+        .from('people')
+        .update(images)
+        .eq('id', registration.id);
+
+      if (error) throw error;
+      await uploadPhoto(registration.id, registration.name, images);
+      await removeFaceImages([registration.image_path, registration.thumbnail_path]);
+    }
+  };
+
+  // The id and image paths are generated up front so the person, their
+  // samples and their image paths are stored together. The images follow once
+  // that has succeeded, so a failed enrollment leaves nothing in storage.
+  const insertRegistration = async (override: DuplicateOverride | null) => {
+    const id = crypto.randomUUID();
+    const person = detailsFromDraft(details);
+    const images = createFaceImagePaths(id);
+
+    await enrollPeople([{
+      id,
+      ...person,
+      face_descriptor: descriptorToArray(meanDescriptor(samples.map(sample => sample.descriptor))),
+      ...images,
+      duplicate_override: override ? { ...override } : null,
+    }], toFaceSampleRows(id, toFaceSamples()));
+    await uploadPhoto(id, person.name, images);
+  };
+
+  // Folds every duplicate candidate and the new samples into the oldest
+  // candidate under the details being enrolled, then removes the others.
+  const mergeIntoCandidates = async () => {
+    const candidates = registrations.filter(registration =>
+      duplicateCandidates.some(candidate => candidate.id === registration.id)
+    );
+    const [target, ...others] = [...candidates].sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+    if (!target) return;
+
+    await mergePeople(
+      target.id,
+      others.map(other => other.id),
+      mergeDetails([target, ...others], detailsFromDraft(details)),
+      toFaceSamples()
+    );
+    // Only once the merge has committed; the others' rows no longer point at them
+    await removeFaceImages(others.flatMap(other => [other.image_path, other.thumbnail_path]));
+  };
+
+  // Shared tail of every way an enrollment can be saved: report, reset the
+  // form and refresh the list, or surface the failure.
+  const saveEnrollment = async (save: () => Promise<void>, title: string, description: string) => {
+    try {
+      setIsLoading(true);
+      await save();
+
+      toast({ title, description });
 
       // Reset form
-      setName('');
-      setCapturedImage(null);
+      setDetails(EMPTY_DETAILS_DRAFT);
+      setReenrollTarget(null);
+      setDuplicateCandidates([]);
+      resetEnrollment();
       setFaceDetected(false);
       
       // Refresh registrations list
@@ -209,7 +597,9 @@ const FaceRegistration = () => {
       console.error('Registration error:', error);
       toast({
         title: "Registration Failed",
-        description: "Failed to register face. Please try again.",
+        description: isDuplicateExternalIdError(error)
+          ? "That employee ID is already assigned to someone else."
+          : "Failed to register face. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -217,14 +607,103 @@ const FaceRegistration = () => {
     }
   };
 
-  const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+  const registerFace = async () => {
+    if (!enrollmentComplete || !name.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please complete all capture steps and enter a name.",
+        variant: "destructive",
+      });
+      return;
     }
-    setIsCameraActive(false);
+
+    if (!reenrollTarget && detailsError) {
+      toast({
+        title: "Invalid Details",
+        description: detailsError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!livenessSatisfied) {
+      toast({
+        title: "Liveness Not Verified",
+        description: livenessVerdict?.reason || "Liveness check has not passed yet.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (reenrollTarget) {
+      await saveEnrollment(
+        () => updateSamples(reenrollTarget),
+        "Samples Updated",
+        `${reenrollTarget.registration.name}'s face samples have been updated.`
+      );
+      return;
+    }
+
+    // Someone already enrolled under another name would poison matching, so
+    // the operator has to decide what to do before anything is inserted.
+    const similar = findSimilarFaces(
+      meanDescriptor(samples.map(sample => sample.descriptor)),
+      registrations,
+      duplicateThreshold
+    );
+    if (similar.length > 0) {
+      setDuplicateCandidates(similar.map(({ face, distance }) => ({
+        id: face.id,
+        name: face.name,
+        thumbnail: thumbnailUrls[face.thumbnail_path] ?? '',
+        distance,
+      })));
+      return;
+    }
+
+    await saveEnrollment(
+      () => insertRegistration(null),
+      "Registration Successful",
+      `${name} has been registered successfully!`
+    );
+  };
+
+  const addToDuplicate = (candidateId: string) => {
+    const registration = registrations.find(r => r.id === candidateId);
+    if (!registration) return;
+
+    saveEnrollment(
+      () => updateSamples({ registration, mode: 'add' }),
+      "Samples Added",
+      `The new samples were added to ${registration.name}.`
+    );
+  };
+
+  const mergeDuplicates = () => {
+    saveEnrollment(
+      mergeIntoCandidates,
+      "Merged",
+      `Matching registrations were merged into ${name.trim()}.`
+    );
+  };
+
+  const overrideDuplicate = (reason: string) => {
+    saveEnrollment(
+      () => insertRegistration({
+        reason,
+        matches: duplicateCandidates.map(({ id, name: matchName, distance }) => ({ id, name: matchName, distance })),
+      }),
+      "Registration Successful",
+      `${name} has been registered despite the similar match.`
+    );
+  };
+
+  const stopCamera = () => {
+    frameScheduler.stop();
+    camera.stop();
     setFaceDetected(false);
-    setCapturedImage(null);
+    setQuality(null);
+    resetEnrollment();
   };
 
   return (
@@ -237,52 +716,135 @@ const FaceRegistration = () => {
         </h2>
         
         <div className="space-y-4">
-          <div className="relative bg-black rounded-lg overflow-hidden">
-            {!isCameraActive ? (
-              <div className="flex items-center justify-center h-64 bg-gradient-to-br from-slate-800 to-slate-900">
-                <Button
-                  onClick={startCamera}
-                  disabled={isLoading}
-                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold py-3 px-6 rounded-lg shadow-lg transform transition-all duration-200 hover:scale-105"
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-5 h-5 animate-spin mr-2" />
-                  ) : (
-                    <Camera className="w-5 h-5 mr-2" />
-                  )}
-                  Start Camera
-                </Button>
-              </div>
-            ) : (
-              <div className="relative">
-                <video
-                  ref={videoRef}
-                  autoPlay
-                  muted
-                  className="w-full h-auto"
-                  style={{ maxHeight: '360px' }}
-                />
-                <canvas
-                  ref={canvasRef}
-                  className="absolute top-0 left-0 w-full h-full"
-                />
-                {faceDetected && (
-                  <div className="absolute top-4 right-4 bg-green-500 text-white px-3 py-1 rounded-full text-sm font-semibold animate-pulse">
-                    Face Detected
-                  </div>
-                )}
-              </div>
-            )}
+          <FaceEngineStatus />
+
+          {!canEnroll && (
+            <div className="flex items-center gap-2 bg-yellow-500/20 text-yellow-300 rounded-lg px-4 py-2 text-sm">
+              <ShieldAlert className="w-4 h-4" />
+              Viewers can browse registrations; enrolling needs the Operator role.
+            </div>
+          )}
+
+          <div className="flex rounded-lg bg-slate-700 p-1">
+            {([
+              { source: 'camera', label: 'Camera', icon: Camera },
+              { source: 'upload', label: 'Upload Photo', icon: Upload },
+            ] as const).map(({ source, label, icon: Icon }) => (
+              <button
+                key={source}
+                onClick={() => switchEnrollmentSource(source)}
+                disabled={isLoading}
+                className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  enrollmentSource === source ? 'bg-blue-600 text-white' : 'text-slate-300 hover:text-white'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
           </div>
 
+          {enrollmentSource === 'upload' && (
+            <>
+              <PhotoEnrollment onSample={addUploadedSample} disabled={isLoading || !isEngineReady} />
+              {samples.length > 0 && (
+                <div className="bg-slate-900 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold text-white">Uploaded Samples</h3>
+                    <Button
+                      onClick={retakeLastSample}
+                      disabled={isLoading}
+                      variant="outline"
+                      size="sm"
+                      className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-6 gap-2">
+                    {samples.map((sample, index) => (
+                      <img
+                        key={index}
+                        src={sample.thumbnail}
+                        alt={`Uploaded sample ${index + 1}`}
+                        className="w-full aspect-square rounded-md object-cover border-2 border-green-500"
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {enrollmentSource === 'camera' && <CameraPicker camera={camera} disabled={isLoading} />}
+
+          {enrollmentSource === 'camera' && (
+            <div className="relative bg-black rounded-lg overflow-hidden">
+              {!isCameraActive ? (
+                <div className="flex items-center justify-center h-64 bg-gradient-to-br from-slate-800 to-slate-900">
+                  <Button
+                    onClick={startCamera}
+                    disabled={isLoading}
+                    className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold py-3 px-6 rounded-lg shadow-lg transform transition-all duration-200 hover:scale-105"
+                  >
+                    {isLoading ? (
+                      <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                    ) : (
+                      <Camera className="w-5 h-5 mr-2" />
+                    )}
+                    Start Camera
+                  </Button>
+                </div>
+              ) : (
+                <div className="relative">
+                  <video
+                    ref={videoRef}
+                    onLoadedMetadata={detectFaces}
+                    autoPlay
+                    playsInline
+                    muted
+                    className="w-full h-auto"
+                    style={{ maxHeight: '360px' }}
+                  />
+                  <canvas
+                    ref={canvasRef}
+                    className="absolute top-0 left-0 w-full h-full"
+                  />
+                  {faceDetected && (
+                    <div className="absolute top-4 right-4 bg-green-500 text-white px-3 py-1 rounded-full text-sm font-semibold animate-pulse">
+                      Face Detected
+                    </div>
+                  )}
+                  {currentPose && (
+                    <div className={`absolute bottom-4 left-4 right-4 px-3 py-2 rounded-lg text-sm font-semibold text-center ${
+                      poseMatched ? 'bg-green-500/80 text-white' : 'bg-slate-900/80 text-slate-200'
+                    }`}>
+                      {currentPose.instruction}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {isCameraActive && (
             <div className="flex gap-3">
               <Button
                 onClick={captureFace}
-                disabled={!faceDetected || isLoading}
+                disabled={!faceDetected || !poseMatched || !quality?.passed || enrollmentComplete || isLoading}
                 className="flex-1 bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 disabled:opacity-50"
               >
-                Capture Face
+                {enrollmentComplete
+                  ? 'All Samples Captured'
+                  : `Capture ${currentPose.label} (${currentStep + 1}/${ENROLLMENT_POSES.length})`}
+              </Button>
+              <Button
+                onClick={retakeLastSample}
+                disabled={samples.length === 0 || isLoading}
+                variant="outline"
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                <Undo2 className="w-4 h-4" />
               </Button>
               <Button
                 onClick={stopCamera}
@@ -294,32 +856,100 @@ const FaceRegistration = () => {
             </div>
           )}
 
-          {capturedImage && (
+          {isCameraActive && !enrollmentComplete && <QualityIndicator report={quality} />}
+
+          {isCameraActive && (
+            <div className="bg-slate-900 rounded-lg p-4 space-y-3">
+              <LivenessModeToggle mode={livenessMode} onChange={setLivenessMode} disabled={isLoading} />
+              <div className={`flex items-center gap-2 text-sm ${
+                livenessVerdict?.status === 'live' ? 'text-green-400' :
+                livenessVerdict?.status === 'spoof' ? 'text-red-400' :
+                'text-yellow-400'
+              }`}>
+                {livenessVerdict?.status === 'live' ? (
+                  <ShieldCheck className="w-4 h-4" />
+                ) : (
+                  <ShieldAlert className="w-4 h-4" />
+                )}
+                <span className="flex-1">
+                  {livenessVerdict?.status === 'live'
+                    ? 'Liveness verified'
+                    : livenessVerdict?.reason || 'Checking liveness...'}
+                </span>
+                {livenessVerdict?.status === 'spoof' && (
+                  <button onClick={resetLiveness} className="text-slate-300 hover:text-white">
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {isCameraActive && (
+            <div className="bg-slate-900 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-white mb-3">Enrollment Samples</h3>
+              <div className="grid grid-cols-6 gap-2">
+                {ENROLLMENT_POSES.map((pose, index) => {
+                  const sample = samples[index];
+                  return (
+                    <div key={index} className="text-center">
+                      {sample ? (
+                        <img
+                          src={sample.thumbnail}
+                          alt={`${pose.label} sample`}
+                          className="w-full aspect-square rounded-md object-cover border-2 border-green-500"
+                        />
+                      ) : (
+                        <div className={`w-full aspect-square rounded-md border-2 border-dashed ${
+                          index === currentStep ? 'border-blue-400' : 'border-slate-600'
+                        }`} />
+                      )}
+                      <p className="text-xs text-slate-400 mt-1">{pose.label}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {reenrollTarget && (
+            <div className="flex items-center gap-2 bg-blue-500/20 text-blue-300 rounded-lg px-4 py-2 text-sm">
+              <span className="flex-1">
+                {reenrollTarget.mode === 'add' ? 'Adding samples for' : 'Replacing samples for'}{' '}
+                <span className="font-semibold">{reenrollTarget.registration.name}</span>
+              </span>
+              <button onClick={cancelReenroll} className="hover:text-white">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {enrollmentComplete && (
             <div className="space-y-4">
-              <div className="bg-slate-900 rounded-lg p-4">
-                <h3 className="text-lg font-semibold text-white mb-2">Captured Image</h3>
-                <img
-                  src={capturedImage}
-                  alt="Captured face"
-                  className="w-full max-w-xs mx-auto rounded-lg shadow-lg"
-                />
+              <div className="flex items-center gap-2 text-green-400 text-sm">
+                <CheckCircle2 className="w-4 h-4" />
+                {samples.length} samples captured
               </div>
 
               <div className="space-y-3">
-                <div>
-                  <Label htmlFor="name" className="text-slate-300">Person's Name</Label>
-                  <Input
-                    id="name"
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    placeholder="Enter person's name"
-                    className="bg-slate-700 border-slate-600 text-white placeholder-slate-400 focus:border-blue-500"
-                  />
-                </div>
+                {!reenrollTarget && (
+                  <>
+                    <PersonDetailsFields
+                      value={details}
+                      onChange={setDetails}
+                      idPrefix="register"
+                      labelClassName="text-slate-300"
+                      inputClassName="bg-slate-700 border-slate-600 text-white placeholder-slate-400 focus:border-blue-500"
+                    />
+                    {detailsError && name.trim() && (
+                      <p className="text-sm text-red-400">{detailsError}</p>
+                    )}
+                  </>
+                )}
 
                 <Button
                   onClick={registerFace}
-                  disabled={!name.trim() || isLoading}
+                  disabled={!name.trim() || (!reenrollTarget && !!detailsError) || !livenessSatisfied || isLoading || !canEnroll}
                   className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold py-3 rounded-lg shadow-lg transform transition-all duration-200 hover:scale-105"
                 >
                   {isLoading ? (
@@ -327,7 +957,7 @@ const FaceRegistration = () => {
                   ) : (
                     <UserPlus className="w-5 h-5 mr-2" />
                   )}
-                  Register Face
+                  {reenrollTarget ? 'Save Samples' : 'Register Face'}
                 </Button>
               </div>
             </div>
@@ -337,8 +967,53 @@ const FaceRegistration = () => {
 
       {/* Registrations List */}
       <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl p-6 border border-slate-700 shadow-2xl">
-        <h2 className="text-2xl font-bold text-white mb-6">Registered Faces</h2>
-        
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">Registered Faces</h2>
+          <BulkImport existing={registrations} onImported={fetchRegistrations} disabled={isLoading || !isEngineReady || !canEnroll} />
+        </div>
+
+        {registrations.length > 0 && (
+          <div className="space-y-2 mb-4">
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <Input
+                  value={filter.query}
+                  onChange={(e) => setFilter(prev => ({ ...prev, query: e.target.value }))}
+                  placeholder="Search name, ID, email, notes..."
+                  className="pl-9 bg-slate-700 border-slate-600 text-white placeholder-slate-400 focus:border-blue-500"
+                />
+              </div>
+              <Select
+                value={filter.department ?? ALL_DEPARTMENTS}
+                onValueChange={(value) => setFilter(prev => ({
+                  ...prev,
+                  department: value === ALL_DEPARTMENTS ? null : value,
+                }))}
+              >
+                <SelectTrigger className="w-44 bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                  {departments.map(department => (
+                    <SelectItem key={department} value={department}>{department}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {filter.tag && (
+              <button
+                onClick={() => setFilter(prev => ({ ...prev, tag: null }))}
+                className="flex items-center gap-1 text-sm text-blue-300 hover:text-white"
+              >
+                Tagged <span className="font-semibold">{filter.tag}</span>
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="space-y-4 max-h-96 overflow-y-auto">
           {registrations.length === 0 ? (
             <div className="text-center py-8 text-slate-400">
@@ -346,31 +1021,83 @@ const FaceRegistration = () => {
               <p>No faces registered yet</p>
               <p className="text-sm">Start by capturing and registering a face</p>
             </div>
+          ) : filteredRegistrations.length === 0 ? (
+            <div className="text-center py-8 text-slate-400">
+              <p>No one matches these filters</p>
+            </div>
           ) : (
-            registrations.map((registration) => (
+            filteredRegistrations.map((registration) => (
               <div
                 key={registration.id}
                 className="bg-slate-900/50 rounded-lg p-4 border border-slate-600 hover:border-blue-500 transition-colors"
               >
                 <div className="flex items-center gap-4">
                   <img
-                    src={registration.face_encoding}
+                    src={thumbnailUrls[registration.thumbnail_path]}
                     alt={registration.name}
                     className="w-16 h-16 rounded-lg object-cover border-2 border-slate-600"
                   />
-                  <div className="flex-1">
-                    <h3 className="font-semibold text-white">{registration.name}</h3>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-white">
+                      {registration.name}
+                      {registration.external_id && (
+                        <span className="ml-2 text-xs font-normal text-slate-400">{registration.external_id}</span>
+                      )}
+                    </h3>
+                    {(registration.title || registration.department) && (
+                      <p className="text-sm text-slate-300 truncate">
+                        {[registration.title, registration.department].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                    <p className="text-xs text-slate-500">
+                      {sampleCount(registration)} {sampleCount(registration) === 1 ? 'sample' : 'samples'}
+                    </p>
+                    {registration.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {registration.tags.map(tag => (
+                          <Badge
+                            key={tag}
+                            variant="secondary"
+                            onClick={() => setFilter(prev => ({ ...prev, tag }))}
+                            className="cursor-pointer"
+                          >
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                     <p className="text-sm text-slate-400">
                       {new Date(registration.created_at).toLocaleDateString()} at{' '}
                       {new Date(registration.created_at).toLocaleTimeString()}
                     </p>
                   </div>
+                  <RegistrationActions
+                    details={registration}
+                    disabled={isLoading || !canEnroll}
+                    canDelete={canDelete}
+                    onUpdate={(updated) => updateDetails(registration, updated)}
+                    onReenroll={(mode) => startReenroll(registration, mode)}
+                    onDelete={() => deleteRegistration(registration)}
+                  />
                 </div>
               </div>
             ))
           )}
         </div>
       </div>
+
+      <DuplicateReviewDialog
+        open={duplicateCandidates.length > 0}
+        newName={name.trim()}
+        newThumbnail={samples[0]?.thumbnail ?? null}
+        candidates={duplicateCandidates}
+        threshold={duplicateThreshold}
+        isSaving={isLoading}
+        onMerge={canDelete ? mergeDuplicates : undefined}
+        onAddSamples={addToDuplicate}
+        onOverride={overrideDuplicate}
+        onCancel={() => setDuplicateCandidates([])}
+      />
     </div>
   );
 };
@@ -1,13 +1,51 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Camera, CameraOff, Play, Pause, Monitor, Users, Target, Zap, Download } from 'lucide-react';
-import * as faceapi from 'face-api.js';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Camera, CameraOff, Play, Pause, Monitor, Users, Target, Zap, Download, CalendarCheck, Film } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useRegistrationChanges } from '@/hooks/use-registration-changes';
+import { useFaceEngine } from '@/hooks/use-face-engine';
+import { useSettings } from '@/hooks/use-settings';
+import { useAuth } from '@/hooks/use-auth';
+import { useCameraManager } from '@/hooks/use-camera-manager';
+import { useRecognitionClient } from '@/hooks/use-recognition-client';
+import { Link } from 'react-router-dom';
+import { createFaceMatcher, FaceMatch, UNKNOWN_LABEL } from '@/lib/face-matcher';
+import { matchOnServer, MatchingMode } from '@/lib/server-matcher';
+import { createThumbnail } from '@/lib/face-descriptors';
+import {
+  createRecognitionEventLogger,
+  fetchRecentEvents,
+  RECENT_EVENTS_LIMIT,
+  RecognitionEventLogger,
+  RecognitionEventRow,
+} from '@/lib/recognition-events';
+import { createLivenessSession, LivenessMode, LivenessSession, LivenessStatus, measureMoire } from '@/lib/liveness';
+import { createFaceTracker, TrackEvent } from '@/lib/face-tracker';
+import { createFrameScheduler } from '@/lib/frame-scheduler';
+import { recordAuditEvent } from '@/lib/audit';
+import {
+  AttendanceKind,
+  AttendanceTracker,
+  createAttendanceTracker,
+} from '@/lib/attendance';
+import LivenessModeToggle from '@/components/LivenessModeToggle';
+import MatchingModeToggle from '@/components/MatchingModeToggle';
+import FaceEngineStatus from '@/components/FaceEngineStatus';
+import DetectorSettings from '@/components/DetectorSettings';
+import CameraPicker from '@/components/CameraPicker';
+import MediaRecognition from '@/components/MediaRecognition';
+import { DETECTOR_LABELS } from '@/lib/detector-config';
+import { createMessage, DEFAULT_RECOGNITION_SERVER_URL, ServerMessage } from '@/lib/recognition-protocol';
+import { Switch } from '@/components/ui/switch';
 
 interface RecognitionResult {
   id: string;
+  personId: string | null;
   name: string;
   confidence: number;
+  // Only true for a gallery match whose liveness has been verified
+  recognized: boolean;
+  liveness: LivenessStatus;
   box: { x: number; y: number; width: number; height: number };
   timestamp: Date;
 }
@@ -15,74 +53,180 @@ interface RecognitionResult {
 interface FaceRegistration {
   id: string;
   name: string;
-  face_encoding: string;
+  face_descriptor: number[] | null;
   created_at: string;
 }
 
-interface WebSocketMessage {
-  type: 'face_recognition_request' | 'face_recognition_response';
-  data: any;
+const RECOGNITION_SERVER_URL: string = import.meta.env.VITE_RECOGNITION_WS_URL || DEFAULT_RECOGNITION_SERVER_URL;
+const RECOGNITION_SERVER_TOKEN: string | null = import.meta.env.VITE_RECOGNITION_WS_TOKEN || null;
+// Identifies this page load to the recognition server
+const CLIENT_ID = crypto.randomUUID();
+
+type SourceMode = 'camera' | 'media';
+
+// Used until a camera has reported its device id
+const DEFAULT_SOURCE_ID = 'default-camera';
+
+interface AttendanceEntry {
+  id: string;
+  name: string;
+  kind: AttendanceKind;
+  timestamp: Date;
 }
 
+const eventToResult = (event: RecognitionEventRow): RecognitionResult => ({
+  id: event.id,
+  personId: event.person_id,
+  name: event.person_name,
+  confidence: event.confidence,
+  recognized: event.recognized,
+  liveness: event.liveness as LivenessStatus,
+  box: event.box as RecognitionResult['box'],
+  timestamp: new Date(event.occurred_at),
+});
+
 interface Statistics {
   detectedFaces: number;
   recognitionAccuracy: number;
   frameRate: number;
-  totalRecognitions: number;
+  // Distinct people verified since the page was opened
+  uniquePeople: number;
+  // Confirmed face tracks, i.e. times someone stepped into view
+  visits: number;
+  // Mean time the detector took per frame over the last second
+  inferenceMs: number;
 }
 
 const LiveRecognition = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const frameCountRef = useRef(0);
   const lastFrameTimeRef = useRef(Date.now());
+  const inferenceMsRef = useRef(0);
+  // Liveness sessions keyed by track id, closed when the track leaves
+  const livenessSessionsRef = useRef(new Map<string, LivenessSession>());
+  const faceTrackerRef = useRef(createFaceTracker());
+  const uniquePeopleRef = useRef(new Set<string>());
+  const visitsRef = useRef(0);
+  const eventLoggerRef = useRef<RecognitionEventLogger | null>(null);
+  const processFrameRef = useRef<() => Promise<void>>(async () => {});
+  // Never starts a frame before the previous one has finished; the frame
+  // interval comes from the settings
+  const [frameScheduler] = useState(() => createFrameScheduler(() => processFrameRef.current()));
+  const sourceIdRef = useRef(DEFAULT_SOURCE_ID);
+  const attendanceTrackerRef = useRef<AttendanceTracker | null>(null);
+  // When the running recognition session started, for the audit log
+  const recognitionStartedAtRef = useRef<number | null>(null);
   
   const [isRecognitionActive, setIsRecognitionActive] = useState(false);
-  const [isCameraActive, setIsCameraActive] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [wsStatus, setWsStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
   const [recognitionResults, setRecognitionResults] = useState<RecognitionResult[]>([]);
-  const [registeredFaces, setRegisteredFaces] = useState<FaceRegistration[]>([]);
+  // Null until the gallery has been downloaded
+  const [registeredFaces, setRegisteredFaces] = useState<FaceRegistration[] | null>(null);
   const [recognitionHistory, setRecognitionHistory] = useState<RecognitionResult[]>([]);
   const [statistics, setStatistics] = useState<Statistics>({
     detectedFaces: 0,
     recognitionAccuracy: 0,
     frameRate: 0,
-    totalRecognitions: 0
+    uniquePeople: 0,
+    visits: 0,
+    inferenceMs: 0
   });
-  const [isModelsLoaded, setIsModelsLoaded] = useState(false);
+  const [livenessMode, setLivenessMode] = useState<LivenessMode>('passive');
+  const [isAttendanceMode, setIsAttendanceMode] = useState(false);
+  const [attendanceFeed, setAttendanceFeed] = useState<AttendanceEntry[]>([]);
+  const [presenceEvents, setPresenceEvents] = useState<TrackEvent[]>([]);
+  const [sourceMode, setSourceMode] = useState<SourceMode>('camera');
+  // Whether the latest server match failed and the frame was matched locally
+  const [hasServerMatchFailed, setHasServerMatchFailed] = useState(false);
   
   const { toast } = useToast();
+  const { engine, isReady: isEngineReady, detectorConfig } = useFaceEngine();
+  // Recognition writes events and attendance, which viewers may only read
+  const canRecognize = useAuth().can('operator');
+  const { settings, save } = useSettings();
+  const attendanceCooldown = settings.attendance.cooldownMinutes;
+  const matchThreshold = settings.recognition.matchThreshold;
+  const thumbnailQuality = settings.images.thumbnailQuality;
+  const matchingMode = settings.recognition.matchingMode;
+  const { camera, stream, activeDeviceId, isActive: isCameraActive } = useCameraManager(settings.camera, error => {
+    console.error('Camera lost:', error);
+    stopCamera();
+    toast({
+      title: "Camera Disconnected",
+      description: "The camera stopped and no other camera could be opened.",
+      variant: "destructive"
+    });
+  });
 
-  // Load face-api models
-  const loadModels = useCallback(async () => {
-    try {
-      await Promise.all([
-        faceapi.loadTinyFaceDetectorModel('/models'),
-        faceapi.loadFaceLandmarkModel('/models'),
-        faceapi.loadFaceRecognitionModel('/models')
-      ]);
-      setIsModelsLoaded(true);
-      console.log('Face recognition models loaded successfully');
-    } catch (error) {
-      console.error('Error loading face-api models:', error);
-      toast({
-        title: "Model Loading Error",
-        description: "Failed to load face recognition models. Please refresh the page.",
-        variant: "destructive"
-      });
+  const handleServerMessage = useCallback((message: ServerMessage) => {
+    // Match responses are delivered to the request that asked for them
+    if (message.type === 'error') {
+      console.error(`Recognition server error (${message.code}):`, message.message);
     }
-  }, [toast]);
+  }, []);
+
+  // Frame results produced while the server is unreachable are queued and
+  // delivered once it is back
+  const {
+    client: recognitionClient,
+    status: wsStatus,
+    metrics: wsMetrics,
+    serverCapabilities,
+  } = useRecognitionClient(
+    {
+      url: RECOGNITION_SERVER_URL,
+      token: RECOGNITION_SERVER_TOKEN,
+      clientId: CLIENT_ID,
+      getSourceId: () => sourceIdRef.current,
+      capabilities: ['frame_results', 'match'],
+    },
+    handleServerMessage
+  );
+
+  const canMatchOnServer = matchingMode === 'server' && wsStatus === 'connected' && serverCapabilities.includes('match');
+  const isMatchingFallback = matchingMode === 'server' && (!canMatchOnServer || hasServerMatchFailed);
+  // Recorded media is always matched in the browser
+  const needsLocalGallery = !canMatchOnServer || hasServerMatchFailed || sourceMode === 'media';
+
+  const faceMatcher = useMemo(
+    () => createFaceMatcher(registeredFaces ?? [], { threshold: matchThreshold }),
+    [registeredFaces, matchThreshold]
+  );
+
+  useEffect(() => {
+    frameScheduler.setMinIntervalMs(settings.recognition.frameIntervalMs);
+  }, [frameScheduler, settings.recognition.frameIntervalMs]);
+
+  useEffect(() => {
+    livenessSessionsRef.current.clear();
+  }, [livenessMode]);
+
+  // Only verified recognitions become attendance records, and only while
+  // attendance mode is on
+  useEffect(() => {
+    if (!isAttendanceMode) {
+      attendanceTrackerRef.current = null;
+      return;
+    }
+
+    const tracker = createAttendanceTracker({ sourceId: sourceIdRef.current });
+    attendanceTrackerRef.current = tracker;
+    tracker.seed().catch(error => console.error('Error loading today\'s attendance:', error));
+  }, [isAttendanceMode]);
+
+  // Applied to the running tracker rather than replacing it, so changing the
+  // cooldown does not forget who was just seen
+  useEffect(() => {
+    attendanceTrackerRef.current?.setCooldownMinutes(attendanceCooldown);
+  }, [isAttendanceMode, attendanceCooldown]);
 
   // Load registered faces from database
   const loadRegisteredFaces = useCallback(async () => {
     try {
       const { data, error } = await supabase
-        .from('face_registrations')
-        .select('*')
+        .from('people')
+        .select('id, name, face_descriptor, created_at')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -97,70 +241,65 @@ const LiveRecognition = () => {
     }
   }, [toast]);
 
-  // WebSocket connection
-  const connectWebSocket = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) return;
-
-    setWsStatus('connecting');
-    
-    // For demo purposes, using a mock WebSocket URL
-    // In production, replace with actual WebSocket server
+  // History survives reloads: it is seeded from the persisted event log
+  const loadRecentEvents = useCallback(async () => {
     try {
-      wsRef.current = new WebSocket('ws://localhost:8080/face-recognition');
-      
-      wsRef.current.onopen = () => {
-        setWsStatus('connected');
-        console.log('WebSocket connected');
-      };
-
-      wsRef.current.onmessage = (event) => {
-        try {
-          const message: WebSocketMessage = JSON.parse(event.data);
-          if (message.type === 'face_recognition_response') {
-            // Handle recognition response
-            console.log('Recognition response:', message.data);
-          }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      };
-
-      wsRef.current.onclose = () => {
-        setWsStatus('disconnected');
-        console.log('WebSocket disconnected');
-        // Auto-reconnect after 3 seconds
-        setTimeout(connectWebSocket, 3000);
-      };
-
-      wsRef.current.onerror = (error) => {
-        console.error('WebSocket error:', error);
-        setWsStatus('disconnected');
-      };
+      const events = await fetchRecentEvents();
+      setRecognitionHistory(events.map(eventToResult));
     } catch (error) {
-      console.error('Failed to connect WebSocket:', error);
-      setWsStatus('disconnected');
+      console.error('Error loading recognition history:', error);
     }
   }, []);
 
-  // Start camera
-  const startCamera = useCallback(async () => {
+  // While the server matches, the gallery is neither downloaded nor kept; it
+  // is fetched once matching falls back to the browser
+  useEffect(() => {
+    if (needsLocalGallery) loadRegisteredFaces();
+    else setRegisteredFaces(null);
+  }, [needsLocalGallery, loadRegisteredFaces]);
+
+  // Renames, re-enrollments and deletions from the registration tab (or any
+  // other client) rebuild the matcher immediately
+  useRegistrationChanges(useCallback(() => {
+    if (needsLocalGallery) loadRegisteredFaces();
+  }, [needsLocalGallery, loadRegisteredFaces]));
+
+  const changeMatchingMode = useCallback(async (mode: MatchingMode) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480 }
+      setHasServerMatchFailed(false);
+      await save({ ...settings, recognition: { ...settings.recognition, matchingMode: mode } });
+    } catch (error) {
+      console.error('Error saving matching mode:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save the matching mode.",
+        variant: "destructive"
       });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-        setIsCameraActive(true);
-        
-        videoRef.current.onloadedmetadata = () => {
-          if (canvasRef.current && videoRef.current) {
-            canvasRef.current.width = videoRef.current.videoWidth;
-            canvasRef.current.height = videoRef.current.videoHeight;
-          }
-        };
+    }
+  }, [save, settings, toast]);
+
+  // Only descriptors are sent to the server; any failure falls back to the
+  // local matcher for this frame. Null while that fallback has no gallery
+  // yet, since matching against nothing would call everyone unknown.
+  const matchDescriptors = useCallback(async (descriptors: Float32Array[]): Promise<FaceMatch[] | null> => {
+    if (canMatchOnServer) {
+      try {
+        const matches = await matchOnServer(recognitionClient, descriptors, matchThreshold);
+        setHasServerMatchFailed(false);
+        return matches;
+      } catch (error) {
+        console.error('Server matching failed, matching locally:', error);
+        setHasServerMatchFailed(true);
       }
+    }
+    if (!registeredFaces) return null;
+    return descriptors.map(descriptor => faceMatcher.match(descriptor));
+  }, [canMatchOnServer, recognitionClient, matchThreshold, registeredFaces, faceMatcher]);
+
+  // Start camera
+  const startCamera = useCallback(async () => {
+    try {
+      await camera.start();
     } catch (error) {
       console.error('Error accessing camera:', error);
       toast({
@@ -169,24 +308,67 @@ const LiveRecognition = () => {
         variant: "destructive"
       });
     }
-  }, [toast]);
+  }, [camera, toast]);
 
-  // Stop camera
-  const stopCamera = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+  // Events are attributed to the camera that saw them, so switching cameras
+  // starts a new logger
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+    if (!stream) return;
+
+    sourceIdRef.current = activeDeviceId || DEFAULT_SOURCE_ID;
+    eventLoggerRef.current?.dispose();
+    eventLoggerRef.current = createRecognitionEventLogger({ sourceId: sourceIdRef.current });
+  }, [stream, activeDeviceId]);
+
+  const resizeCanvas = useCallback(() => {
+    if (canvasRef.current && videoRef.current) {
+      canvasRef.current.width = videoRef.current.videoWidth;
+      canvasRef.current.height = videoRef.current.videoHeight;
     }
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
+  }, []);
+
+  const handleTrackEvents = useCallback((events: TrackEvent[]) => {
+    if (events.length === 0) return;
+
+    for (const event of events) {
+      if (event.type === 'enter') visitsRef.current++;
+      else livenessSessionsRef.current.delete(event.trackId);
     }
-    setIsCameraActive(false);
-    setIsRecognitionActive(false);
+    setPresenceEvents(prev => [...[...events].reverse(), ...prev].slice(0, 10));
   }, []);
 
+  const auditRecognitionStopped = useCallback(() => {
+    const startedAt = recognitionStartedAtRef.current;
+    if (startedAt === null) return;
+
+    recognitionStartedAtRef.current = null;
+    recordAuditEvent('recognition.stopped', {
+      source_id: sourceIdRef.current,
+      duration_seconds: Math.round((Date.now() - startedAt) / 1000),
+    });
+  }, []);
+
+  // Stop camera
+  const stopCamera = useCallback(() => {
+    camera.stop();
+    eventLoggerRef.current?.dispose();
+    eventLoggerRef.current = null;
+    frameScheduler.stop();
+    handleTrackEvents(faceTrackerRef.current.reset(Date.now()));
+    livenessSessionsRef.current.clear();
+    setIsRecognitionActive(false);
+    auditRecognitionStopped();
+  }, [camera, frameScheduler, handleTrackEvents, auditRecognitionStopped]);
+
+  const switchSourceMode = useCallback((mode: SourceMode) => {
+    if (mode === 'media') stopCamera();
+    setSourceMode(mode);
+  }, [stopCamera]);
+
   // Face recognition processing
   const processFrame = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current || !isModelsLoaded || !isRecognitionActive) return;
+    if (!videoRef.current || !canvasRef.current || !isEngineReady || !isRecognitionActive) return;
 
     const video = videoRef.current;
     const canvas = canvasRef.current;
@@ -195,67 +377,129 @@ const LiveRecognition = () => {
     if (!ctx) return;
 
     try {
-      // Clear canvas
+      // Detect faces; the canvas is cleared afterwards so the previous boxes
+      // stay visible while the worker is busy
+      const inferenceStart = performance.now();
+      const detections = await engine.detectFaceSamples(video);
+      inferenceMsRef.current += performance.now() - inferenceStart;
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      // Detect faces
-      const detections = await faceapi
-        .detectAllFaces(video, new faceapi.TinyFaceDetectorOptions())
-        .withFaceLandmarks()
-        .withFaceDescriptors();
-
-      if (detections.length === 0) {
-        setRecognitionResults([]);
-        setStatistics(prev => ({ ...prev, detectedFaces: 0 }));
-        return;
-      }
 
-      // Compare with registered faces
+      // Every frame goes through the tracker, including empty ones, so that
+      // people who walked away get their leave event
+      const frameTime = Date.now();
+      const matches = await matchDescriptors(detections.map(detection => detection.descriptor));
+      const { tracks, events } = faceTrackerRef.current.update(
+        detections.map((detection, index) => ({
+          box: {
+            x: detection.box.x,
+            y: detection.box.y,
+            width: detection.box.width,
+            height: detection.box.height
+          },
+          descriptor: detection.descriptor,
+          match: matches?.[index] ?? null,
+        })),
+        frameTime
+      );
+      handleTrackEvents(events);
+
       const results: RecognitionResult[] = [];
+      const logged: RecognitionResult[] = [];
+      const sessions = livenessSessionsRef.current;
       
-      for (const detection of detections) {
-        let bestMatch: { name: string; distance: number } | null = null;
-        
-        for (const registered of registeredFaces) {
-          try {
-            // In a real implementation, you would decode the face_encoding
-            // For demo purposes, we'll use a mock comparison
-            const mockDistance = Math.random() * 0.8; // Random distance for demo
-            
-            if (mockDistance < 0.6 && (!bestMatch || mockDistance < bestMatch.distance)) {
-              bestMatch = { name: registered.name, distance: mockDistance };
-            }
-          } catch (error) {
-            console.error('Error comparing face:', error);
+      for (const track of tracks) {
+        // Tracks that missed this frame stay open but are not drawn
+        if (track.detectionIndex === null) continue;
+
+        const detection = detections[track.detectionIndex];
+        const match = matches?.[track.detectionIndex] ?? null;
+        const identity = track.identity;
+
+        // Liveness is tracked per face track; unknown faces are never
+        // recognized so they don't need a session.
+        let liveness: LivenessStatus = 'pending';
+        let livenessReason: string | undefined;
+        if (identity.isKnown) {
+          let session = sessions.get(track.id);
+          if (!session) {
+            session = createLivenessSession({ mode: livenessMode });
+            sessions.set(track.id, session);
           }
+          const verdict = session.addFrame({
+            landmarks: detection.landmarks,
+            moire: measureMoire(video, detection.box),
+            timestamp: frameTime,
+          });
+          liveness = verdict.status;
+          livenessReason = verdict.reason;
         }
 
+        const recognized = identity.isKnown && liveness === 'live';
+        if (recognized) uniquePeopleRef.current.add(identity.personId ?? identity.label);
+
         const result: RecognitionResult = {
-          id: Math.random().toString(36).substr(2, 9),
-          name: bestMatch ? bestMatch.name : 'Unknown Person',
-          confidence: bestMatch ? (1 - bestMatch.distance) * 100 : 0,
-          box: {
-            x: detection.detection.box.x,
-            y: detection.detection.box.y,
-            width: detection.detection.box.width,
-            height: detection.detection.box.height
-          },
-          timestamp: new Date()
+          id: track.id,
+          personId: identity.personId,
+          name: identity.label,
+          confidence: identity.confidence,
+          recognized,
+          liveness,
+          box: track.box,
+          timestamp: new Date(frameTime)
         };
 
         results.push(result);
 
-        // Draw bounding box
-        ctx.strokeStyle = bestMatch ? '#10b981' : '#ef4444';
+        if (recognized && identity.personId) {
+          attendanceTrackerRef.current?.observe(identity.personId, identity.label)
+            .then(kind => {
+              if (!kind) return;
+              setAttendanceFeed(prev => [
+                { id: `${result.id}-${frameTime}`, name: identity.label, kind, timestamp: result.timestamp },
+                ...prev,
+              ].slice(0, 10));
+            })
+            .catch(error => console.error('Error recording attendance:', error));
+        }
+
+        // Only settled outcomes of matched frames are logged; a known face
+        // still verifying liveness is logged once it passes or fails
+        if (match && (!identity.isKnown || liveness !== 'pending')) {
+          const queued = eventLoggerRef.current?.log(
+            {
+              trackId: track.id,
+              personId: identity.personId,
+              name: identity.label,
+              recognized,
+              liveness,
+              // This frame's distance only describes the voted identity if
+              // the frame voted for it
+              distance: match.label === identity.label ? match.distance : NaN,
+              confidence: identity.confidence,
+              box: result.box,
+              occurredAt: result.timestamp,
+            },
+            () => createThumbnail(video, detection.box, video.videoWidth, video.videoHeight, thumbnailQuality)
+          );
+          if (queued) logged.push(result);
+        }
+
+        // Draw bounding box: green when recognized, amber while liveness is
+        // still pending, red for unknown faces and spoofs
+        const color = recognized ? '#10b981' :
+          identity.isKnown && liveness === 'pending' ? '#f59e0b' :
+          '#ef4444';
+        ctx.strokeStyle = color;
         ctx.lineWidth = 2;
         ctx.strokeRect(result.box.x, result.box.y, result.box.width, result.box.height);
 
         // Draw name and confidence
-        ctx.fillStyle = bestMatch ? '#10b981' : '#ef4444';
+        ctx.fillStyle = color;
         ctx.font = '14px Arial';
-        const text = bestMatch ? 
-          `${result.name} (${result.confidence.toFixed(1)}%)` : 
-          'Unknown Person';
+        const text = !identity.isKnown ? UNKNOWN_LABEL :
+          recognized ? `${result.name} (${result.confidence.toFixed(1)}%)` :
+          liveness === 'spoof' ? `Spoof? ${result.name}` :
+          `${result.name} – ${livenessReason || 'verifying liveness'}`;
         ctx.fillText(text, result.box.x, result.box.y - 10);
       }
 
@@ -269,46 +513,65 @@ const LiveRecognition = () => {
       if (timeDiff >= 1000) {
         const fps = (frameCountRef.current * 1000) / timeDiff;
         const accuracy = results.length > 0 ? 
-          (results.filter(r => r.name !== 'Unknown Person').length / results.length) * 100 : 0;
+          (results.filter(r => r.recognized).length / results.length) * 100 : 0;
         
-        setStatistics(prev => ({
+        setStatistics({
           detectedFaces: results.length,
           recognitionAccuracy: accuracy,
           frameRate: fps,
-          totalRecognitions: prev.totalRecognitions + results.filter(r => r.name !== 'Unknown Person').length
-        }));
+          uniquePeople: uniquePeopleRef.current.size,
+          visits: visitsRef.current,
+          inferenceMs: inferenceMsRef.current / frameCountRef.current
+        });
         
         frameCountRef.current = 0;
+        inferenceMsRef.current = 0;
         lastFrameTimeRef.current = now;
       }
 
-      // Add to history (keep last 100)
-      setRecognitionHistory(prev => 
-        [...results, ...prev].slice(0, 100)
-      );
-
-      // Send to WebSocket if connected
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
-        const message: WebSocketMessage = {
-          type: 'face_recognition_request',
-          data: { results, timestamp: new Date().toISOString() }
-        };
-        wsRef.current.send(JSON.stringify(message));
+      if (logged.length > 0) {
+        setRecognitionHistory(prev => [...logged, ...prev].slice(0, RECENT_EVENTS_LIMIT));
       }
 
+      recognitionClient.send(createMessage({
+        type: 'frame_results',
+        sourceId: sourceIdRef.current,
+        frameAt: frameTime,
+        faces: results.map(({ id, personId, name, confidence, recognized, liveness, box }) => ({
+          trackId: id,
+          personId,
+          name,
+          confidence,
+          recognized,
+          liveness,
+          box,
+        })),
+        events: events.map(event => ({
+          type: event.type,
+          trackId: event.trackId,
+          personId: event.identity.personId,
+          name: event.identity.label,
+          at: event.timestamp,
+        })),
+      }));
+
     } catch (error) {
       console.error('Error processing frame:', error);
     }
-  }, [isModelsLoaded, isRecognitionActive, registeredFaces]);
+  }, [engine, isEngineReady, isRecognitionActive, matchDescriptors, livenessMode, thumbnailQuality, handleTrackEvents, recognitionClient]);
+
+  // The scheduler outlives the render that started it, so it always calls
+  // the latest processFrame through a ref
+  useEffect(() => {
+    processFrameRef.current = processFrame;
+  }, [processFrame]);
 
   // Start/stop recognition
   const toggleRecognition = useCallback(() => {
     if (isRecognitionActive) {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+      frameScheduler.stop();
       setIsRecognitionActive(false);
+      auditRecognitionStopped();
     } else {
       if (!isCameraActive) {
         toast({
@@ -320,15 +583,19 @@ const LiveRecognition = () => {
       }
       
       setIsRecognitionActive(true);
-      intervalRef.current = setInterval(processFrame, 500); // 2 FPS
+      frameScheduler.start();
+      recognitionStartedAtRef.current = Date.now();
+      recordAuditEvent('recognition.started', { source_id: sourceIdRef.current, matching: matchingMode });
     }
-  }, [isRecognitionActive, isCameraActive, processFrame, toast]);
+  }, [isRecognitionActive, isCameraActive, toast, auditRecognitionStopped, matchingMode, frameScheduler]);
 
   // Export recognition logs
   const exportLogs = useCallback(() => {
     const data = recognitionHistory.map(result => ({
       name: result.name,
       confidence: result.confidence,
+      recognized: result.recognized,
+      liveness: result.liveness,
       timestamp: result.timestamp.toISOString()
     }));
     
@@ -341,26 +608,19 @@ const LiveRecognition = () => {
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
+    recordAuditEvent('events.exported', { records: data.length, file: a.download });
   }, [recognitionHistory]);
 
   // Initialize on mount
   useEffect(() => {
-    loadModels();
-    loadRegisteredFaces();
-    connectWebSocket();
+    loadRecentEvents();
 
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
+      frameScheduler.stop();
+      eventLoggerRef.current?.dispose();
+      auditRecognitionStopped();
     };
-  }, [loadModels, loadRegisteredFaces, connectWebSocket]);
+  }, [loadRecentEvents, frameScheduler, auditRecognitionStopped]);
 
   return (
     <div className={`${isFullscreen ? 'fixed inset-0 z-50 bg-slate-900' : ''} bg-slate-800/50 backdrop-blur-sm rounded-2xl p-6 border border-slate-700 shadow-2xl`}>
@@ -377,6 +637,15 @@ const LiveRecognition = () => {
             }`}>
               {wsStatus}
             </div>
+            <div className="hidden md:flex items-center gap-3 text-xs text-slate-400" title={wsMetrics.lastError ?? undefined}>
+              {wsStatus === 'connected' && wsMetrics.rttMs !== null && <span>RTT {wsMetrics.rttMs.toFixed(0)} ms</span>}
+              {wsStatus !== 'connected' && wsMetrics.retryInMs !== null && (
+                <span>retry in {(wsMetrics.retryInMs / 1000).toFixed(1)} s</span>
+              )}
+              {wsMetrics.queued > 0 && <span>{wsMetrics.queued} queued</span>}
+              {wsMetrics.dropped > 0 && <span className="text-red-400">{wsMetrics.dropped} dropped</span>}
+              {wsMetrics.reconnects > 0 && <span>{wsMetrics.reconnects} reconnects</span>}
+            </div>
           </div>
           
           <div className="flex items-center space-x-2">
@@ -399,78 +668,114 @@ const LiveRecognition = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 flex-1">
           {/* Video Feed */}
           <div className="lg:col-span-2 space-y-4">
-            <div className="relative bg-black rounded-lg overflow-hidden">
-              <video
-                ref={videoRef}
-                autoPlay
-                playsInline
-                muted
-                className="w-full h-auto max-h-96 object-cover"
-              />
-              <canvas
-                ref={canvasRef}
-                className="absolute inset-0 w-full h-full object-cover"
-              />
-              
-              {!isCameraActive && (
-                <div className="absolute inset-0 flex items-center justify-center bg-slate-800/80">
-                  <div className="text-center">
-                    <Camera className="w-16 h-16 mx-auto mb-4 text-slate-400" />
-                    <p className="text-slate-300">Camera not active</p>
-                  </div>
-                </div>
-              )}
+            <FaceEngineStatus />
+            <div className="flex rounded-lg bg-slate-700 p-1">
+              {([
+                { value: 'camera', label: 'Live Camera', icon: Camera },
+                { value: 'media', label: 'Recorded Media', icon: Film },
+              ] as const).map(({ value, label, icon: Icon }) => (
+                <button
+                  key={value}
+                  onClick={() => switchSourceMode(value)}
+                  className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                    sourceMode === value ? 'bg-purple-600 text-white' : 'text-slate-300 hover:text-white'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
             </div>
 
-            {/* Controls */}
-            <div className="flex items-center justify-center space-x-4">
-              <button
-                onClick={isCameraActive ? stopCamera : startCamera}
-                className={`px-6 py-3 rounded-lg font-medium transition-colors ${
-                  isCameraActive
-                    ? 'bg-red-600 hover:bg-red-700 text-white'
-                    : 'bg-blue-600 hover:bg-blue-700 text-white'
-                }`}
-              >
-                {isCameraActive ? (
-                  <>
-                    <CameraOff className="w-5 h-5 mr-2 inline" />
-                    Stop Camera
-                  </>
-                ) : (
-                  <>
-                    <Camera className="w-5 h-5 mr-2 inline" />
-                    Start Camera
-                  </>
-                )}
-              </button>
-
-              <button
-                onClick={toggleRecognition}
-                disabled={!isCameraActive || !isModelsLoaded}
-                className={`px-6 py-3 rounded-lg font-medium transition-colors ${
-                  isRecognitionActive
-                    ? 'bg-orange-600 hover:bg-orange-700 text-white'
-                    : 'bg-green-600 hover:bg-green-700 text-white disabled:bg-slate-600 disabled:text-slate-400'
-                }`}
-              >
-                {isRecognitionActive ? (
-                  <>
-                    <Pause className="w-5 h-5 mr-2 inline" />
-                    Stop Recognition
-                  </>
-                ) : (
-                  <>
-                    <Play className="w-5 h-5 mr-2 inline" />
-                    Start Recognition
-                  </>
-                )}
-              </button>
-            </div>
+            {sourceMode === 'media' ? (
+              <MediaRecognition matcher={faceMatcher} />
+            ) : (
+              <>
+                <div className="relative bg-black rounded-lg overflow-hidden">
+                  <video
+                    ref={videoRef}
+                    onLoadedMetadata={resizeCanvas}
+                    autoPlay
+                    playsInline
+                    muted
+                    className="w-full h-auto max-h-96 object-cover"
+                  />
+                  <canvas
+                    ref={canvasRef}
+                    className="absolute inset-0 w-full h-full object-cover"
+                  />
+                  
+                  {!isCameraActive && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-slate-800/80">
+                      <div className="text-center">
+                        <Camera className="w-16 h-16 mx-auto mb-4 text-slate-400" />
+                        <p className="text-slate-300">Camera not active</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <CameraPicker camera={camera} />
+
+                <div className="flex flex-wrap justify-center gap-4">
+                  <LivenessModeToggle mode={livenessMode} onChange={setLivenessMode} />
+                  <MatchingModeToggle mode={matchingMode} onChange={changeMatchingMode} isFallback={isMatchingFallback} />
+                </div>
+
+                {/* Controls */}
+                <div className="flex items-center justify-center space-x-4">
+                  <button
+                    onClick={isCameraActive ? stopCamera : startCamera}
+                    className={`px-6 py-3 rounded-lg font-medium transition-colors ${
+                      isCameraActive
+                        ? 'bg-red-600 hover:bg-red-700 text-white'
+                        : 'bg-blue-600 hover:bg-blue-700 text-white'
+                    }`}
+                  >
+                    {isCameraActive ? (
+                      <>
+                        <CameraOff className="w-5 h-5 mr-2 inline" />
+                        Stop Camera
+                      </>
+                    ) : (
+                      <>
+                        <Camera className="w-5 h-5 mr-2 inline" />
+                        Start Camera
+                      </>
+                    )}
+                  </button>
+
+                  <button
+                    onClick={toggleRecognition}
+                    disabled={!isCameraActive || !isEngineReady || (!canRecognize && !isRecognitionActive)}
+                    title={canRecognize ? undefined : 'Running recognition needs the Operator role'}
+                    className={`px-6 py-3 rounded-lg font-medium transition-colors ${
+                      isRecognitionActive
+                        ? 'bg-orange-600 hover:bg-orange-700 text-white'
+                        : 'bg-green-600 hover:bg-green-700 text-white disabled:bg-slate-600 disabled:text-slate-400'
+                    }`}
+                  >
+                    {isRecognitionActive ? (
+                      <>
+                        <Pause className="w-5 h-5 mr-2 inline" />
+                        Stop Recognition
+                      </>
+                    ) : (
+                      <>
+                        <Play className="w-5 h-5 mr-2 inline" />
+                        Start Recognition
+                      </>
+                    )}
+                  </button>
+                </div>
+              </>
+            )}
           </div>
 
           {/* Statistics & Results */}
           <div className="space-y-6">
+            <DetectorSettings />
+
             {/* Statistics */}
             <div className="bg-slate-700/50 rounded-lg p-4">
               <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
@@ -478,6 +783,14 @@ const LiveRecognition = () => {
                 Statistics
               </h3>
               <div className="space-y-3">
+                <div className="flex justify-between">
+                  <span className="text-slate-300">Detector:</span>
+                  <span className="text-white font-medium">{DETECTOR_LABELS[detectorConfig.kind]}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-300">Inference:</span>
+                  <span className="text-white font-medium">{statistics.inferenceMs.toFixed(0)} ms</span>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-slate-300">Detected Faces:</span>
                   <span className="text-white font-medium">{statistics.detectedFaces}</span>
@@ -491,12 +804,49 @@ const LiveRecognition = () => {
                   <span className="text-white font-medium">{statistics.frameRate.toFixed(1)} FPS</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-slate-300">Total Recognitions:</span>
-                  <span className="text-white font-medium">{statistics.totalRecognitions}</span>
+                  <span className="text-slate-300">Unique People:</span>
+                  <span className="text-white font-medium">{statistics.uniquePeople}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-300">Visits:</span>
+                  <span className="text-white font-medium">{statistics.visits}</span>
                 </div>
               </div>
             </div>
 
+            {/* Attendance */}
+            <div className="bg-slate-700/50 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-white flex items-center">
+                  <CalendarCheck className="w-5 h-5 mr-2 text-teal-400" />
+                  Attendance
+                </h3>
+                <Switch checked={isAttendanceMode} onCheckedChange={setIsAttendanceMode} disabled={!canRecognize} />
+              </div>
+              <div className="flex items-center justify-between text-sm text-slate-300 mb-3">
+                <span>Cooldown: {attendanceCooldown} min</span>
+                <Link to="/settings" className="text-xs text-teal-400 hover:underline">Change</Link>
+              </div>
+              <div className="space-y-1 max-h-32 overflow-y-auto">
+                {attendanceFeed.map(entry => (
+                  <div key={entry.id} className="text-xs text-slate-300 flex justify-between">
+                    <span>
+                      <span className={entry.kind === 'check_in' ? 'text-green-400' : 'text-orange-400'}>
+                        {entry.kind === 'check_in' ? 'In' : 'Last seen'}
+                      </span>{' '}
+                      {entry.name}
+                    </span>
+                    <span>{entry.timestamp.toLocaleTimeString()}</span>
+                  </div>
+                ))}
+                {attendanceFeed.length === 0 && (
+                  <p className="text-slate-400 text-sm">
+                    {isAttendanceMode ? 'Waiting for verified recognitions' : 'Attendance mode is off'}
+                  </p>
+                )}
+              </div>
+            </div>
+
             {/* Current Results */}
             <div className="bg-slate-700/50 rounded-lg p-4">
               <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
@@ -511,15 +861,17 @@ const LiveRecognition = () => {
                     <div
                       key={result.id}
                       className={`p-2 rounded text-sm ${
-                        result.name === 'Unknown Person'
-                          ? 'bg-red-500/20 text-red-300'
-                          : 'bg-green-500/20 text-green-300'
+                        result.recognized
+                          ? 'bg-green-500/20 text-green-300'
+                          : result.name !== UNKNOWN_LABEL && result.liveness === 'pending'
+                            ? 'bg-yellow-500/20 text-yellow-300'
+                            : 'bg-red-500/20 text-red-300'
                       }`}
                     >
                       <div className="font-medium">{result.name}</div>
                       {result.confidence > 0 && (
                         <div className="text-xs opacity-75">
-                          {result.confidence.toFixed(1)}% confidence
+                          {result.confidence.toFixed(1)}% confidence · liveness {result.liveness}
                         </div>
                       )}
                     </div>
@@ -528,6 +880,24 @@ const LiveRecognition = () => {
               </div>
             </div>
 
+            {/* Presence */}
+            <div className="bg-slate-700/50 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-white mb-4">Presence</h3>
+              <div className="space-y-1 max-h-32 overflow-y-auto">
+                {presenceEvents.map(event => (
+                  <div key={`${event.trackId}-${event.type}`} className="text-xs flex justify-between">
+                    <span className={event.type === 'enter' ? 'text-green-300' : 'text-slate-400'}>
+                      {event.identity.label} {event.type === 'enter' ? 'entered' : 'left'}
+                    </span>
+                    <span className="text-slate-300">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                  </div>
+                ))}
+                {presenceEvents.length === 0 && (
+                  <p className="text-slate-400 text-sm">No one has entered yet</p>
+                )}
+              </div>
+            </div>
+
             {/* Recognition History */}
             <div className="bg-slate-700/50 rounded-lg p-4">
               <h3 className="text-lg font-semibold text-white mb-4">Recent History</h3>
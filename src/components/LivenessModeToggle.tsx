@@ -0,0 +1,40 @@
+
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { LivenessMode } from '@/lib/liveness';
+
+interface LivenessModeToggleProps {
+  mode: LivenessMode;
+  onChange: (mode: LivenessMode) => void;
+  disabled?: boolean;
+}
+
+const MODES: { value: LivenessMode; label: string }[] = [
+  { value: 'passive', label: 'Passive' },
+  { value: 'active', label: 'Challenge' },
+];
+
+const LivenessModeToggle = ({ mode, onChange, disabled }: LivenessModeToggleProps) => {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <ShieldCheck className="w-4 h-4 text-slate-400" />
+      <span className="text-slate-400">Liveness:</span>
+      <div className="flex rounded-lg bg-slate-700 p-0.5">
+        {MODES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange(value)}
+            disabled={disabled}
+            className={`px-3 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50 ${
+              mode === value ? 'bg-purple-600 text-white' : 'text-slate-300 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LivenessModeToggle;
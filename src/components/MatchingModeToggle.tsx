@@ -0,0 +1,46 @@
+import React from 'react';
+import { Server } from 'lucide-react';
+import { MatchingMode } from '@/lib/server-matcher';
+
+interface MatchingModeToggleProps {
+  mode: MatchingMode;
+  onChange: (mode: MatchingMode) => void;
+  // Server mode is selected but frames are matched in the browser
+  isFallback: boolean;
+  disabled?: boolean;
+}
+
+const MODES: { value: MatchingMode; label: string }[] = [
+  { value: 'local', label: 'Browser' },
+  { value: 'server', label: 'Server' },
+];
+
+const MatchingModeToggle = ({ mode, onChange, isFallback, disabled }: MatchingModeToggleProps) => {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <Server className="w-4 h-4 text-slate-400" />
+      <span className="text-slate-400">Matching:</span>
+      <div className="flex rounded-lg bg-slate-700 p-0.5">
+        {MODES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange(value)}
+            disabled={disabled}
+            className={`px-3 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50 ${
+              mode === value ? 'bg-purple-600 text-white' : 'text-slate-300 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {isFallback && (
+        <span className="text-xs text-yellow-400" title="The recognition server cannot match right now">
+          using browser fallback
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default MatchingModeToggle;
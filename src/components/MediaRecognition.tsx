@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileVideo, FolderOpen, Loader2, Square, Download, Film } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { useFaceEngine } from '@/hooks/use-face-engine';
+import { recordAuditEvent } from '@/lib/audit';
+import { FaceMatcher } from '@/lib/face-matcher';
+import {
+  DEFAULT_IMAGE_STEP,
+  DEFAULT_VIDEO_SAMPLING_FPS,
+  MediaKind,
+  MediaTimeline,
+  recognizeImages,
+  recognizeVideo,
+  timelineToCsv,
+  timelineToJson,
+  TimelineEntry,
+} from '@/lib/media-recognition';
+
+interface MediaRecognitionProps {
+  matcher: FaceMatcher;
+}
+
+const download = (content: string, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Runs recorded footage through the live matcher and lists who appears when.
+// Liveness is not checked: recorded media cannot prove a live person anyway.
+const MediaRecognition = ({ matcher }: MediaRecognitionProps) => {
+  const [kind, setKind] = useState<MediaKind>('video');
+  const [samplingFps, setSamplingFps] = useState(DEFAULT_VIDEO_SAMPLING_FPS);
+  const [imageStep, setImageStep] = useState(DEFAULT_IMAGE_STEP);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState({ processed: 0, total: 0 });
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [timeline, setTimeline] = useState<MediaTimeline | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const { engine, isReady: isEngineReady } = useFaceEngine();
+  const { toast } = useToast();
+
+  // Not part of React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const options = {
+      detect: engine.detectFaceSamples,
+      matcher,
+      signal: controller.signal,
+      onProgress: (processed: number, total: number, current: TimelineEntry[]) => {
+        setProgress({ processed, total });
+        setEntries(current);
+      },
+    };
+
+    try {
+      setIsProcessing(true);
+      setTimeline(null);
+      setEntries([]);
+      setProgress({ processed: 0, total: 0 });
+
+      const result = kind === 'video'
+        ? await recognizeVideo(fileList[0], samplingFps, options)
+        : await recognizeImages(Array.from(fileList), imageStep, options);
+
+      if (result.framesProcessed === 0 && !result.cancelled) {
+        toast({
+          title: "No Images Found",
+          description: "The selected folder did not contain any images.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setTimeline(result);
+      setEntries(result.entries);
+      toast({
+        title: result.cancelled ? "Processing Stopped" : "Processing Complete",
+        description: `${result.entries.length} appearances found in ${result.framesProcessed} frames.`,
+      });
+    } catch (error) {
+      console.error('Media recognition error:', error);
+      toast({
+        title: "Processing Failed",
+        description: error instanceof Error ? error.message : "The selected media could not be processed.",
+        variant: "destructive",
+      });
+    } finally {
+      abortRef.current = null;
+      setIsProcessing(false);
+    }
+  };
+
+  const exportTimeline = (format: 'json' | 'csv') => {
+    if (!timeline) return;
+
+    const baseName = `timeline-${timeline.source.replace(/\.[^.]+$/, '')}`;
+    const file = `${baseName}.${format}`;
+    if (format === 'json') download(timelineToJson(timeline), 'application/json', file);
+    else download(timelineToCsv(timeline), 'text/csv', file);
+    recordAuditEvent('media.exported', { format, source: timeline.source, entries: timeline.entries.length, file });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex rounded-lg bg-slate-700 p-1">
+        {([
+          { value: 'video', label: 'Video File', icon: FileVideo },
+          { value: 'images', label: 'Image Folder', icon: FolderOpen },
+        ] as const).map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => setKind(value)}
+            disabled={isProcessing}
+            className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+              kind === value ? 'bg-purple-600 text-white' : 'text-slate-300 hover:text-white'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        {kind === 'video' ? (
+          <label className="text-sm text-slate-300 space-y-1">
+            <span className="block">Frames per second</span>
+            <Input
+              type="number"
+              min={0.1}
+              max={30}
+              step={0.5}
+              value={samplingFps}
+              onChange={(e) => setSamplingFps(Math.min(30, Math.max(0.1, e.target.valueAsNumber || DEFAULT_VIDEO_SAMPLING_FPS)))}
+              disabled={isProcessing}
+              className="w-32 bg-slate-700 border-slate-600 text-white"
+            />
+          </label>
+        ) : (
+          <label className="text-sm text-slate-300 space-y-1">
+            <span className="block">Use every n-th image</span>
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              value={imageStep}
+              onChange={(e) => setImageStep(Math.max(1, Math.round(e.target.valueAsNumber) || DEFAULT_IMAGE_STEP))}
+              disabled={isProcessing}
+              className="w-32 bg-slate-700 border-slate-600 text-white"
+            />
+          </label>
+        )}
+
+        <input
+          ref={videoInputRef}
+          type="file"
+          accept="video/*"
+          className="hidden"
+          onChange={(e) => {
+            run(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            run(e.target.files);
+            e.target.value = '';
+          }}
+        />
+
+        {isProcessing ? (
+          <Button
+            onClick={() => abortRef.current?.abort()}
+            variant="outline"
+            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <Square className="w-4 h-4 mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <Button
+            onClick={() => (kind === 'video' ? videoInputRef : folderInputRef).current?.click()}
+            disabled={!isEngineReady}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+          >
+            <Film className="w-4 h-4 mr-2" />
+            {kind === 'video' ? 'Choose Video' : 'Choose Folder'}
+          </Button>
+        )}
+      </div>
+
+      {isProcessing && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm text-slate-300">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Frame {progress.processed} of {progress.total || '…'}
+          </div>
+          <Progress value={progress.total > 0 ? (progress.processed / progress.total) * 100 : 0} />
+        </div>
+      )}
+
+      <div className="bg-slate-700/50 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-white">Timeline</h3>
+          <div className="flex gap-2">
+            {(['json', 'csv'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => exportTimeline(format)}
+                disabled={!timeline || isProcessing}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs text-white transition-colors disabled:opacity-50"
+              >
+                <Download className="w-3 h-3" />
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {entries.map(entry => (
+            <div key={entry.trackId} className="flex items-center justify-between p-2 bg-slate-600/50 rounded text-sm">
+              <div>
+                <p className={`font-medium ${entry.isKnown ? 'text-white' : 'text-red-400'}`}>{entry.name}</p>
+                <p className="text-xs text-slate-400">
+                  {entry.start.label === entry.end.label ? entry.start.label : `${entry.start.label} – ${entry.end.label}`}
+                </p>
+              </div>
+              <div className="text-right text-xs text-slate-300">
+                {entry.isKnown && <p>{entry.confidence.toFixed(1)}%</p>}
+                <p>{entry.frames} frames</p>
+              </div>
+            </div>
+          ))}
+          {entries.length === 0 && (
+            <p className="text-slate-400 text-center py-4">
+              {isProcessing ? 'No faces found yet' : 'Choose a video or an image folder to build a timeline'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MediaRecognition;
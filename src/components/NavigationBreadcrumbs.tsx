@@ -15,6 +15,8 @@ const NavigationBreadcrumbs = ({ currentTab }: NavigationBreadcrumbsProps) => {
         return 'Live Recognition';
       case 'chat':
         return 'AI Assistant';
+      case 'attendance':
+        return 'Attendance';
       default:
         return tab;
     }
@@ -0,0 +1,92 @@
+
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { PersonDetailsDraft } from '@/lib/people';
+
+interface PersonDetailsFieldsProps {
+  value: PersonDetailsDraft;
+  onChange: (value: PersonDetailsDraft) => void;
+  // Keeps label/input ids unique when the fields render more than once
+  idPrefix: string;
+  hideName?: boolean;
+  labelClassName?: string;
+  inputClassName?: string;
+}
+
+const FIELDS: { key: keyof PersonDetailsDraft; label: string; placeholder: string; type?: string }[] = [
+  { key: 'external_id', label: 'Employee ID', placeholder: 'e.g. E-1042' },
+  { key: 'department', label: 'Department', placeholder: 'e.g. Engineering' },
+  { key: 'title', label: 'Title', placeholder: 'e.g. Site Manager' },
+  { key: 'email', label: 'Email', placeholder: 'name@example.com', type: 'email' },
+];
+
+const PersonDetailsFields = ({
+  value,
+  onChange,
+  idPrefix,
+  hideName,
+  labelClassName,
+  inputClassName,
+}: PersonDetailsFieldsProps) => {
+  const update = (key: keyof PersonDetailsDraft) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange({ ...value, [key]: e.target.value });
+
+  return (
+    <div className="space-y-3">
+      {!hideName && (
+        <div>
+          <Label htmlFor={`${idPrefix}-name`} className={labelClassName}>Person's Name</Label>
+          <Input
+            id={`${idPrefix}-name`}
+            value={value.name}
+            onChange={update('name')}
+            placeholder="Enter person's name"
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {FIELDS.map(({ key, label, placeholder, type }) => (
+          <div key={key}>
+            <Label htmlFor={`${idPrefix}-${key}`} className={labelClassName}>{label}</Label>
+            <Input
+              id={`${idPrefix}-${key}`}
+              type={type}
+              value={value[key]}
+              onChange={update(key)}
+              placeholder={placeholder}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-tags`} className={labelClassName}>Tags</Label>
+        <Input
+          id={`${idPrefix}-tags`}
+          value={value.tags}
+          onChange={update('tags')}
+          placeholder="Comma-separated, e.g. contractor, night shift"
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-notes`} className={labelClassName}>Notes</Label>
+        <Textarea
+          id={`${idPrefix}-notes`}
+          value={value.notes}
+          onChange={update('notes')}
+          rows={2}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PersonDetailsFields;
@@ -0,0 +1,241 @@
+
+import React, { useRef, useState } from 'react';
+import * as faceapi from 'face-api.js';
+import { Upload, Loader2, ImagePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import { useFaceEngine } from '@/hooks/use-face-engine';
+import { cropFace, createThumbnail, detectAllFaceSamples, extractFaceSample, FaceSample } from '@/lib/face-descriptors';
+import { assessFaceQuality, QualityReport } from '@/lib/face-quality';
+import QualityIndicator from '@/components/QualityIndicator';
+
+const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export interface UploadedSample {
+  descriptor: Float32Array;
+  photo: string;
+  thumbnail: string;
+}
+
+interface PhotoEnrollmentProps {
+  onSample: (sample: UploadedSample) => void;
+  disabled?: boolean;
+}
+
+interface LoadedPhoto {
+  url: string;
+  image: HTMLImageElement;
+  faces: FaceSample[];
+}
+
+const PhotoEnrollment = ({ onSample, disabled }: PhotoEnrollmentProps) => {
+  const [photo, setPhoto] = useState<LoadedPhoto | null>(null);
+  const [selectedFace, setSelectedFace] = useState<number | null>(null);
+  const [quality, setQuality] = useState<QualityReport | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const { engine } = useFaceEngine();
+
+  const clearPhoto = () => {
+    if (photo) URL.revokeObjectURL(photo.url);
+    setPhoto(null);
+    setSelectedFace(null);
+    setQuality(null);
+  };
+
+  const loadFile = async (file: File) => {
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      toast({
+        title: "Unsupported File",
+        description: "Please upload a JPEG, PNG or WebP image.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      clearPhoto();
+
+      await engine.loadPhotoModels();
+      const url = URL.createObjectURL(file);
+      const image = await faceapi.fetchImage(url);
+      const faces = await detectAllFaceSamples(image, settings.detector);
+
+      if (faces.length === 0) {
+        URL.revokeObjectURL(url);
+        toast({
+          title: "No Face Found",
+          description: `No face could be detected in ${file.name}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setPhoto({ url, image, faces });
+      setSelectedFace(faces.length === 1 ? 0 : null);
+    } catch (error) {
+      console.error('Error loading photo:', error);
+      toast({
+        title: "Photo Error",
+        description: "Failed to read the image. Please try another file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // The chosen face is cropped out and run through the same single-face
+  // descriptor and quality pipeline as a live capture.
+  const enrollSelectedFace = async () => {
+    if (!photo || selectedFace === null) return;
+
+    try {
+      setIsProcessing(true);
+      const { image, faces } = photo;
+      const crop = cropFace(image, faces[selectedFace].box, image.naturalWidth, image.naturalHeight);
+      const sample = await extractFaceSample(crop, settings.detector);
+
+      if (!sample) {
+        toast({
+          title: "No Face Found",
+          description: "The selected face could not be processed. Try a larger or clearer photo.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const report = assessFaceQuality(crop, crop.width, crop.height, sample, settings.quality);
+      setQuality(report);
+      if (!report.passed) {
+        toast({
+          title: "Low Quality Photo",
+          description: "The selected face did not pass the quality checks.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      onSample({
+        descriptor: sample.descriptor,
+        photo: crop.toDataURL('image/jpeg', settings.images.photoQuality),
+        thumbnail: createThumbnail(crop, sample.box, crop.width, crop.height, settings.images.thumbnailQuality),
+      });
+      clearPhoto();
+    } catch (error) {
+      console.error('Error processing photo:', error);
+      toast({
+        title: "Processing Failed",
+        description: "Failed to compute the face descriptor. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      {!photo ? (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => !disabled && inputRef.current?.click()}
+          className={`flex flex-col items-center justify-center h-64 rounded-lg border-2 border-dashed cursor-pointer transition-colors ${
+            isDragging ? 'border-blue-400 bg-blue-500/10' : 'border-slate-600 bg-slate-900/50 hover:border-slate-500'
+          }`}
+        >
+          {isProcessing ? (
+            <Loader2 className="w-10 h-10 text-slate-400 animate-spin" />
+          ) : (
+            <>
+              <Upload className="w-10 h-10 text-slate-400 mb-3" />
+              <p className="text-slate-300">Drop a photo here or click to browse</p>
+              <p className="text-sm text-slate-500">JPEG, PNG or WebP</p>
+            </>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPTED_IMAGE_TYPES.join(',')}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="relative bg-black rounded-lg overflow-hidden">
+            <img src={photo.url} alt="Uploaded" className="w-full h-auto" />
+            {photo.faces.map((face, index) => (
+              <button
+                key={index}
+                onClick={() => setSelectedFace(index)}
+                className={`absolute border-2 rounded transition-colors ${
+                  selectedFace === index ? 'border-green-400 bg-green-400/10' : 'border-yellow-400 hover:bg-yellow-400/10'
+                }`}
+                style={{
+                  left: `${(face.box.x / photo.image.naturalWidth) * 100}%`,
+                  top: `${(face.box.y / photo.image.naturalHeight) * 100}%`,
+                  width: `${(face.box.width / photo.image.naturalWidth) * 100}%`,
+                  height: `${(face.box.height / photo.image.naturalHeight) * 100}%`,
+                }}
+              />
+            ))}
+          </div>
+
+          {photo.faces.length > 1 && (
+            <p className="text-sm text-yellow-400">
+              {photo.faces.length} faces found. Click the face that belongs to this person.
+            </p>
+          )}
+
+          {quality && <QualityIndicator report={quality} />}
+
+          <div className="flex gap-3">
+            <Button
+              onClick={enrollSelectedFace}
+              disabled={selectedFace === null || isProcessing || disabled}
+              className="flex-1 bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700 disabled:opacity-50"
+            >
+              {isProcessing ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <ImagePlus className="w-4 h-4 mr-2" />
+              )}
+              Use Selected Face
+            </Button>
+            <Button
+              onClick={clearPhoto}
+              variant="outline"
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Choose Another
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoEnrollment;
@@ -0,0 +1,47 @@
+import React, { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2, ShieldOff } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { AppRole, ROLE_LABELS } from '@/lib/auth';
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+  requiredRole?: AppRole;
+}
+
+// Signed-out visitors are sent to the login page and brought back afterwards.
+// The database enforces the same roles; this only keeps the UI honest.
+const ProtectedRoute = ({ children, requiredRole = 'viewer' }: ProtectedRouteProps) => {
+  const { session, isLoading, can } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+        <Loader2 className="w-8 h-8 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
+  }
+
+  if (!can(requiredRole)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+        <div className="text-center text-slate-300">
+          <ShieldOff className="w-12 h-12 mx-auto mb-4 text-slate-400" />
+          <p className="text-xl font-semibold text-white mb-2">No access</p>
+          <p>
+            {session.user.email} needs the {ROLE_LABELS[requiredRole]} role for this page. Ask an admin to grant it.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
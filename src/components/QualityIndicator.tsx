@@ -0,0 +1,55 @@
+
+import React from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { QUALITY_CRITERIA_LABELS, QualityCriterion, QualityReport } from '@/lib/face-quality';
+
+interface QualityIndicatorProps {
+  report: QualityReport | null;
+}
+
+const formatValue = (criterion: QualityCriterion, value: number) => {
+  switch (criterion) {
+    case 'faceSize':
+    case 'detectionScore':
+      return `${(value * 100).toFixed(0)}%`;
+    case 'eyesOpen':
+      return value.toFixed(2);
+    default:
+      return value.toFixed(0);
+  }
+};
+
+const QualityIndicator = ({ report }: QualityIndicatorProps) => {
+  const criteria = Object.keys(QUALITY_CRITERIA_LABELS) as QualityCriterion[];
+
+  return (
+    <div className="bg-slate-900 rounded-lg p-4">
+      <h3 className="text-lg font-semibold text-white mb-3">Capture Quality</h3>
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        {criteria.map((criterion) => {
+          const result = report?.criteria[criterion];
+          const passed = result?.passed ?? false;
+
+          return (
+            <div
+              key={criterion}
+              className={`rounded-md px-2 py-1 text-xs flex items-center gap-1 ${
+                !result
+                  ? 'bg-slate-800 text-slate-500'
+                  : passed
+                    ? 'bg-green-500/20 text-green-300'
+                    : 'bg-red-500/20 text-red-300'
+              }`}
+            >
+              {passed ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+              <span className="flex-1">{QUALITY_CRITERIA_LABELS[criterion]}</span>
+              {result && <span className="opacity-75">{formatValue(criterion, result.value)}</span>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QualityIndicator;
@@ -0,0 +1,165 @@
+
+import React, { useState } from 'react';
+import { MoreVertical, Pencil, ImagePlus, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import PersonDetailsFields from '@/components/PersonDetailsFields';
+import { detailsFromDraft, draftFromDetails, PersonDetails, validateDetails } from '@/lib/people';
+
+export type ReenrollMode = 'add' | 'replace';
+
+interface RegistrationActionsProps {
+  details: PersonDetails;
+  disabled?: boolean;
+  // Deleting the person, and replacing their samples, which deletes the old ones
+  canDelete?: boolean;
+  onUpdate: (details: PersonDetails) => Promise<void>;
+  onReenroll: (mode: ReenrollMode) => void;
+  onDelete: () => Promise<void>;
+}
+
+const RegistrationActions = ({ details, disabled, canDelete = true, onUpdate, onReenroll, onDelete }: RegistrationActionsProps) => {
+  const { name } = details;
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [draft, setDraft] = useState(() => draftFromDetails(details));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const edited = detailsFromDraft(draft);
+  const validationError = validateDetails(edited);
+
+  const openEdit = () => {
+    setDraft(draftFromDetails(details));
+    setIsEditOpen(true);
+  };
+
+  const submitEdit = async () => {
+    if (validationError) return;
+    try {
+      setIsSaving(true);
+      await onUpdate(edited);
+      setIsEditOpen(false);
+    } catch {
+      // Already reported by the caller; keep the dialog open to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    try {
+      setIsSaving(true);
+      await onDelete();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            className="text-slate-400 hover:text-white hover:bg-slate-700/50"
+          >
+            <MoreVertical className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={openEdit}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit details
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onReenroll('add')}>
+            <ImagePlus className="w-4 h-4 mr-2" />
+            Add samples
+          </DropdownMenuItem>
+          {canDelete && (
+            <DropdownMenuItem onSelect={() => onReenroll('replace')}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Replace samples
+            </DropdownMenuItem>
+          )}
+          {canDelete && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setIsDeleteOpen(true)} className="text-red-500 focus:text-red-500">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit {name}</DialogTitle>
+            <DialogDescription>A new name is used everywhere this person is recognized.</DialogDescription>
+          </DialogHeader>
+          <PersonDetailsFields value={draft} onChange={setDraft} idPrefix="edit" />
+          {validationError && draft.name.trim() && (
+            <p className="text-sm text-red-500">{validationError}</p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditOpen(false)}>Cancel</Button>
+            <Button onClick={submitEdit} disabled={!!validationError || isSaving}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes {name} and all of their face samples. They will no longer be recognized.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              disabled={isSaving}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default RegistrationActions;
@@ -0,0 +1,45 @@
+import React, { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { SettingsContext } from '@/hooks/use-settings';
+import { useAuth } from '@/hooks/use-auth';
+import { useTableChanges } from '@/hooks/use-table-changes';
+import { AppSettings, DEFAULT_SETTINGS, loadSettings, readLocalSettings, saveSettings, SettingsSource } from '@/lib/settings';
+
+interface SettingsProviderProps {
+  children: ReactNode;
+}
+
+const SettingsProvider = ({ children }: SettingsProviderProps) => {
+  // Starts from the local copy so a reload does not flash the defaults
+  const [settings, setSettings] = useState<AppSettings>(() => readLocalSettings() ?? DEFAULT_SETTINGS);
+  const [source, setSource] = useState<SettingsSource>('local');
+  const [isLoaded, setIsLoaded] = useState(false);
+  const { session } = useAuth();
+  const userId = session?.user.id ?? null;
+
+  const reload = useCallback(async () => {
+    const loaded = await loadSettings();
+    setSettings(loaded.settings);
+    setSource(loaded.source);
+    setIsLoaded(true);
+  }, []);
+
+  // The deployment's row is only readable once signed in
+  useEffect(() => {
+    reload();
+  }, [reload, userId]);
+
+  useTableChanges('settings', reload);
+
+  const save = useCallback(async (next: AppSettings) => {
+    const savedTo = await saveSettings(next);
+    setSettings(next);
+    setSource(savedTo);
+    return savedTo;
+  }, []);
+
+  const value = useMemo(() => ({ settings, source, isLoaded, save }), [settings, source, isLoaded, save]);
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+};
+
+export default SettingsProvider;
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { AppRole } from '@/lib/auth';
+
+export interface AuthContextValue {
+  session: Session | null;
+  role: AppRole | null;
+  // True until the stored session, and its role, have been read
+  isLoading: boolean;
+  can: (required: AppRole) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth must be used within an AuthProvider');
+  return context;
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { createCameraManager, Resolution } from '@/lib/camera-manager';
+
+// A camera manager owned by the calling component. The camera is released on
+// unmount, and a running stream follows changes to the requested resolution.
+export function useCameraManager(resolution: Resolution, onError: (error: unknown) => void) {
+  const onErrorRef = useRef(onError);
+  const [camera] = useState(() => createCameraManager({
+    resolution,
+    onError: error => onErrorRef.current(error),
+  }));
+  const state = useSyncExternalStore(camera.subscribe, camera.getState);
+
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+
+  useEffect(() => {
+    camera.setResolution({ width: resolution.width, height: resolution.height });
+  }, [camera, resolution.width, resolution.height]);
+
+  useEffect(() => () => camera.stop(), [camera]);
+
+  return { camera, ...state, isActive: state.status === 'active' };
+}
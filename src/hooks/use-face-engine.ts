@@ -0,0 +1,20 @@
+import { createContext, useCallback, useContext, useSyncExternalStore } from 'react';
+import { FaceEngine } from '@/lib/face-engine';
+
+export const FaceEngineContext = createContext<FaceEngine | null>(null);
+
+// The app-wide face engine plus its load state. Components re-render as the
+// engine moves through loading, ready and error.
+export function useFaceEngine() {
+  const engine = useContext(FaceEngineContext);
+  if (!engine) throw new Error('useFaceEngine must be used within a FaceEngineProvider');
+
+  const state = useSyncExternalStore(engine.subscribe, engine.getState);
+
+  // Failures are already reflected in the engine state
+  const retry = useCallback(() => {
+    engine.load().catch(error => console.error('Error loading face models:', error));
+  }, [engine]);
+
+  return { engine, ...state, isReady: state.status === 'ready', retry };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { createRecognitionClient, RecognitionClientOptions } from '@/lib/recognition-client';
+import { ServerMessage } from '@/lib/recognition-protocol';
+
+// A recognition server connection owned by the calling component: connected
+// on mount and closed, with any pending reconnect cancelled, on unmount
+export function useRecognitionClient(
+  options: Omit<RecognitionClientOptions, 'onMessage'>,
+  onMessage: (message: ServerMessage) => void
+) {
+  const onMessageRef = useRef(onMessage);
+  const [client] = useState(() => createRecognitionClient({
+    ...options,
+    onMessage: message => onMessageRef.current(message),
+  }));
+  const state = useSyncExternalStore(client.subscribe, client.getState);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    client.connect();
+    return () => client.disconnect();
+  }, [client]);
+
+  return { client, ...state };
+}
@@ -0,0 +1,7 @@
+import { useTableChanges } from '@/hooks/use-table-changes';
+
+// Keeps every view of the gallery current: renames, re-enrollments and
+// deletions from any client trigger onChange without a reload.
+export function useRegistrationChanges(onChange: () => void) {
+  useTableChanges('people', onChange);
+}
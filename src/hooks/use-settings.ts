@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { AppSettings, SettingsSource } from '@/lib/settings';
+
+export interface SettingsContextValue {
+  settings: AppSettings;
+  source: SettingsSource;
+  // False until the deployment's stored settings have been fetched
+  isLoaded: boolean;
+  save: (settings: AppSettings) => Promise<SettingsSource>;
+}
+
+export const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (!context) throw new Error('useSettings must be used within a SettingsProvider');
+  return context;
+}
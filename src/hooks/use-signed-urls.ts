@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createSignedUrls, SIGNED_URL_TTL_SECONDS } from '@/lib/face-storage';
+
+// Refresh a little before the URLs actually expire
+const REFRESH_INTERVAL_MS = SIGNED_URL_TTL_SECONDS * 1000 * 0.8;
+
+// Resolves storage paths to short-lived signed URLs, keyed by path, and keeps
+// them fresh for as long as the component is mounted.
+export function useSignedUrls(paths: (string | null | undefined)[]) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  const key = useMemo(
+    () => Array.from(new Set(paths.filter((path): path is string => !!path))).sort().join('|'),
+    [paths]
+  );
+
+  useEffect(() => {
+    const uniquePaths = key ? key.split('|') : [];
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const signed = await createSignedUrls(uniquePaths);
+        if (!cancelled) setUrls(signed);
+      } catch (error) {
+        console.error('Error creating signed URLs:', error);
+      }
+    };
+
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [key]);
+
+  return urls;
+}
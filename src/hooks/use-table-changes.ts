@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Calls onChange whenever a row in the given public table is inserted,
+// updated or deleted, from this tab or any other client. The table has to be
+// in the supabase_realtime publication.
+export function useTableChanges(table: string, onChange: () => void) {
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`${table}_changes_${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table },
+        () => {
+          onChangeRef.current();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table]);
+}
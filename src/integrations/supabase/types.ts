@@ -9,24 +9,252 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      face_registrations: {
+      attendance_records: {
         Row: {
+          attendance_date: string
           created_at: string
-          face_encoding: string
           id: string
+          kind: string
+          occurred_at: string
+          person_id: string | null
+          person_name: string
+          source_id: string
+        }
+        Insert: {
+          attendance_date: string
+          created_at?: string
+          id?: string
+          kind: string
+          occurred_at: string
+          person_id?: string | null
+          person_name: string
+          source_id: string
+        }
+        Update: {
+          attendance_date?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          occurred_at?: string
+          person_id?: string | null
+          person_name?: string
+          source_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_records_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          details: Json
+          entity_id: string | null
+          id: string
+          occurred_at: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          details?: Json
+          entity_id?: string | null
+          id?: string
+          occurred_at?: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          details?: Json
+          entity_id?: string | null
+          id?: string
+          occurred_at?: string
+        }
+        Relationships: []
+      }
+      face_samples: {
+        Row: {
+          created_at: string
+          descriptor: number[]
+          id: string
+          person_id: string
+          pose: string | null
+          source: string
+        }
+        Insert: {
+          created_at?: string
+          descriptor: number[]
+          id?: string
+          person_id: string
+          pose?: string | null
+          source?: string
+        }
+        Update: {
+          created_at?: string
+          descriptor?: number[]
+          id?: string
+          person_id?: string
+          pose?: string | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "face_samples_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      people: {
+        Row: {
+          created_at: string
+          department: string | null
+          duplicate_override: Json | null
+          email: string | null
+          external_id: string | null
+          face_descriptor: number[] | null
+          id: string
+          image_path: string | null
+          metadata: Json
           name: string
+          notes: string | null
+          tags: string[]
+          thumbnail: string | null
+          thumbnail_path: string | null
+          title: string | null
         }
         Insert: {
           created_at?: string
-          face_encoding: string
+          department?: string | null
+          duplicate_override?: Json | null
+          email?: string | null
+          external_id?: string | null
+          face_descriptor?: number[] | null
           id?: string
+          image_path?: string | null
+          metadata?: Json
           name: string
+          notes?: string | null
+          tags?: string[]
+          thumbnail?: string | null
+          thumbnail_path?: string | null
+          title?: string | null
         }
         Update: {
           created_at?: string
-          face_encoding?: string
+          department?: string | null
+          duplicate_override?: Json | null
+          email?: string | null
+          external_id?: string | null
+          face_descriptor?: number[] | null
           id?: string
+          image_path?: string | null
+          metadata?: Json
           name?: string
+          notes?: string | null
+          tags?: string[]
+          thumbnail?: string | null
+          thumbnail_path?: string | null
+          title?: string | null
+        }
+        Relationships: []
+      }
+      recognition_events: {
+        Row: {
+          box: Json
+          confidence: number
+          created_at: string
+          distance: number | null
+          id: string
+          liveness: string
+          occurred_at: string
+          person_id: string | null
+          person_name: string
+          recognized: boolean
+          snapshot_path: string | null
+          source_id: string
+        }
+        Insert: {
+          box: Json
+          confidence: number
+          created_at?: string
+          distance?: number | null
+          id?: string
+          liveness: string
+          occurred_at: string
+          person_id?: string | null
+          person_name: string
+          recognized: boolean
+          snapshot_path?: string | null
+          source_id: string
+        }
+        Update: {
+          box?: Json
+          confidence?: number
+          created_at?: string
+          distance?: number | null
+          id?: string
+          liveness?: string
+          occurred_at?: string
+          person_id?: string | null
+          person_name?: string
+          recognized?: boolean
+          snapshot_path?: string | null
+          source_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recognition_events_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      settings: {
+        Row: {
+          data: Json
+          deployment_id: string
+          updated_at: string
+        }
+        Insert: {
+          data?: Json
+          deployment_id: string
+          updated_at?: string
+        }
+        Update: {
+          data?: Json
+          deployment_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
         }
         Relationships: []
       }
@@ -35,10 +263,38 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_face_samples: {
+        Args: { target_person_id: string; new_samples: Json }
+        Returns: undefined
+      }
+      enroll_people: {
+        Args: { new_people: Json; new_samples: Json }
+        Returns: undefined
+      }
+      has_role: {
+        Args: { required: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      mean_face_descriptor: {
+        Args: { target_person_id: string }
+        Returns: number[]
+      }
+      merge_people: {
+        Args: {
+          target_person_id: string
+          other_person_ids: string[]
+          details: Json
+          new_samples: Json
+        }
+        Returns: undefined
+      }
+      replace_face_samples: {
+        Args: { target_person_id: string; new_samples: Json }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "viewer" | "operator" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -153,6 +409,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["viewer", "operator", "admin"],
+    },
   },
 } as const
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AttendancePerson,
+  AttendanceRecord,
+  attendanceToCsv,
+  createAttendanceTracker,
+  dateRange,
+  localDateKey,
+  summarizeDay,
+} from '@/lib/attendance';
+
+const { stored, upsert } = vi.hoisted(() => ({
+  stored: { records: [] as unknown[] },
+  upsert: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => {
+  const query = {
+    gte: () => query,
+    lte: () => query,
+    order: () => Promise.resolve({ data: stored.records, error: null }),
+  };
+  return { supabase: { from: () => ({ select: () => query, upsert }) } };
+});
+
+const DAY = '2025-08-01';
+const at = (hours: number, minutes = 0, day = 1) => new Date(2025, 7, day, hours, minutes);
+
+const person = (id: string, createdAt = at(0, 0, 1)): AttendancePerson => ({
+  id,
+  name: id,
+  external_id: null,
+  department: null,
+  created_at: createdAt.toISOString(),
+});
+
+const record = (personId: string, kind: string, occurredAt: Date): AttendanceRecord => ({
+  id: `${personId}-${kind}`,
+  person_id: personId,
+  person_name: personId,
+  attendance_date: localDateKey(occurredAt),
+  kind,
+  occurred_at: occurredAt.toISOString(),
+  source_id: 'door',
+  created_at: occurredAt.toISOString(),
+});
+
+describe('dateRange', () => {
+  it('lists every day between the two dates, inclusive', () => {
+    expect(dateRange('2025-07-30', '2025-08-02')).toEqual(['2025-07-30', '2025-07-31', '2025-08-01', '2025-08-02']);
+  });
+});
+
+describe('summarizeDay', () => {
+  it('reports the first check-in, the last check-out and lateness', () => {
+    const records = [
+      record('ada', 'check_in', at(8, 30)),
+      record('ada', 'check_out', at(17, 15)),
+      record('bob', 'check_in', at(9, 45)),
+    ];
+
+    const [ada, bob, eve] = summarizeDay(DAY, [person('ada'), person('bob'), person('eve')], records, '09:00');
+
+    expect(ada).toMatchObject({ status: 'present', firstCheckIn: at(8, 30), lastCheckOut: at(17, 15) });
+    expect(bob).toMatchObject({ status: 'late', lastCheckOut: null });
+    expect(eve).toMatchObject({ status: 'absent', firstCheckIn: null });
+  });
+
+  it('leaves out people enrolled after the day', () => {
+    expect(summarizeDay(DAY, [person('new', at(8, 0, 2))], [])).toEqual([]);
+  });
+});
+
+describe('attendanceToCsv', () => {
+  it('writes one row per summary with local times', () => {
+    const summaries = summarizeDay(DAY, [person('ada')], [record('ada', 'check_in', at(8, 5))]);
+
+    expect(attendanceToCsv(summaries).split(/\r?\n/).slice(0, 2)).toEqual([
+      'date,name,employee_id,department,status,first_check_in,last_check_out',
+      '2025-08-01,ada,,,present,08:05,',
+    ]);
+  });
+});
+
+describe('createAttendanceTracker', () => {
+  let time = at(8, 0).getTime();
+  const now = () => time;
+  const advanceMinutes = (minutes: number) => {
+    time += minutes * 60000;
+  };
+
+  beforeEach(() => {
+    time = at(8, 0).getTime();
+    stored.records = [];
+    upsert.mockReset().mockResolvedValue({ error: null });
+  });
+
+  it('checks in on the first sighting and moves the check-out forward after the cooldown', async () => {
+    const tracker = createAttendanceTracker({ sourceId: 'door', cooldownMinutes: 5, now });
+
+    expect(await tracker.observe('ada', 'Ada')).toBe('check_in');
+    advanceMinutes(2);
+    expect(await tracker.observe('ada', 'Ada')).toBeNull();
+    advanceMinutes(5);
+    expect(await tracker.observe('ada', 'Ada')).toBe('check_out');
+    advanceMinutes(5);
+    expect(await tracker.observe('ada', 'Ada')).toBe('check_out');
+
+    expect(upsert).toHaveBeenCalledTimes(3);
+    expect(upsert.mock.calls[0]).toEqual([
+      expect.objectContaining({ person_id: 'ada', person_name: 'Ada', kind: 'check_in', attendance_date: DAY }),
+      { onConflict: 'person_id,attendance_date,kind', ignoreDuplicates: true },
+    ]);
+    expect(upsert.mock.calls[2][1]).toEqual({ onConflict: 'person_id,attendance_date,kind', ignoreDuplicates: false });
+  });
+
+  it('resumes from the records already written today', async () => {
+    // Records of deleted people keep their name but lose the person id
+    stored.records = [record('ada', 'check_in', at(7, 58)), { ...record('gone', 'check_in', at(7, 0)), person_id: null }];
+    const tracker = createAttendanceTracker({ sourceId: 'door', cooldownMinutes: 5, now });
+
+    expect(await tracker.observe('ada', 'Ada')).toBeNull();
+    advanceMinutes(5);
+    expect(await tracker.observe('ada', 'Ada')).toBe('check_out');
+  });
+
+  it('checks everyone in again on a new day', async () => {
+    const tracker = createAttendanceTracker({ sourceId: 'door', cooldownMinutes: 5, now });
+
+    await tracker.observe('ada', 'Ada');
+    time = at(8, 0, 2).getTime();
+    expect(await tracker.observe('ada', 'Ada')).toBe('check_in');
+    expect(upsert.mock.calls[1][0].attendance_date).toBe('2025-08-02');
+  });
+
+  it('forgets a sighting whose record could not be written', async () => {
+    upsert.mockResolvedValueOnce({ error: new Error('offline') });
+    const tracker = createAttendanceTracker({ sourceId: 'door', cooldownMinutes: 5, now });
+
+    await expect(tracker.observe('ada', 'Ada')).rejects.toThrow('offline');
+    expect(await tracker.observe('ada', 'Ada')).toBe('check_in');
+  });
+
+  it('applies a changed cooldown to the next sighting', async () => {
+    const tracker = createAttendanceTracker({ sourceId: 'door', cooldownMinutes: 5, now });
+
+    await tracker.observe('ada', 'Ada');
+    tracker.setCooldownMinutes(1);
+    advanceMinutes(1);
+    expect(await tracker.observe('ada', 'Ada')).toBe('check_out');
+  });
+});
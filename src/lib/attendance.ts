@@ -0,0 +1,207 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { toCsv } from '@/lib/csv';
+
+export type AttendanceKind = 'check_in' | 'check_out';
+export type AttendanceStatus = 'present' | 'late' | 'absent';
+export type AttendanceRecord = Tables<'attendance_records'>;
+
+export const DEFAULT_ATTENDANCE_COOLDOWN_MINUTES = 5;
+// Local time of day after which a first check-in counts as late
+export const DEFAULT_LATE_AFTER = '09:00';
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  late: 'Late',
+  absent: 'Absent',
+};
+
+export interface AttendancePerson {
+  id: string;
+  name: string;
+  external_id: string | null;
+  department: string | null;
+  created_at: string;
+}
+
+export interface AttendanceSummary {
+  date: string;
+  person: AttendancePerson;
+  status: AttendanceStatus;
+  firstCheckIn: Date | null;
+  lastCheckOut: Date | null;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// YYYY-MM-DD in the browser's time zone; attendance days follow the site clock
+export const localDateKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+const parseTimeOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Inclusive list of date keys between two YYYY-MM-DD keys
+export const dateRange = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  const cursor = new Date(`${from}T00:00:00`);
+  const end = new Date(`${to}T00:00:00`);
+  while (cursor <= end) {
+    dates.push(localDateKey(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return dates;
+};
+
+export const fetchAttendance = async (from: string, to: string): Promise<AttendanceRecord[]> => {
+  const { data, error } = await supabase
+    .from('attendance_records')
+    .select('*')
+    .gte('attendance_date', from)
+    .lte('attendance_date', to)
+    .order('occurred_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// One row per person for the given day. People enrolled after the day are
+// left out rather than reported absent.
+export const summarizeDay = (
+  date: string,
+  people: AttendancePerson[],
+  records: AttendanceRecord[],
+  lateAfter = DEFAULT_LATE_AFTER
+): AttendanceSummary[] => {
+  const dayEnd = new Date(`${date}T23:59:59.999`);
+  const lateMinutes = parseTimeOfDay(lateAfter);
+
+  return people
+    .filter(person => new Date(person.created_at) <= dayEnd)
+    .map(person => {
+      const own = records.filter(record => record.attendance_date === date && record.person_id === person.id);
+      const checkIns = own.filter(record => record.kind === 'check_in');
+      const checkOuts = own.filter(record => record.kind === 'check_out');
+
+      const firstCheckIn = checkIns.length > 0 ? new Date(checkIns[0].occurred_at) : null;
+      const lastCheckOut = checkOuts.length > 0 ? new Date(checkOuts[checkOuts.length - 1].occurred_at) : null;
+      const status: AttendanceStatus = !firstCheckIn ? 'absent' :
+        minutesOfDay(firstCheckIn) > lateMinutes ? 'late' :
+        'present';
+
+      return { date, person, status, firstCheckIn, lastCheckOut };
+    });
+};
+
+const formatTime = (date: Date | null) =>
+  date ? `${pad(date.getHours())}:${pad(date.getMinutes())}` : '';
+
+export const attendanceToCsv = (summaries: AttendanceSummary[]): string => {
+  const header = ['date', 'name', 'employee_id', 'department', 'status', 'first_check_in', 'last_check_out'];
+  const rows = summaries.map(summary => [
+    summary.date,
+    summary.person.name,
+    summary.person.external_id ?? '',
+    summary.person.department ?? '',
+    summary.status,
+    formatTime(summary.firstCheckIn),
+    formatTime(summary.lastCheckOut),
+  ]);
+
+  return toCsv([header, ...rows]);
+};
+
+export interface AttendanceTrackerOptions {
+  sourceId: string;
+  cooldownMinutes?: number;
+  now?: () => number;
+}
+
+interface PersonState {
+  // When today's records were last written for this person
+  lastWrittenAt: number;
+}
+
+// Turns a stream of recognitions into one check-in per person and day, at the
+// first sighting, and one check-out that follows the last sighting. The
+// check-out is first written once the person is seen at least the cooldown
+// after checking in, and then moved forward at most once per cooldown, so
+// walking past twice in a row records only the check-in.
+export const createAttendanceTracker = (options: AttendanceTrackerOptions) => {
+  const now = options.now ?? Date.now;
+  let cooldownMs = (options.cooldownMinutes ?? DEFAULT_ATTENDANCE_COOLDOWN_MINUTES) * 60000;
+  let day = localDateKey(new Date(now()));
+  const people = new Map<string, PersonState>();
+  let seeding: Promise<void> | null = null;
+
+  const loadDay = async () => {
+    const records = await fetchAttendance(day, day);
+    for (const record of records) {
+      if (!record.person_id) continue;
+      const writtenAt = new Date(record.occurred_at).getTime();
+      const previous = people.get(record.person_id);
+      if (!previous || previous.lastWrittenAt < writtenAt) people.set(record.person_id, { lastWrittenAt: writtenAt });
+    }
+  };
+
+  // Resumes from today's records so a reload does not check everyone in
+  // again. Observations wait for it; a failed load is retried by the next one.
+  const seed = () => {
+    seeding ??= loadDay().catch(error => {
+      seeding = null;
+      throw error;
+    });
+    return seeding;
+  };
+
+  // Returns the record written for this sighting, or null inside the cooldown
+  const observe = async (personId: string, name: string): Promise<AttendanceKind | null> => {
+    await seed();
+
+    const timestamp = now();
+    const today = localDateKey(new Date(timestamp));
+    if (today !== day) {
+      people.clear();
+      day = today;
+    }
+
+    const previous = people.get(personId);
+    if (previous && timestamp - previous.lastWrittenAt < cooldownMs) return null;
+
+    const kind: AttendanceKind = previous ? 'check_out' : 'check_in';
+    // Claimed before the write so frames arriving meanwhile are cooled down
+    people.set(personId, { lastWrittenAt: timestamp });
+
+    // The unique (person, day, kind) index turns a second check-in into a
+    // no-op and moves an existing check-out forward
+    const { error } = await supabase
+      .from('attendance_records')
+      .upsert({
+        person_id: personId,
+        person_name: name,
+        attendance_date: today,
+        kind,
+        occurred_at: new Date(timestamp).toISOString(),
+        source_id: options.sourceId,
+      }, { onConflict: 'person_id,attendance_date,kind', ignoreDuplicates: kind === 'check_in' });
+
+    if (error) {
+      if (previous) people.set(personId, previous);
+      else people.delete(personId);
+      throw error;
+    }
+    return kind;
+  };
+
+  const setCooldownMinutes = (minutes: number) => {
+    cooldownMs = minutes * 60000;
+  };
+
+  return { seed, observe, setCooldownMinutes };
+};
+
+export type AttendanceTracker = ReturnType<typeof createAttendanceTracker>;
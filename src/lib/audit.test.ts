@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuditEntry, describeAuditDetails, EMPTY_AUDIT_FILTER, fetchAuditLog } from '@/lib/audit';
+
+const { calls } = vi.hoisted(() => ({ calls: [] as [string, ...unknown[]][] }));
+
+// Records every filter applied to the query and resolves to no rows
+vi.mock('@/integrations/supabase/client', () => {
+  const query = new Proxy({}, {
+    get: (_, method: string) => method === 'then'
+      ? (resolve: (value: unknown) => void) => resolve({ data: [], error: null })
+      : (...args: unknown[]) => {
+        calls.push([method, ...args]);
+        return query;
+      },
+  });
+  return { supabase: { from: () => query } };
+});
+
+const entry = (details: AuditEntry['details']): AuditEntry => ({
+  id: '1',
+  action: 'person.updated',
+  actor_id: null,
+  actor_email: 'admin@example.com',
+  entity_id: 'ada',
+  occurred_at: '2025-08-01T09:00:00Z',
+  details,
+});
+
+describe('describeAuditDetails', () => {
+  it('puts the name and the changed fields first, then the other details', () => {
+    expect(describeAuditDetails(entry({
+      name: 'Ada L.',
+      previous_name: 'Ada',
+      changed: ['name', 'department'],
+      format: 'csv',
+      row_count: 3,
+      file: null,
+    }))).toBe('Ada L. · was Ada · changed name, department · format: csv · row count: 3');
+  });
+
+  it('is empty without details', () => {
+    expect(describeAuditDetails(entry(null))).toBe('');
+  });
+});
+
+describe('fetchAuditLog', () => {
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  it('matches the actor filter literally', async () => {
+    await fetchAuditLog({ ...EMPTY_AUDIT_FILTER, actor: ' 100%_admin ' });
+
+    expect(calls).toContainEqual(['ilike', 'actor_email', '%100\\%\\_admin%']);
+  });
+
+  it('includes the whole of the last day', async () => {
+    await fetchAuditLog({ ...EMPTY_AUDIT_FILTER, from: '2025-08-01', to: '2025-08-01' });
+
+    expect(calls).toContainEqual(['gte', 'occurred_at', new Date(2025, 7, 1).toISOString()]);
+    expect(calls).toContainEqual(['lt', 'occurred_at', new Date(2025, 7, 2).toISOString()]);
+  });
+});
@@ -0,0 +1,109 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+
+export type AuditEntry = Tables<'audit_log'>;
+
+// Written by database triggers on people and face_samples
+export type DatabaseAuditAction =
+  | 'person.enrolled'
+  | 'person.updated'
+  | 'person.deleted'
+  | 'samples.added'
+  | 'samples.updated'
+  | 'samples.moved'
+  | 'samples.removed';
+
+// Written by the client; the database cannot see these happen
+export type ClientAuditAction =
+  | 'recognition.started'
+  | 'recognition.stopped'
+  | 'events.exported'
+  | 'chat.exported'
+  | 'attendance.exported'
+  | 'media.exported';
+
+export type AuditAction = DatabaseAuditAction | ClientAuditAction;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'person.enrolled': 'Enrolled person',
+  'person.updated': 'Edited person',
+  'person.deleted': 'Deleted person',
+  'samples.added': 'Added face samples',
+  'samples.updated': 'Edited face samples',
+  'samples.moved': 'Moved face samples',
+  'samples.removed': 'Removed face samples',
+  'recognition.started': 'Started recognition',
+  'recognition.stopped': 'Stopped recognition',
+  'events.exported': 'Exported recognition logs',
+  'chat.exported': 'Exported chat history',
+  'attendance.exported': 'Exported attendance',
+  'media.exported': 'Exported media timeline',
+};
+
+export interface AuditFilter {
+  // Matched against part of the actor's email
+  actor: string;
+  action: AuditAction | null;
+  // YYYY-MM-DD, inclusive, in the browser's time zone
+  from: string | null;
+  to: string | null;
+}
+
+export const EMPTY_AUDIT_FILTER: AuditFilter = { actor: '', action: null, from: null, to: null };
+
+export const AUDIT_PAGE_SIZE = 200;
+
+// The actor and time are stamped by the database. An entry that cannot be
+// written is reported but does not undo or block what it describes.
+export const recordAuditEvent = async (
+  action: ClientAuditAction,
+  details: Record<string, unknown> = {},
+  entityId: string | null = null
+) => {
+  try {
+    const { error } = await supabase
+      .from('audit_log')
+      .insert({ action, entity_id: entityId, details: details as Json });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error(`Error recording audit event ${action}:`, error);
+  }
+};
+
+// Newest first, at most one page
+export const fetchAuditLog = async (filter: AuditFilter): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('occurred_at', { ascending: false })
+    .limit(AUDIT_PAGE_SIZE);
+
+  const actor = filter.actor.trim();
+  // Wildcards typed into the filter are matched literally
+  if (actor) query = query.ilike('actor_email', `%${actor.replace(/[\\%_]/g, '\\$&')}%`);
+  if (filter.action) query = query.eq('action', filter.action);
+  if (filter.from) query = query.gte('occurred_at', new Date(`${filter.from}T00:00:00`).toISOString());
+  if (filter.to) {
+    const end = new Date(`${filter.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('occurred_at', end.toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export const describeAuditDetails = (entry: AuditEntry): string => {
+  const details = (entry.details ?? {}) as Record<string, unknown>;
+  const parts: string[] = [];
+  if (typeof details.name === 'string') parts.push(details.name);
+  if (typeof details.previous_name === 'string') parts.push(`was ${details.previous_name}`);
+  if (Array.isArray(details.changed)) parts.push(`changed ${details.changed.join(', ')}`);
+  for (const [key, value] of Object.entries(details)) {
+    if (['name', 'previous_name', 'changed'].includes(key) || value === null) continue;
+    parts.push(`${key.replace(/_/g, ' ')}: ${String(value)}`);
+  }
+  return parts.join(' · ');
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it, vi } from 'vitest';
+import { hasRole } from '@/lib/auth';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+describe('hasRole', () => {
+  it('lets each role do everything the roles below it may do', () => {
+    expect(hasRole('admin', 'operator')).toBe(true);
+    expect(hasRole('operator', 'operator')).toBe(true);
+    expect(hasRole('operator', 'admin')).toBe(false);
+    expect(hasRole('viewer', 'operator')).toBe(false);
+  });
+
+  it('grants nothing to an account without a role', () => {
+    expect(hasRole(null, 'viewer')).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Enums } from '@/integrations/supabase/types';
+
+export type AppRole = Enums<'app_role'>;
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  viewer: 'Viewer',
+  operator: 'Operator',
+  admin: 'Admin',
+};
+
+// Mirrors the enum order the RLS policies compare against: each role
+// includes everything the ones below it may do
+const ROLE_RANK: Record<AppRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+export const hasRole = (role: AppRole | null, required: AppRole): boolean =>
+  role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+
+// Null for an account without a role row, which the policies treat as no access
+export const fetchRole = async (userId: string): Promise<AppRole | null> => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.role ?? null;
+};
+
+export const signInWithPassword = async (email: string, password: string) => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+};
+
+// Accounts are created by an admin, so a link is only sent to existing users
+export const sendMagicLink = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: false, emailRedirectTo: window.location.origin },
+  });
+  if (error) throw error;
+};
+
+export const signOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+};
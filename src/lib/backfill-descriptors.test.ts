@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { backfillDescriptors } from '@/lib/backfill-descriptors';
+
+const { stored, addFaceSamples, fetchImage, extractFaceSample, createSignedUrls } = vi.hoisted(() => ({
+  stored: { rows: [] as { id: string; thumbnail: string | null; image_path: string | null }[] },
+  addFaceSamples: vi.fn(),
+  fetchImage: vi.fn(),
+  extractFaceSample: vi.fn(),
+  createSignedUrls: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ is: () => Promise.resolve({ data: stored.rows, error: null }) }) }),
+  },
+}));
+vi.mock('face-api.js', () => ({ fetchImage }));
+vi.mock('@/lib/face-descriptors', () => ({ extractFaceSample }));
+vi.mock('@/lib/face-storage', () => ({ createSignedUrls }));
+vi.mock('@/lib/people', () => ({ addFaceSamples }));
+
+const descriptor = new Float32Array([0.1, 0.2]);
+
+describe('backfillDescriptors', () => {
+  beforeEach(() => {
+    stored.rows = [];
+    addFaceSamples.mockReset().mockResolvedValue(undefined);
+    fetchImage.mockReset().mockImplementation(async (url: string) => ({ url }));
+    extractFaceSample.mockReset().mockResolvedValue({ descriptor });
+    createSignedUrls.mockReset().mockImplementation(async (paths: string[]) =>
+      Object.fromEntries(paths.map(path => [path, `https://signed/${path}`]))
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('derives the descriptor from the inline thumbnail', async () => {
+    stored.rows = [{ id: 'ada', thumbnail: 'data:image/jpeg;base64,AAAA', image_path: 'ada/photo.jpg' }];
+
+    expect(await backfillDescriptors()).toEqual({ updated: 1, failed: [] });
+    expect(fetchImage).toHaveBeenCalledWith('data:image/jpeg;base64,AAAA');
+    expect(createSignedUrls).not.toHaveBeenCalled();
+    expect(addFaceSamples).toHaveBeenCalledWith('ada', [{ descriptor, source: 'legacy' }]);
+  });
+
+  it('falls back to a signed URL for an image already in storage', async () => {
+    stored.rows = [{ id: 'ada', thumbnail: null, image_path: 'ada/photo.jpg' }];
+
+    expect(await backfillDescriptors()).toEqual({ updated: 1, failed: [] });
+    expect(fetchImage).toHaveBeenCalledWith('https://signed/ada/photo.jpg');
+  });
+
+  it('reports rows without an image or without a detectable face', async () => {
+    stored.rows = [
+      { id: 'blank', thumbnail: null, image_path: null },
+      { id: 'faceless', thumbnail: 'data:image/jpeg;base64,AAAA', image_path: null },
+    ];
+    extractFaceSample.mockResolvedValueOnce(null);
+
+    expect(await backfillDescriptors()).toEqual({ updated: 0, failed: ['blank', 'faceless'] });
+    expect(addFaceSamples).not.toHaveBeenCalled();
+  });
+
+  it('reports a row whose sample could not be written and carries on', async () => {
+    stored.rows = [
+      { id: 'failed', thumbnail: 'data:a', image_path: null },
+      { id: 'ok', thumbnail: 'data:b', image_path: null },
+    ];
+    addFaceSamples.mockRejectedValueOnce(new Error('insert failed'));
+
+    expect(await backfillDescriptors()).toEqual({ updated: 1, failed: ['failed'] });
+  });
+});
@@ -0,0 +1,52 @@
+import * as faceapi from 'face-api.js';
+import { supabase } from '@/integrations/supabase/client';
+import { extractFaceSample } from '@/lib/face-descriptors';
+import { createSignedUrls } from '@/lib/face-storage';
+import { addFaceSamples } from '@/lib/people';
+
+export interface BackfillResult {
+  updated: number;
+  failed: string[];
+}
+
+// Rows enrolled before descriptors were stored only have the captured photo.
+// This re-derives a descriptor from that photo and writes it back. It needs the
+// face-api models loaded, so it runs in the browser rather than as SQL.
+export const backfillDescriptors = async (): Promise<BackfillResult> => {
+  const { data, error } = await supabase
+    .from('people')
+    .select('id, thumbnail, image_path')
+    .is('face_descriptor', null);
+
+  if (error) throw error;
+
+  const result: BackfillResult = { updated: 0, failed: [] };
+
+  for (const row of data || []) {
+    try {
+      // The image may still be inline or may already have moved to storage
+      const source = row.thumbnail ||
+        (row.image_path && (await createSignedUrls([row.image_path]))[row.image_path]);
+      if (!source) {
+        result.failed.push(row.id);
+        continue;
+      }
+
+      const image = await faceapi.fetchImage(source);
+      const sample = await extractFaceSample(image);
+
+      if (!sample) {
+        result.failed.push(row.id);
+        continue;
+      }
+
+      await addFaceSamples(row.id, [{ descriptor: sample.descriptor, source: 'legacy' }]);
+      result.updated++;
+    } catch (error) {
+      console.error(`Error backfilling descriptor for ${row.id}:`, error);
+      result.failed.push(row.id);
+    }
+  }
+
+  return result;
+};
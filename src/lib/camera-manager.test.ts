@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCameraManager } from '@/lib/camera-manager';
+
+const SELECTION_STORAGE_KEY = 'identity-hub.camera';
+
+const fakeStream = (deviceId: string) => {
+  const track = new EventTarget() as EventTarget & { stop: () => void; getSettings: () => { deviceId: string } };
+  track.stop = vi.fn();
+  track.getSettings = () => ({ deviceId });
+  return { track, getTracks: () => [track], getVideoTracks: () => [track] } as unknown as MediaStream & { track: typeof track };
+};
+
+const getUserMedia = vi.fn();
+const enumerateDevices = vi.fn();
+const storage = new Map<string, string>();
+
+const cameras = (...ids: string[]) => ids.map(deviceId => ({ deviceId, kind: 'videoinput', label: '' }));
+
+describe('createCameraManager', () => {
+  beforeEach(() => {
+    storage.clear();
+    getUserMedia.mockReset().mockImplementation(async (constraints: MediaStreamConstraints) => {
+      const video = constraints.video as MediaTrackConstraints;
+      return fakeStream((video.deviceId as { exact: string } | undefined)?.exact ?? 'front');
+    });
+    enumerateDevices.mockReset().mockResolvedValue(cameras('front', 'back'));
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia, enumerateDevices } });
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('opens the remembered camera and lists the cameras once it is open', async () => {
+    storage.set(SELECTION_STORAGE_KEY, JSON.stringify({ deviceId: 'back' }));
+    const camera = createCameraManager();
+
+    await camera.start();
+
+    expect(getUserMedia.mock.calls[0][0].video).toMatchObject({ deviceId: { exact: 'back' } });
+    expect(camera.getState()).toMatchObject({ status: 'active', activeDeviceId: 'back', facingMode: 'user' });
+    expect(camera.getState().devices).toEqual([
+      { deviceId: 'front', label: 'Camera 1' },
+      { deviceId: 'back', label: 'Camera 2' },
+    ]);
+  });
+
+  it('falls back to any camera when the remembered one cannot be opened', async () => {
+    storage.set(SELECTION_STORAGE_KEY, JSON.stringify({ deviceId: 'gone' }));
+    getUserMedia.mockRejectedValueOnce(new Error('OverconstrainedError'));
+    const camera = createCameraManager();
+
+    await camera.start();
+
+    expect(getUserMedia.mock.calls[1][0].video).toMatchObject({ facingMode: { ideal: 'user' } });
+    expect(camera.getState().activeDeviceId).toBe('front');
+  });
+
+  it('returns to idle when no camera can be opened', async () => {
+    getUserMedia.mockRejectedValue(new Error('NotAllowedError'));
+    const camera = createCameraManager();
+
+    await expect(camera.start()).rejects.toThrow('NotAllowedError');
+    expect(camera.getState().status).toBe('idle');
+  });
+
+  it('releases a stream that opens after the camera was stopped', async () => {
+    const late = fakeStream('front');
+    let resolveLate: (stream: MediaStream) => void = () => {};
+    getUserMedia.mockReturnValueOnce(new Promise(resolve => {
+      resolveLate = resolve;
+    }));
+    const camera = createCameraManager();
+
+    const starting = camera.start();
+    camera.stop();
+    resolveLate(late);
+    await starting;
+
+    expect(late.track.stop).toHaveBeenCalled();
+    expect(camera.getState()).toMatchObject({ status: 'idle', stream: null });
+  });
+
+  it('remembers a picked camera and switches the running stream to it', async () => {
+    const camera = createCameraManager();
+    await camera.start();
+    const previous = camera.getState().stream as ReturnType<typeof fakeStream>;
+
+    camera.selectDevice('back');
+    await vi.waitFor(() => expect(camera.getState().activeDeviceId).toBe('back'));
+
+    expect(previous.track.stop).toHaveBeenCalled();
+    expect(JSON.parse(storage.get(SELECTION_STORAGE_KEY))).toEqual({ deviceId: 'back', facingMode: 'user' });
+  });
+
+  it('reopens a camera whose track ended', async () => {
+    const camera = createCameraManager();
+    await camera.start();
+    const previous = camera.getState().stream as ReturnType<typeof fakeStream>;
+
+    previous.track.dispatchEvent(new Event('ended'));
+
+    await vi.waitFor(() => expect(camera.getState().stream).not.toBe(previous));
+    expect(getUserMedia).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,233 @@
+export type FacingMode = 'user' | 'environment';
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface Resolution {
+  width: number;
+  height: number;
+}
+
+export const RESOLUTION_PRESETS: (Resolution & { label: string })[] = [
+  { label: '320 × 240', width: 320, height: 240 },
+  { label: '640 × 480 (VGA)', width: 640, height: 480 },
+  { label: '1280 × 720 (HD)', width: 1280, height: 720 },
+  { label: '1920 × 1080 (Full HD)', width: 1920, height: 1080 },
+];
+
+export type CameraStatus = 'idle' | 'starting' | 'active';
+
+export interface CameraState {
+  status: CameraStatus;
+  stream: MediaStream | null;
+  devices: CameraDevice[];
+  // Camera the operator picked; null lets the browser choose by facing mode
+  deviceId: string | null;
+  facingMode: FacingMode;
+  // Camera behind the current stream
+  activeDeviceId: string | null;
+  resolution: Resolution;
+}
+
+interface CameraSelection {
+  deviceId: string | null;
+  facingMode: FacingMode;
+}
+
+export interface CameraManagerOptions {
+  resolution?: Resolution;
+  // Called when a running camera is lost and no other one could be opened
+  onError?: (error: unknown) => void;
+}
+
+// Device ids are only stable per browser profile, so the choice is kept on
+// this device rather than in the deployment settings
+const SELECTION_STORAGE_KEY = 'identity-hub.camera';
+
+const DEFAULT_SELECTION: CameraSelection = { deviceId: null, facingMode: 'user' };
+
+const readSelection = (): CameraSelection => {
+  try {
+    const stored = localStorage.getItem(SELECTION_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SELECTION, ...JSON.parse(stored) } : DEFAULT_SELECTION;
+  } catch (error) {
+    console.error('Error reading camera selection:', error);
+    return DEFAULT_SELECTION;
+  }
+};
+
+const writeSelection = (selection: CameraSelection) => {
+  try {
+    localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+  } catch (error) {
+    console.error('Error writing camera selection:', error);
+  }
+};
+
+const stopStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach(track => track.stop());
+};
+
+// Opens the camera and keeps it open across device changes. Picking another
+// camera, facing mode or resolution restarts a running stream; unplugging the
+// camera in use falls back to another one, and plugging the remembered camera
+// back in switches to it, without the page having to reload.
+export const createCameraManager = (options: CameraManagerOptions = {}) => {
+  const onError = options.onError ?? (error => console.error('Error reopening camera:', error));
+  const listeners = new Set<() => void>();
+  const selection = readSelection();
+  let state: CameraState = {
+    status: 'idle',
+    stream: null,
+    devices: [],
+    deviceId: selection.deviceId,
+    facingMode: selection.facingMode,
+    activeDeviceId: null,
+    resolution: options.resolution ?? RESOLUTION_PRESETS[1],
+  };
+  // Bumped by every start() and stop() so an older getUserMedia call that
+  // resolves late releases its stream instead of replacing the current one
+  let generation = 0;
+
+  const setState = (next: Partial<CameraState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const refreshDevices = async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const devices = (await navigator.mediaDevices.enumerateDevices())
+        .filter(device => device.kind === 'videoinput')
+        .map((device, index) => ({
+          deviceId: device.deviceId,
+          // Labels stay empty until camera permission has been granted
+          label: device.label || `Camera ${index + 1}`,
+        }));
+      setState({ devices });
+    } catch (error) {
+      console.error('Error listing cameras:', error);
+    }
+  };
+
+  const isAvailable = (deviceId: string | null) =>
+    !!deviceId && state.devices.some(device => device.deviceId === deviceId);
+
+  const constraints = (deviceId: string | null): MediaStreamConstraints => ({
+    video: {
+      width: { ideal: state.resolution.width },
+      height: { ideal: state.resolution.height },
+      ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: { ideal: state.facingMode } }),
+    },
+  });
+
+  const start = async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error('Camera access is not supported in this browser');
+    }
+
+    const startGeneration = ++generation;
+    // A restart keeps showing the current stream until the new one is open
+    if (state.status === 'idle') setState({ status: 'starting' });
+
+    // Before permission is granted the device list can be empty, so the
+    // remembered camera is tried even when it is not listed yet
+    const preferred = state.devices.length === 0 || isAvailable(state.deviceId) ? state.deviceId : null;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia(constraints(preferred))
+        .catch(error => {
+          if (!preferred) throw error;
+          return navigator.mediaDevices.getUserMedia(constraints(null));
+        });
+    } catch (error) {
+      if (startGeneration !== generation) return;
+      stop();
+      throw error;
+    }
+
+    if (startGeneration !== generation) {
+      stopStream(stream);
+      return;
+    }
+
+    stopStream(state.stream);
+    const [track] = stream.getVideoTracks();
+    // Fires when the camera is unplugged or taken away, not on track.stop()
+    track?.addEventListener('ended', restartIfActive);
+    setState({
+      status: 'active',
+      stream,
+      activeDeviceId: track?.getSettings().deviceId ?? null,
+    });
+    await refreshDevices();
+  };
+
+  const stop = () => {
+    generation++;
+    stopStream(state.stream);
+    setState({ status: 'idle', stream: null, activeDeviceId: null });
+  };
+
+  const restartIfActive = () => {
+    if (state.status === 'idle') return;
+    start().catch(onError);
+  };
+
+  const select = (next: Partial<CameraSelection>) => {
+    setState(next);
+    writeSelection({ deviceId: state.deviceId, facingMode: state.facingMode });
+    restartIfActive();
+  };
+
+  const selectDevice = (deviceId: string | null) => select({ deviceId });
+
+  // The facing mode only applies when no specific camera is picked
+  const setFacingMode = (facingMode: FacingMode) => select({ deviceId: null, facingMode });
+
+  const setResolution = (resolution: Resolution) => {
+    if (resolution.width === state.resolution.width && resolution.height === state.resolution.height) return;
+    setState({ resolution });
+    restartIfActive();
+  };
+
+  const handleDeviceChange = async () => {
+    await refreshDevices();
+    if (state.status !== 'active') return;
+
+    const activeGone = !!state.activeDeviceId && !isAvailable(state.activeDeviceId);
+    const preferredBack = isAvailable(state.deviceId) && state.deviceId !== state.activeDeviceId;
+    if (activeGone || preferredBack) restartIfActive();
+  };
+
+  // Device changes are only followed while someone is subscribed
+  const subscribe = (listener: () => void) => {
+    if (listeners.size === 0) {
+      navigator.mediaDevices?.addEventListener('devicechange', handleDeviceChange);
+      refreshDevices();
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        navigator.mediaDevices?.removeEventListener('devicechange', handleDeviceChange);
+      }
+    };
+  };
+
+  return {
+    start,
+    stop,
+    selectDevice,
+    setFacingMode,
+    setResolution,
+    refreshDevices,
+    subscribe,
+    getState: () => state,
+  };
+};
+
+export type CameraManager = ReturnType<typeof createCameraManager>;
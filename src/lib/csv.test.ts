@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from '@/lib/csv';
+
+describe('toCsv', () => {
+  it('joins fields with commas and rows with CRLF', () => {
+    expect(toCsv([['name', 'department'], ['Jane', 'Sales']])).toBe('name,department\r\nJane,Sales');
+  });
+
+  it('quotes only fields holding commas, quotes or line breaks', () => {
+    expect(toCsv([['Doe, Jane', 'Says "hi"', 'two\nlines', 'plain']])).toBe(
+      '"Doe, Jane","Says ""hi""","two\nlines",plain'
+    );
+  });
+});
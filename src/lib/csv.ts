@@ -0,0 +1,6 @@
+const csvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// RFC 4180 style: fields are quoted only when they need to be
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(csvField).join(',')).join('\r\n');
@@ -0,0 +1,26 @@
+import * as faceapi from 'face-api.js';
+import { describe, expect, it } from 'vitest';
+import { createDetectorOptions, DEFAULT_DETECTOR_CONFIG } from '@/lib/detector-config';
+
+describe('createDetectorOptions', () => {
+  it('passes the input size and threshold to the tiny detector', () => {
+    const options = createDetectorOptions({ ...DEFAULT_DETECTOR_CONFIG, inputSize: 224, scoreThreshold: 0.6 });
+
+    expect(options).toBeInstanceOf(faceapi.TinyFaceDetectorOptions);
+    expect(options).toMatchObject({ inputSize: 224, scoreThreshold: 0.6 });
+  });
+
+  it('uses the threshold as the minimum confidence for SSD MobileNet', () => {
+    const options = createDetectorOptions({ ...DEFAULT_DETECTOR_CONFIG, kind: 'ssd', scoreThreshold: 0.7 });
+
+    expect(options).toBeInstanceOf(faceapi.SsdMobilenetv1Options);
+    expect(options).toMatchObject({ minConfidence: 0.7 });
+  });
+
+  it('applies the threshold to the last MTCNN stage only', () => {
+    const options = createDetectorOptions({ ...DEFAULT_DETECTOR_CONFIG, kind: 'mtcnn', scoreThreshold: 0.8, minFaceSize: 40 });
+
+    expect(options).toBeInstanceOf(faceapi.MtcnnOptions);
+    expect(options).toMatchObject({ minFaceSize: 40, scoreThresholds: [0.6, 0.7, 0.8] });
+  });
+});
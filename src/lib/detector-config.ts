@@ -0,0 +1,72 @@
+import * as faceapi from 'face-api.js';
+
+export type DetectorKind = 'tiny' | 'ssd' | 'mtcnn';
+
+// Plain data so it can be posted to the detection worker; the face-api
+// options objects are built on whichever side runs the detector
+export interface DetectorConfig {
+  kind: DetectorKind;
+  // TinyFaceDetector only: the frame is scaled to this square before
+  // detection. Larger finds smaller faces but is slower. Multiple of 32.
+  inputSize: number;
+  // Detections scoring below this are dropped
+  scoreThreshold: number;
+  // MTCNN only: smallest face, in pixels, the cascade searches for
+  minFaceSize: number;
+}
+
+export const DETECTOR_LABELS: Record<DetectorKind, string> = {
+  tiny: 'Tiny Face Detector',
+  ssd: 'SSD MobileNet v1',
+  mtcnn: 'MTCNN',
+};
+
+export const DETECTOR_DESCRIPTIONS: Record<DetectorKind, string> = {
+  tiny: 'Fastest; best for real-time on modest hardware',
+  ssd: 'Most accurate; noticeably slower without a GPU',
+  mtcnn: 'Finds small faces; latency grows with the number of faces',
+};
+
+export const TINY_INPUT_SIZES = [128, 160, 224, 320, 416, 512, 608];
+
+export const DEFAULT_DETECTOR_CONFIG: DetectorConfig = {
+  kind: 'tiny',
+  inputSize: 416,
+  scoreThreshold: 0.5,
+  minFaceSize: 20,
+};
+
+// face-api.js defaults for MTCNN's first two stages; the threshold setting
+// applies to the final, output stage
+const MTCNN_STAGE_THRESHOLDS = [0.6, 0.7];
+
+export const createDetectorOptions = (config: DetectorConfig): faceapi.FaceDetectionOptions => {
+  switch (config.kind) {
+    case 'ssd':
+      return new faceapi.SsdMobilenetv1Options({ minConfidence: config.scoreThreshold });
+    case 'mtcnn':
+      return new faceapi.MtcnnOptions({
+        minFaceSize: config.minFaceSize,
+        scoreThresholds: [...MTCNN_STAGE_THRESHOLDS, config.scoreThreshold],
+      });
+    default:
+      return new faceapi.TinyFaceDetectorOptions({ inputSize: config.inputSize, scoreThreshold: config.scoreThreshold });
+  }
+};
+
+const detectorNet = (kind: DetectorKind) => {
+  switch (kind) {
+    case 'ssd':
+      return faceapi.nets.ssdMobilenetv1;
+    case 'mtcnn':
+      return faceapi.nets.mtcnn;
+    default:
+      return faceapi.nets.tinyFaceDetector;
+  }
+};
+
+// Detector weights are fetched the first time a detector is used
+export const loadDetectorNet = async (kind: DetectorKind, modelUrl: string) => {
+  const net = detectorNet(kind);
+  if (!net.isLoaded) await net.loadFromUri(modelUrl);
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { meanDescriptor } from '@/lib/face-descriptors';
+
+describe('meanDescriptor', () => {
+  it('averages the samples component by component', () => {
+    const mean = meanDescriptor([new Float32Array([0, 1, 2]), new Float32Array([2, 3, 6])]);
+
+    expect(Array.from(mean)).toEqual([1, 2, 4]);
+  });
+
+  it('refuses to average nothing', () => {
+    expect(() => meanDescriptor([])).toThrow('Cannot average zero descriptors');
+  });
+});
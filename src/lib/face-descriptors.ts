@@ -0,0 +1,137 @@
+import * as faceapi from 'face-api.js';
+import { createDetectorOptions, DEFAULT_DETECTOR_CONFIG, DetectorConfig } from '@/lib/detector-config';
+
+const THUMBNAIL_SIZE = 160;
+const THUMBNAIL_MARGIN = 0.4;
+
+// JPEG quality of stored face photos and of list thumbnails
+export const DEFAULT_PHOTO_QUALITY = 0.9;
+export const DEFAULT_THUMBNAIL_QUALITY = 0.8;
+
+export interface FaceSample {
+  descriptor: Float32Array;
+  box: faceapi.Box;
+  score: number;
+  landmarks: faceapi.FaceLandmarks68;
+}
+
+// Runs the full detection + landmarks + recognition pipeline on a single face.
+// Returns null when no face is found in the input. The detector's weights must
+// already be loaded on the main thread; the face engine loads the configured one.
+export const extractFaceSample = async (
+  input: faceapi.TNetInput,
+  detector: DetectorConfig = DEFAULT_DETECTOR_CONFIG
+): Promise<FaceSample | null> => {
+  const result = await faceapi
+    .detectSingleFace(input, createDetectorOptions(detector))
+    .withFaceLandmarks()
+    .withFaceDescriptor();
+
+  if (!result) return null;
+
+  return {
+    descriptor: result.descriptor,
+    box: result.detection.box,
+    score: result.detection.score,
+    landmarks: result.landmarks,
+  };
+};
+
+export const detectAllFaceSamples = async (
+  input: faceapi.TNetInput,
+  detector: DetectorConfig = DEFAULT_DETECTOR_CONFIG
+): Promise<FaceSample[]> => {
+  const results = await faceapi
+    .detectAllFaces(input, createDetectorOptions(detector))
+    .withFaceLandmarks()
+    .withFaceDescriptors();
+
+  return results.map(result => ({
+    descriptor: result.descriptor,
+    box: result.detection.box,
+    score: result.detection.score,
+    landmarks: result.landmarks,
+  }));
+};
+
+// Postgres real[] columns round-trip as plain number arrays.
+export const descriptorToArray = (descriptor: Float32Array): number[] =>
+  Array.from(descriptor);
+
+export const arrayToDescriptor = (values: number[]): Float32Array =>
+  new Float32Array(values);
+
+// Element-wise mean of several samples of the same face.
+export const meanDescriptor = (descriptors: Float32Array[]): Float32Array => {
+  if (descriptors.length === 0) throw new Error('Cannot average zero descriptors');
+
+  const mean = new Float32Array(descriptors[0].length);
+  for (const descriptor of descriptors) {
+    for (let i = 0; i < mean.length; i++) {
+      mean[i] += descriptor[i] / descriptors.length;
+    }
+  }
+  return mean;
+};
+
+type ImageSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+// Square region around the face box, grown by a margin and clamped to the source.
+const faceCropRect = (box: faceapi.Box, sourceWidth: number, sourceHeight: number, marginRatio: number) => {
+  const margin = Math.max(box.width, box.height) * marginRatio;
+  const side = Math.max(box.width, box.height) + margin * 2;
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+
+  const x = Math.max(0, centerX - side / 2);
+  const y = Math.max(0, centerY - side / 2);
+  return {
+    x,
+    y,
+    width: Math.min(side, sourceWidth - x),
+    height: Math.min(side, sourceHeight - y),
+  };
+};
+
+// Cuts the face out at native resolution, so the quality checks still see the
+// real amount of detail. Used to isolate one face from a group photo.
+export const cropFace = (
+  source: ImageSource,
+  box: faceapi.Box,
+  sourceWidth: number,
+  sourceHeight: number
+): HTMLCanvasElement => {
+  const rect = faceCropRect(box, sourceWidth, sourceHeight, THUMBNAIL_MARGIN);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(rect.width);
+  canvas.height = Math.round(rect.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  context.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Crops the face (plus some margin) out of the source and scales it down to a
+// small square JPEG suitable for list views.
+export const createThumbnail = (
+  source: ImageSource,
+  box: faceapi.Box,
+  sourceWidth: number,
+  sourceHeight: number,
+  quality = DEFAULT_THUMBNAIL_QUALITY
+): string => {
+  const rect = faceCropRect(box, sourceWidth, sourceHeight, THUMBNAIL_MARGIN);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  context.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  return canvas.toDataURL('image/jpeg', quality);
+};
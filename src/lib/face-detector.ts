@@ -0,0 +1,212 @@
+import * as faceapi from 'face-api.js';
+import { FaceSample } from '@/lib/face-descriptors';
+import { createDetectorOptions, DetectorConfig, DetectorKind, loadDetectorNet } from '@/lib/detector-config';
+
+export const MODEL_URL = '/models';
+
+export interface DetectedFace {
+  box: faceapi.Box;
+  score: number;
+  landmarks: faceapi.FaceLandmarks68;
+}
+
+export type FrameSource = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+// Worker protocol. Landmarks travel as flat relative x/y pairs and
+// descriptors as Float32Arrays so both can be transferred instead of copied.
+export interface SerializedFace {
+  box: { x: number; y: number; width: number; height: number };
+  score: number;
+  landmarks: Float32Array;
+  descriptor: Float32Array | null;
+}
+
+export type FaceDetectorRequest =
+  | { type: 'load'; id: number; modelUrl: string; detector: DetectorKind }
+  | { type: 'load-detector'; id: number; detector: DetectorKind }
+  | { type: 'detect'; id: number; frame: ImageBitmap; config: DetectorConfig; withDescriptors: boolean };
+
+export type FaceDetectorResponse =
+  | { type: 'loaded'; id: number }
+  | { type: 'detections'; id: number; faces: SerializedFace[]; width: number; height: number }
+  | { type: 'error'; id: number; message: string };
+
+type DetectionsResponse = Extract<FaceDetectorResponse, { type: 'detections' }>;
+
+const supportsWorkerInference = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+const deserializeFace = (face: SerializedFace, width: number, height: number): DetectedFace => {
+  const points: faceapi.Point[] = [];
+  for (let i = 0; i < face.landmarks.length; i += 2) {
+    points.push(new faceapi.Point(face.landmarks[i], face.landmarks[i + 1]));
+  }
+
+  return {
+    box: new faceapi.Box(face.box),
+    score: face.score,
+    landmarks: new faceapi.FaceLandmarks68(points, { width, height }),
+  };
+};
+
+// Runs detection, landmarks and descriptor extraction in a dedicated worker,
+// sending frames over as ImageBitmaps. Browsers without OffscreenCanvas, or
+// where the worker fails to start, fall back to the main thread behind the
+// same API.
+export const createFaceDetector = (modelUrl = MODEL_URL, initialDetector: DetectorKind = 'tiny') => {
+  let worker: Worker | null = null;
+  let loading: Promise<void> | null = null;
+  // Bumped by dispose() so a load that was in flight cannot revive the detector
+  let generation = 0;
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (response: FaceDetectorResponse) => void; reject: (error: Error) => void }>();
+
+  const rejectPending = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  const send = (target: Worker, request: FaceDetectorRequest, transfer: Transferable[] = []) =>
+    new Promise<FaceDetectorResponse>((resolve, reject) => {
+      pending.set(request.id, { resolve, reject });
+      target.postMessage(request, transfer);
+    });
+
+  const startWorker = async () => {
+    const target = new Worker(new URL('./face-detector.worker.ts', import.meta.url), { type: 'module' });
+    target.onmessage = (event: MessageEvent<FaceDetectorResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+
+      pending.delete(response.id);
+      if (response.type === 'error') request.reject(new Error(response.message));
+      else request.resolve(response);
+    };
+    target.onerror = (event) => {
+      event.preventDefault();
+      rejectPending(new Error(event.message || 'Face detection worker failed'));
+    };
+
+    try {
+      // Resolved against the page, not the worker script's own URL
+      await send(target, {
+        type: 'load',
+        id: nextId++,
+        modelUrl: new URL(modelUrl, location.href).href,
+        detector: initialDetector,
+      });
+      return target;
+    } catch (error) {
+      target.terminate();
+      throw error;
+    }
+  };
+
+  const loadOnMainThread = () =>
+    Promise.all([
+      loadDetectorNet(initialDetector, modelUrl),
+      ...[faceapi.nets.faceLandmark68Net, faceapi.nets.faceRecognitionNet]
+        .filter(net => !net.isLoaded)
+        .map(net => net.loadFromUri(modelUrl)),
+    ]).then(() => undefined);
+
+  const load = () => {
+    if (!loading) {
+      const loadGeneration = generation;
+      const isStale = () => loadGeneration !== generation;
+
+      loading = (async () => {
+        if (supportsWorkerInference()) {
+          try {
+            const started = await startWorker();
+            if (isStale()) {
+              started.terminate();
+              throw new Error('Face detector was disposed');
+            }
+            worker = started;
+            return;
+          } catch (error) {
+            if (isStale()) throw error;
+            console.warn('Face detection worker unavailable, using the main thread:', error);
+          }
+        }
+        await loadOnMainThread();
+      })().catch(error => {
+        if (!isStale()) loading = null;
+        throw error;
+      });
+    }
+    return loading;
+  };
+
+  // Fetches a detector's weights ahead of its first frame
+  const loadDetector = async (kind: DetectorKind) => {
+    await load();
+    if (worker) await send(worker, { type: 'load-detector', id: nextId++, detector: kind });
+    else await loadDetectorNet(kind, modelUrl);
+  };
+
+  const detectInWorker = async (target: Worker, source: FrameSource, config: DetectorConfig, withDescriptors: boolean) => {
+    const frame = await createImageBitmap(source);
+    const request: FaceDetectorRequest = { type: 'detect', id: nextId++, frame, config, withDescriptors };
+    return await send(target, request, [frame]) as DetectionsResponse;
+  };
+
+  const detectFaces = async (source: FrameSource, config: DetectorConfig): Promise<DetectedFace[]> => {
+    await load();
+
+    if (worker) {
+      const { faces, width, height } = await detectInWorker(worker, source, config, false);
+      return faces.map(face => deserializeFace(face, width, height));
+    }
+
+    await loadDetectorNet(config.kind, modelUrl);
+    const results = await faceapi
+      .detectAllFaces(source, createDetectorOptions(config))
+      .withFaceLandmarks();
+    return results.map(result => ({
+      box: result.detection.box,
+      score: result.detection.score,
+      landmarks: result.landmarks,
+    }));
+  };
+
+  const detectFaceSamples = async (source: FrameSource, config: DetectorConfig): Promise<FaceSample[]> => {
+    await load();
+
+    if (worker) {
+      const { faces, width, height } = await detectInWorker(worker, source, config, true);
+      return faces
+        .filter(face => face.descriptor)
+        .map(face => ({ ...deserializeFace(face, width, height), descriptor: face.descriptor as Float32Array }));
+    }
+
+    await loadDetectorNet(config.kind, modelUrl);
+    const results = await faceapi
+      .detectAllFaces(source, createDetectorOptions(config))
+      .withFaceLandmarks()
+      .withFaceDescriptors();
+    return results.map(result => ({
+      descriptor: result.descriptor,
+      box: result.detection.box,
+      score: result.detection.score,
+      landmarks: result.landmarks,
+    }));
+  };
+
+  // Safe to call more than once; a later load() starts a fresh worker
+  const dispose = () => {
+    generation++;
+    worker?.terminate();
+    worker = null;
+    loading = null;
+    rejectPending(new Error('Face detector was disposed'));
+  };
+
+  return { load, loadDetector, detectFaces, detectFaceSamples, dispose };
+};
+
+export type FaceDetector = ReturnType<typeof createFaceDetector>;
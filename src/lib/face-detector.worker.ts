@@ -0,0 +1,112 @@
+import * as faceapi from 'face-api.js';
+import type { FaceDetectorRequest, FaceDetectorResponse, SerializedFace } from '@/lib/face-detector';
+import { createDetectorOptions, DetectorConfig, loadDetectorNet } from '@/lib/detector-config';
+
+// face-api.js only knows the window and Node environments. In a worker it
+// draws on OffscreenCanvas and never receives media elements.
+class UnavailableInWorker {
+  constructor() {
+    throw new Error('Media elements are not available in a worker');
+  }
+}
+
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  Image: UnavailableInWorker as unknown as typeof HTMLImageElement,
+  ImageData,
+  Video: UnavailableInWorker as unknown as typeof HTMLVideoElement,
+  createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  createImageElement: () => new UnavailableInWorker() as unknown as HTMLImageElement,
+  fetch: (url, init) => fetch(url, init),
+  readFile: () => {
+    throw new Error('readFile - filesystem not available in a worker');
+  },
+});
+
+// Set by the load request; detector weights are fetched from here on demand
+let modelUrl = '';
+
+// Reused across frames; only resized when the camera resolution changes
+let frameCanvas: OffscreenCanvas | null = null;
+
+const drawFrame = (frame: ImageBitmap) => {
+  if (!frameCanvas || frameCanvas.width !== frame.width || frameCanvas.height !== frame.height) {
+    frameCanvas = new OffscreenCanvas(frame.width, frame.height);
+  }
+  const context = frameCanvas.getContext('2d');
+  if (!context) throw new Error('OffscreenCanvas 2D context is not available');
+
+  context.drawImage(frame, 0, 0);
+  frame.close();
+  return frameCanvas as unknown as HTMLCanvasElement;
+};
+
+const serializeFace = (
+  detection: faceapi.FaceDetection,
+  landmarks: faceapi.FaceLandmarks68,
+  descriptor: Float32Array | null
+): SerializedFace => {
+  const relative = landmarks.relativePositions;
+  const points = new Float32Array(relative.length * 2);
+  relative.forEach((point, index) => {
+    points[index * 2] = point.x;
+    points[index * 2 + 1] = point.y;
+  });
+
+  const { x, y, width, height } = detection.box;
+  // Copied so transferring it cannot detach a buffer face-api still holds
+  const ownDescriptor = descriptor ? new Float32Array(descriptor) : null;
+  return { box: { x, y, width, height }, score: detection.score, landmarks: points, descriptor: ownDescriptor };
+};
+
+const detect = async (frame: ImageBitmap, config: DetectorConfig, withDescriptors: boolean) => {
+  await loadDetectorNet(config.kind, modelUrl);
+  const { width, height } = frame;
+  const input = drawFrame(frame);
+  const options = createDetectorOptions(config);
+
+  const faces = withDescriptors
+    ? (await faceapi.detectAllFaces(input, options).withFaceLandmarks().withFaceDescriptors())
+        .map(result => serializeFace(result.detection, result.landmarks, result.descriptor))
+    : (await faceapi.detectAllFaces(input, options).withFaceLandmarks())
+        .map(result => serializeFace(result.detection, result.landmarks, null));
+
+  return { faces, width, height };
+};
+
+const respond = (response: FaceDetectorResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+self.onmessage = async (event: MessageEvent<FaceDetectorRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'load') {
+      modelUrl = request.modelUrl;
+      await Promise.all([
+        loadDetectorNet(request.detector, modelUrl),
+        faceapi.nets.faceLandmark68Net.loadFromUri(modelUrl),
+        faceapi.nets.faceRecognitionNet.loadFromUri(modelUrl),
+      ]);
+      respond({ type: 'loaded', id: request.id });
+      return;
+    }
+
+    if (request.type === 'load-detector') {
+      await loadDetectorNet(request.detector, modelUrl);
+      respond({ type: 'loaded', id: request.id });
+      return;
+    }
+
+    const { faces, width, height } = await detect(request.frame, request.config, request.withDescriptors);
+    const transfer = faces.flatMap(face =>
+      face.descriptor ? [face.landmarks.buffer, face.descriptor.buffer] : [face.landmarks.buffer]
+    );
+    respond({ type: 'detections', id: request.id, faces, width, height }, transfer);
+  } catch (error) {
+    if (request.type === 'detect') request.frame.close();
+    respond({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
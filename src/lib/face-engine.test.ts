@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFaceEngine } from '@/lib/face-engine';
+import { DetectorConfig } from '@/lib/detector-config';
+
+const { nets, detector, loadDetectorNet } = vi.hoisted(() => {
+  const net = () => ({ isLoaded: false, loadFromUri: vi.fn() });
+  return {
+    nets: { tinyFaceDetector: net(), faceLandmark68Net: net(), faceRecognitionNet: net() },
+    detector: {
+      load: vi.fn(),
+      loadDetector: vi.fn(),
+      detectFaces: vi.fn(),
+      detectFaceSamples: vi.fn(),
+      dispose: vi.fn(),
+    },
+    loadDetectorNet: vi.fn(),
+  };
+});
+
+vi.mock('face-api.js', () => ({ nets }));
+vi.mock('@/lib/face-detector', () => ({ createFaceDetector: () => detector, MODEL_URL: '/models' }));
+vi.mock('@/lib/detector-config', () => ({
+  DEFAULT_DETECTOR_CONFIG: { kind: 'tiny', inputSize: 416, scoreThreshold: 0.5, minFaceSize: 20 },
+  loadDetectorNet,
+}));
+
+const SSD: DetectorConfig = { kind: 'ssd', inputSize: 416, scoreThreshold: 0.5, minFaceSize: 20 };
+
+describe('createFaceEngine', () => {
+  beforeEach(() => {
+    Object.values(nets).forEach(net => {
+      net.isLoaded = false;
+      net.loadFromUri.mockReset().mockResolvedValue(undefined);
+    });
+    Object.values(detector).forEach(fn => fn.mockReset().mockResolvedValue(undefined));
+    loadDetectorNet.mockReset().mockResolvedValue(undefined);
+  });
+
+  it('loads only the detector, leaving the main-thread nets alone', async () => {
+    const engine = createFaceEngine();
+
+    await engine.load();
+
+    expect(detector.load).toHaveBeenCalledTimes(1);
+    expect(engine.getState()).toMatchObject({ status: 'ready', progress: 1, error: null });
+    Object.values(nets).forEach(net => expect(net.loadFromUri).not.toHaveBeenCalled());
+    expect(loadDetectorNet).not.toHaveBeenCalled();
+  });
+
+  it('shares one load between callers and notifies subscribers', async () => {
+    const engine = createFaceEngine();
+    const listener = vi.fn();
+    engine.subscribe(listener);
+
+    await Promise.all([engine.load(), engine.load()]);
+
+    expect(detector.load).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('reports a failed load and tries again on the next call', async () => {
+    const engine = createFaceEngine();
+    const failure = new Error('worker crashed');
+    detector.load.mockRejectedValueOnce(failure);
+
+    await expect(engine.load()).rejects.toBe(failure);
+    expect(engine.getState()).toMatchObject({ status: 'error', error: failure });
+
+    await engine.load();
+    expect(engine.getState().status).toBe('ready');
+  });
+
+  it('refuses to detect before it is ready', () => {
+    const engine = createFaceEngine();
+
+    expect(() => engine.detectFaces({} as HTMLVideoElement)).toThrow('Face engine is not ready (idle)');
+    expect(detector.detectFaces).not.toHaveBeenCalled();
+  });
+
+  it('fetches the photo models once, on first use', async () => {
+    const engine = createFaceEngine('/weights', SSD);
+    nets.faceLandmark68Net.isLoaded = true;
+
+    await Promise.all([engine.loadPhotoModels(), engine.loadPhotoModels()]);
+
+    expect(nets.tinyFaceDetector.loadFromUri).toHaveBeenCalledTimes(1);
+    expect(nets.tinyFaceDetector.loadFromUri).toHaveBeenCalledWith('/weights');
+    expect(nets.faceLandmark68Net.loadFromUri).not.toHaveBeenCalled();
+    expect(loadDetectorNet).toHaveBeenCalledWith('ssd', '/weights');
+    expect(detector.load).not.toHaveBeenCalled();
+  });
+
+  it('retries the photo models after a failed fetch', async () => {
+    const engine = createFaceEngine();
+    const failure = new Error('offline');
+    nets.faceRecognitionNet.loadFromUri.mockRejectedValueOnce(failure);
+
+    await expect(engine.loadPhotoModels()).rejects.toBe(failure);
+    await engine.loadPhotoModels();
+
+    expect(nets.faceRecognitionNet.loadFromUri).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches a new detector on the main thread only once photos have needed one', async () => {
+    const engine = createFaceEngine();
+    await engine.load();
+
+    await engine.setDetectorConfig(SSD);
+    expect(detector.loadDetector).toHaveBeenCalledWith('ssd');
+    expect(loadDetectorNet).not.toHaveBeenCalled();
+
+    await engine.loadPhotoModels();
+    await engine.setDetectorConfig({ ...SSD, kind: 'mtcnn' });
+    expect(loadDetectorNet).toHaveBeenLastCalledWith('mtcnn', expect.any(String));
+    expect(engine.getState().detectorConfig.kind).toBe('mtcnn');
+  });
+
+  it('keeps the previous detector when the new one cannot be loaded', async () => {
+    const engine = createFaceEngine();
+    await engine.load();
+    detector.loadDetector.mockRejectedValueOnce(new Error('404'));
+
+    await expect(engine.setDetectorConfig(SSD)).rejects.toThrow('404');
+    expect(engine.getState().detectorConfig.kind).toBe('tiny');
+  });
+
+  it('ignores a load that finishes after dispose', async () => {
+    const engine = createFaceEngine();
+    let finish: () => void = () => {};
+    detector.load.mockReturnValueOnce(new Promise<void>(resolve => {
+      finish = resolve;
+    }));
+
+    const loading = engine.load();
+    engine.dispose();
+    finish();
+    await loading;
+
+    expect(detector.dispose).toHaveBeenCalled();
+    expect(engine.getState().status).toBe('idle');
+  });
+});
@@ -0,0 +1,148 @@
+import * as faceapi from 'face-api.js';
+import { FaceSample } from '@/lib/face-descriptors';
+import { createFaceDetector, DetectedFace, FrameSource, MODEL_URL } from '@/lib/face-detector';
+import { DEFAULT_DETECTOR_CONFIG, DetectorConfig, loadDetectorNet } from '@/lib/detector-config';
+
+export type FaceEngineStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface FaceEngineState {
+  status: FaceEngineStatus;
+  // Fraction of the load steps that have finished, 0..1
+  progress: number;
+  error: Error | null;
+  // Detector used for camera frames
+  detectorConfig: DetectorConfig;
+}
+
+// The main thread keeps its own copy of the nets for one-off work on photos
+// (uploads, bulk import, legacy backfills); camera frames go to the detector.
+// They are only fetched once that work first needs them, since the detector
+// worker already loads the same weights for live recognition.
+const MAIN_THREAD_NETS = [
+  faceapi.nets.tinyFaceDetector,
+  faceapi.nets.faceLandmark68Net,
+  faceapi.nets.faceRecognitionNet,
+];
+
+const INITIAL_STATE: FaceEngineState = {
+  status: 'idle',
+  progress: 0,
+  error: null,
+  detectorConfig: DEFAULT_DETECTOR_CONFIG,
+};
+
+// Owns model loading for the whole app. There is a single load lifecycle:
+// idle -> loading -> ready, or error until load() is called again. Inference
+// before the engine is ready throws instead of pretending nothing was found.
+export const createFaceEngine = (modelUrl = MODEL_URL, detectorConfig = DEFAULT_DETECTOR_CONFIG) => {
+  const detector = createFaceDetector(modelUrl, detectorConfig.kind);
+  const listeners = new Set<() => void>();
+  let state: FaceEngineState = { ...INITIAL_STATE, detectorConfig };
+  let loading: Promise<void> | null = null;
+  let loadingPhotoModels: Promise<void> | null = null;
+  // Bumped by dispose() so a load that was in flight cannot overwrite the state
+  let generation = 0;
+
+  const setState = (next: Partial<FaceEngineState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const load = () => {
+    if (state.status === 'ready') return Promise.resolve();
+    if (loading) return loading;
+
+    const loadGeneration = generation;
+    const isCurrent = () => loadGeneration === generation;
+    setState({ status: 'loading', progress: 0, error: null });
+
+    loading = detector.load()
+      .then(() => {
+        if (isCurrent()) setState({ status: 'ready', progress: 1 });
+      })
+      .catch(error => {
+        if (isCurrent()) {
+          setState({ status: 'error', error: error instanceof Error ? error : new Error(String(error)) });
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (isCurrent()) loading = null;
+      });
+    return loading;
+  };
+
+  // Fetches the main-thread nets plus the configured detector, which photos
+  // are detected with. Independent of load(); a failed attempt is retried.
+  const loadPhotoModels = () => {
+    if (!loadingPhotoModels) {
+      loadingPhotoModels = Promise.all([
+        ...MAIN_THREAD_NETS.filter(net => !net.isLoaded).map(net => net.loadFromUri(modelUrl)),
+        loadDetectorNet(state.detectorConfig.kind, modelUrl),
+      ])
+        .then(() => undefined)
+        .catch(error => {
+          loadingPhotoModels = null;
+          throw error;
+        });
+    }
+    return loadingPhotoModels;
+  };
+
+  const assertReady = () => {
+    if (state.status !== 'ready') {
+      throw new Error(`Face engine is not ready (${state.status})`);
+    }
+  };
+
+  const detectFaces = (source: FrameSource): Promise<DetectedFace[]> => {
+    assertReady();
+    return detector.detectFaces(source, state.detectorConfig);
+  };
+
+  const detectFaceSamples = (source: FrameSource): Promise<FaceSample[]> => {
+    assertReady();
+    return detector.detectFaceSamples(source, state.detectorConfig);
+  };
+
+  // Switching to another detector fetches its weights first, so frames keep
+  // using the previous one until the new one is ready. Throws, leaving the
+  // configuration unchanged, when the weights cannot be loaded.
+  const setDetectorConfig = async (config: DetectorConfig) => {
+    if (config.kind !== state.detectorConfig.kind) {
+      await Promise.all([
+        state.status === 'ready' && detector.loadDetector(config.kind),
+        loadingPhotoModels && loadDetectorNet(config.kind, modelUrl),
+      ]);
+    }
+    setState({ detectorConfig: config });
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // The photo models stay loaded, so a later load() only restarts the worker
+  const dispose = () => {
+    generation++;
+    detector.dispose();
+    loading = null;
+    setState({ ...INITIAL_STATE, detectorConfig: state.detectorConfig });
+  };
+
+  return {
+    load,
+    loadPhotoModels,
+    detectFaces,
+    detectFaceSamples,
+    setDetectorConfig,
+    subscribe,
+    getState: () => state,
+    dispose,
+  };
+};
+
+export type FaceEngine = ReturnType<typeof createFaceEngine>;
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { createFaceMatcher, distanceToConfidence, findSimilarFaces, UNKNOWN_LABEL } from '@/lib/face-matcher';
+
+// 128 zeros with `offset` added to the first component, so the distance
+// between two of them is the difference of their offsets
+const descriptor = (offset: number) => {
+  const values = new Array(128).fill(0);
+  values[0] = offset;
+  return values;
+};
+
+describe('distanceToConfidence', () => {
+  it('is 100 for a perfect match and 50 on the threshold', () => {
+    expect(distanceToConfidence(0, 0.6)).toBe(100);
+    expect(distanceToConfidence(0.6, 0.6)).toBe(50);
+  });
+
+  it('falls to 0 at twice the threshold and stays there', () => {
+    expect(distanceToConfidence(1.2, 0.6)).toBe(0);
+    expect(distanceToConfidence(5, 0.6)).toBe(0);
+  });
+
+  it('is 0 for a non-positive threshold', () => {
+    expect(distanceToConfidence(0, 0)).toBe(0);
+  });
+});
+
+describe('createFaceMatcher', () => {
+  it('reports everyone as unknown with an empty gallery', () => {
+    const matcher = createFaceMatcher([]);
+
+    expect(matcher.size).toBe(0);
+    expect(matcher.match(new Float32Array(descriptor(0)))).toEqual({
+      label: UNKNOWN_LABEL,
+      personId: null,
+      distance: Infinity,
+      confidence: 0,
+      isKnown: false,
+    });
+  });
+
+  it('matches the nearest enrolled face within the threshold', () => {
+    const matcher = createFaceMatcher([
+      { id: 'ada', name: 'Ada', face_descriptor: descriptor(0) },
+      { id: 'bob', name: 'Bob', face_descriptor: descriptor(1) },
+    ], { threshold: 0.6 });
+
+    const match = matcher.match(new Float32Array(descriptor(0.9)));
+    expect(match.label).toBe('Bob');
+    expect(match.personId).toBe('bob');
+    expect(match.isKnown).toBe(true);
+    expect(match.distance).toBeCloseTo(0.1);
+  });
+
+  it('leaves faces beyond the threshold unknown', () => {
+    const matcher = createFaceMatcher([{ id: 'ada', name: 'Ada', face_descriptor: descriptor(0) }], { threshold: 0.6 });
+
+    const match = matcher.match(new Float32Array(descriptor(0.7)));
+    expect(match.label).toBe(UNKNOWN_LABEL);
+    expect(match.personId).toBeNull();
+    expect(match.confidence).toBe(0);
+  });
+
+  it('skips rows without a descriptor', () => {
+    const matcher = createFaceMatcher([
+      { id: 'ada', name: 'Ada', face_descriptor: null },
+      { id: 'bob', name: 'Bob', face_descriptor: descriptor(0) },
+    ]);
+
+    expect(matcher.size).toBe(1);
+  });
+});
+
+describe('findSimilarFaces', () => {
+  const faces = [
+    { id: 'far', name: 'Jane', face_descriptor: descriptor(0.5) },
+    { id: 'near', name: 'Jane', face_descriptor: descriptor(0.1) },
+    { id: 'outside', name: 'Bob', face_descriptor: descriptor(2) },
+    { id: 'legacy', name: 'Eve', face_descriptor: null },
+  ];
+
+  it('returns every row within the threshold, nearest first', () => {
+    const similar = findSimilarFaces(new Float32Array(descriptor(0)), faces, 0.6);
+
+    expect(similar.map(({ face }) => face.id)).toEqual(['near', 'far']);
+    expect(similar[0].distance).toBeCloseTo(0.1);
+  });
+});
+
+describe('createFaceMatcher with people who share a name', () => {
+  it('keeps them apart and reports the nearest one', () => {
+    const matcher = createFaceMatcher([
+      { id: 'first', name: 'Jane', face_descriptor: descriptor(0.3) },
+      { id: 'second', name: 'Jane', face_descriptor: descriptor(-0.3) },
+    ]);
+
+    expect(matcher.size).toBe(2);
+    expect(matcher.match(new Float32Array(descriptor(-0.25)))).toMatchObject({ label: 'Jane', personId: 'second' });
+    expect(matcher.match(new Float32Array(descriptor(0.25)))).toMatchObject({ label: 'Jane', personId: 'first' });
+  });
+});
@@ -0,0 +1,92 @@
+import * as faceapi from 'face-api.js';
+import { arrayToDescriptor } from '@/lib/face-descriptors';
+import { distanceToConfidence } from '@/lib/match-confidence';
+
+export { distanceToConfidence };
+
+// face-api.js recommends 0.6 as the euclidean distance cut-off for the
+// 128-d descriptors produced by faceRecognitionNet.
+export const DEFAULT_MATCH_THRESHOLD = 0.6;
+
+export const UNKNOWN_LABEL = 'Unknown Person';
+
+export interface EnrolledFace {
+  id: string;
+  name: string;
+  face_descriptor: number[] | null;
+}
+
+export interface FaceMatch {
+  label: string;
+  personId: string | null;
+  distance: number;
+  confidence: number;
+  isKnown: boolean;
+}
+
+export interface FaceMatcherOptions {
+  threshold?: number;
+}
+
+// Labels each enrolled descriptor with its person id, so two people who share
+// a name are never matched as one. Rows without a descriptor are skipped.
+export const toLabeledDescriptors = (faces: EnrolledFace[]): faceapi.LabeledFaceDescriptors[] =>
+  faces
+    .filter(face => face.face_descriptor && face.face_descriptor.length > 0)
+    .map(face => new faceapi.LabeledFaceDescriptors(face.id, [arrayToDescriptor(face.face_descriptor)]));
+
+export interface SimilarFace<T extends EnrolledFace> {
+  face: T;
+  distance: number;
+}
+
+// Every enrolled face within the threshold of the descriptor, nearest first.
+export const findSimilarFaces = <T extends EnrolledFace>(
+  descriptor: Float32Array,
+  faces: T[],
+  threshold = DEFAULT_MATCH_THRESHOLD
+): SimilarFace<T>[] =>
+  faces
+    .filter(face => face.face_descriptor && face.face_descriptor.length > 0)
+    .map(face => ({
+      face,
+      distance: faceapi.euclideanDistance(descriptor, arrayToDescriptor(face.face_descriptor)),
+    }))
+    .filter(({ distance }) => distance < threshold)
+    .sort((a, b) => a.distance - b.distance);
+
+export const createFaceMatcher = (faces: EnrolledFace[], options: FaceMatcherOptions = {}) => {
+  const threshold = options.threshold ?? DEFAULT_MATCH_THRESHOLD;
+  const labeled = toLabeledDescriptors(faces);
+  // faceapi.FaceMatcher throws on an empty gallery
+  const matcher = labeled.length > 0 ? new faceapi.FaceMatcher(labeled, threshold) : null;
+
+  const names = new Map(faces.map(face => [face.id, face.name]));
+
+  const match = (descriptor: Float32Array): FaceMatch => {
+    if (!matcher) {
+      return { label: UNKNOWN_LABEL, personId: null, distance: Infinity, confidence: 0, isKnown: false };
+    }
+
+    // matchDescriptor always returns the nearest label; applying the threshold
+    // here avoids confusing a person enrolled as "unknown" with no match.
+    const best = matcher.matchDescriptor(descriptor);
+    const isKnown = best.distance < threshold;
+
+    return {
+      label: isKnown ? names.get(best.label) : UNKNOWN_LABEL,
+      personId: isKnown ? best.label : null,
+      distance: best.distance,
+      confidence: isKnown ? distanceToConfidence(best.distance, threshold) : 0,
+      isKnown,
+    };
+  };
+
+  return {
+    threshold,
+    size: labeled.length,
+    match,
+  };
+};
+
+export type FaceMatcher = ReturnType<typeof createFaceMatcher>;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { exposureStats, laplacianVariance } from '@/lib/face-quality';
+
+const SIZE = 16;
+
+const image = (pixel: (x: number, y: number) => number) => {
+  const luminance = new Float32Array(SIZE * SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) luminance[y * SIZE + x] = pixel(x, y);
+  }
+  return luminance;
+};
+
+describe('laplacianVariance', () => {
+  it('is zero for a flat image', () => {
+    expect(laplacianVariance(image(() => 128), SIZE, SIZE)).toBe(0);
+  });
+
+  it('is higher for sharp edges than for a smooth gradient', () => {
+    const gradient = laplacianVariance(image(x => x * 8), SIZE, SIZE);
+    const checkerboard = laplacianVariance(image((x, y) => ((x + y) % 2) * 255), SIZE, SIZE);
+
+    expect(checkerboard).toBeGreaterThan(gradient);
+  });
+
+  it('is zero when the image has no interior pixels', () => {
+    expect(laplacianVariance(new Float32Array(4), 2, 2)).toBe(0);
+  });
+});
+
+describe('exposureStats', () => {
+  it('reports the mean luminance', () => {
+    expect(exposureStats(image(() => 100)).mean).toBe(100);
+  });
+
+  it('counts crushed and blown pixels as clipped', () => {
+    const stats = exposureStats(image(x => (x < SIZE / 4 ? 0 : x >= SIZE - SIZE / 4 ? 255 : 128)));
+
+    expect(stats.clippedFraction).toBeCloseTo(0.5);
+  });
+
+  it('treats an empty crop as fully clipped', () => {
+    expect(exposureStats(new Float32Array(0))).toEqual({ mean: 0, clippedFraction: 1 });
+  });
+});
@@ -0,0 +1,176 @@
+import * as faceapi from 'face-api.js';
+
+export type QualityCriterion = 'sharpness' | 'exposure' | 'faceSize' | 'detectionScore' | 'eyesOpen';
+
+export interface QualityThresholds {
+  // Minimum variance of the Laplacian over the face crop
+  minSharpness: number;
+  // Allowed mean luminance range (0–255) of the face crop
+  minBrightness: number;
+  maxBrightness: number;
+  // Maximum fraction of crop pixels that are crushed to black or blown to white
+  maxClippedFraction: number;
+  // Minimum face box side relative to the shorter frame side
+  minFaceSize: number;
+  minDetectionScore: number;
+  // Minimum eye aspect ratio, averaged over both eyes
+  minEyeAspectRatio: number;
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minSharpness: 50,
+  minBrightness: 60,
+  maxBrightness: 200,
+  maxClippedFraction: 0.25,
+  minFaceSize: 0.2,
+  minDetectionScore: 0.6,
+  minEyeAspectRatio: 0.2,
+};
+
+export interface CriterionResult {
+  value: number;
+  passed: boolean;
+}
+
+export interface QualityReport {
+  criteria: Record<QualityCriterion, CriterionResult>;
+  passed: boolean;
+}
+
+export const QUALITY_CRITERIA_LABELS: Record<QualityCriterion, string> = {
+  sharpness: 'Sharpness',
+  exposure: 'Exposure',
+  faceSize: 'Face size',
+  detectionScore: 'Detection',
+  eyesOpen: 'Eyes open',
+};
+
+export const FACE_ANALYSIS_SIZE = 128;
+const CLIP_LOW = 16;
+const CLIP_HIGH = 240;
+
+const LEFT_EYE = [36, 37, 38, 39, 40, 41];
+const RIGHT_EYE = [42, 43, 44, 45, 46, 47];
+
+const distance = (a: faceapi.Point, b: faceapi.Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Soukupová & Čech eye aspect ratio: vertical eyelid distances over eye width.
+// Roughly 0.3 for an open eye and below 0.2 when closed.
+export const eyeAspectRatio = (landmarks: faceapi.FaceLandmarks68): number => {
+  const points = landmarks.positions;
+  const ear = (indices: number[]) => {
+    const [p1, p2, p3, p4, p5, p6] = indices.map(i => points[i]);
+    return (distance(p2, p6) + distance(p3, p5)) / (2 * Math.max(1, distance(p1, p4)));
+  };
+  return (ear(LEFT_EYE) + ear(RIGHT_EYE)) / 2;
+};
+
+// Draws the face box into a small fixed-size canvas and returns its luminance.
+export const faceLuminance = (source: CanvasImageSource, box: faceapi.Box): Float32Array | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = FACE_ANALYSIS_SIZE;
+  canvas.height = FACE_ANALYSIS_SIZE;
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, FACE_ANALYSIS_SIZE, FACE_ANALYSIS_SIZE);
+  const { data } = context.getImageData(0, 0, FACE_ANALYSIS_SIZE, FACE_ANALYSIS_SIZE);
+
+  const luminance = new Float32Array(FACE_ANALYSIS_SIZE * FACE_ANALYSIS_SIZE);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luminance;
+};
+
+export const laplacianVariance = (luminance: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value =
+        luminance[i - width] + luminance[i + width] + luminance[i - 1] + luminance[i + 1] - 4 * luminance[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+export const exposureStats = (luminance: Float32Array) => {
+  const histogram = new Uint32Array(256);
+  for (const value of luminance) {
+    histogram[Math.min(255, Math.max(0, Math.round(value)))]++;
+  }
+
+  let total = 0;
+  let clipped = 0;
+  for (let level = 0; level < 256; level++) {
+    total += level * histogram[level];
+    if (level < CLIP_LOW || level > CLIP_HIGH) clipped += histogram[level];
+  }
+
+  return {
+    mean: luminance.length > 0 ? total / luminance.length : 0,
+    clippedFraction: luminance.length > 0 ? clipped / luminance.length : 1,
+  };
+};
+
+export interface QualityInput {
+  box: faceapi.Box;
+  score: number;
+  landmarks: faceapi.FaceLandmarks68;
+}
+
+export const assessFaceQuality = (
+  source: CanvasImageSource,
+  frameWidth: number,
+  frameHeight: number,
+  face: QualityInput,
+  thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS
+): QualityReport => {
+  const luminance = faceLuminance(source, face.box);
+  const sharpness = luminance ? laplacianVariance(luminance, FACE_ANALYSIS_SIZE, FACE_ANALYSIS_SIZE) : 0;
+  const exposure = luminance ? exposureStats(luminance) : { mean: 0, clippedFraction: 1 };
+  const faceSize = Math.min(face.box.width, face.box.height) / Math.max(1, Math.min(frameWidth, frameHeight));
+  const ear = eyeAspectRatio(face.landmarks);
+
+  const criteria: Record<QualityCriterion, CriterionResult> = {
+    sharpness: {
+      value: sharpness,
+      passed: sharpness >= thresholds.minSharpness,
+    },
+    exposure: {
+      value: exposure.mean,
+      passed:
+        exposure.mean >= thresholds.minBrightness &&
+        exposure.mean <= thresholds.maxBrightness &&
+        exposure.clippedFraction <= thresholds.maxClippedFraction,
+    },
+    faceSize: {
+      value: faceSize,
+      passed: faceSize >= thresholds.minFaceSize,
+    },
+    detectionScore: {
+      value: face.score,
+      passed: face.score >= thresholds.minDetectionScore,
+    },
+    eyesOpen: {
+      value: ear,
+      passed: ear >= thresholds.minEyeAspectRatio,
+    },
+  };
+
+  return {
+    criteria,
+    passed: Object.values(criteria).every(criterion => criterion.passed),
+  };
+};
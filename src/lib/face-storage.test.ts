@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFaceImagePaths, createSignedUrls, removeFaceImages, uploadFaceImages } from '@/lib/face-storage';
+
+const { upload, remove, signUrls, updatePerson } = vi.hoisted(() => ({
+  upload: vi.fn(),
+  remove: vi.fn(),
+  signUrls: vi.fn(),
+  updatePerson: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    storage: { from: () => ({ upload, remove, createSignedUrls: signUrls }) },
+    from: () => ({ update: (values: unknown) => ({ eq: (_column: string, id: string) => updatePerson(id, values) }) }),
+  },
+}));
+
+const IMAGE = 'data:image/jpeg;base64,AAAA';
+const PATHS = { image_path: 'jane/1000-photo.jpg', thumbnail_path: 'jane/1000-thumbnail.jpg' };
+
+describe('face-storage', () => {
+  beforeEach(() => {
+    upload.mockReset().mockResolvedValue({ error: null });
+    remove.mockReset().mockImplementation(async (paths: string[]) => ({ data: paths.map(name => ({ name })), error: null }));
+    signUrls.mockReset();
+    updatePerson.mockReset().mockResolvedValue({ error: null });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createFaceImagePaths', () => {
+    it('names the photo and thumbnail under the person with a fresh version', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1000);
+
+      expect(createFaceImagePaths('jane')).toEqual(PATHS);
+    });
+  });
+
+  describe('uploadFaceImages', () => {
+    it('uploads the photo and thumbnail to the recorded paths', async () => {
+      await uploadFaceImages('jane', PATHS, IMAGE, IMAGE);
+
+      expect(upload).toHaveBeenCalledWith('jane/1000-photo.jpg', expect.any(Blob), { contentType: 'image/jpeg' });
+      expect(upload).toHaveBeenCalledWith('jane/1000-thumbnail.jpg', expect.any(Blob), { contentType: 'image/jpeg' });
+      expect(updatePerson).not.toHaveBeenCalled();
+    });
+
+    it('clears only the path whose upload failed, without removing anything', async () => {
+      const failure = new Error('quota exceeded');
+      upload.mockResolvedValueOnce({ error: null }).mockResolvedValueOnce({ error: failure });
+
+      await expect(uploadFaceImages('jane', PATHS, IMAGE, IMAGE)).rejects.toBe(failure);
+      expect(updatePerson).toHaveBeenCalledWith('jane', { thumbnail_path: null });
+      expect(remove).not.toHaveBeenCalled();
+    });
+
+    it('still throws the upload failure when the paths cannot be cleared', async () => {
+      const failure = new Error('quota exceeded');
+      upload.mockResolvedValue({ error: failure });
+      updatePerson.mockResolvedValueOnce({ error: new Error('permission denied') });
+
+      await expect(uploadFaceImages('jane', PATHS, IMAGE, IMAGE)).rejects.toBe(failure);
+      expect(updatePerson).toHaveBeenCalledWith('jane', { image_path: null, thumbnail_path: null });
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('removeFaceImages', () => {
+    it('skips empty paths and does nothing without any', async () => {
+      await removeFaceImages([null, undefined]);
+      expect(remove).not.toHaveBeenCalled();
+
+      await removeFaceImages(['jane/photo.jpg', null]);
+      expect(remove).toHaveBeenCalledWith(['jane/photo.jpg']);
+    });
+
+    it('warns when storage removed fewer images than asked', async () => {
+      remove.mockResolvedValueOnce({ data: [], error: null });
+
+      await removeFaceImages(['jane/photo.jpg', 'jane/thumbnail.jpg']);
+
+      expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/^2 face images were not removed/));
+    });
+  });
+
+  describe('createSignedUrls', () => {
+    it('maps each path to its signed URL, leaving out the ones that failed', async () => {
+      signUrls.mockResolvedValueOnce({
+        data: [
+          { path: 'jane/photo.jpg', signedUrl: 'https://signed/photo', error: null },
+          { path: 'gone.jpg', signedUrl: null, error: 'Object not found' },
+        ],
+        error: null,
+      });
+
+      expect(await createSignedUrls(['jane/photo.jpg', 'gone.jpg'], 60)).toEqual({ 'jane/photo.jpg': 'https://signed/photo' });
+      expect(signUrls).toHaveBeenCalledWith(['jane/photo.jpg', 'gone.jpg'], 60);
+    });
+
+    it('asks for nothing without paths and throws on errors', async () => {
+      expect(await createSignedUrls([])).toEqual({});
+      expect(signUrls).not.toHaveBeenCalled();
+
+      signUrls.mockResolvedValueOnce({ data: null, error: new Error('expired session') });
+      await expect(createSignedUrls(['jane/photo.jpg'])).rejects.toThrow('expired session');
+    });
+  });
+});
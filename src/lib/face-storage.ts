@@ -0,0 +1,97 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const FACE_IMAGES_BUCKET = 'face-images';
+
+// Signed URLs are short-lived on purpose; useSignedUrls refreshes them.
+export const SIGNED_URL_TTL_SECONDS = 300;
+
+export interface StoredFaceImages {
+  image_path: string;
+  thumbnail_path: string;
+}
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+// Each upload gets a fresh file name so a replaced photo never hides behind a
+// still-valid signed URL for the old one. The paths are chosen before the
+// person's row is written, so the row can record them ahead of the upload.
+export const createFaceImagePaths = (registrationId: string): StoredFaceImages => {
+  const version = Date.now();
+  return {
+    image_path: `${registrationId}/${version}-photo.jpg`,
+    thumbnail_path: `${registrationId}/${version}-thumbnail.jpg`,
+  };
+};
+
+// Uploads to the paths a saved row already records. Only admins may delete
+// from storage, so images are never uploaded ahead of the row they belong to;
+// an image that fails to upload is cleared from the row instead, leaving the
+// person without it rather than with a broken link. Throws after clearing.
+export const uploadFaceImages = async (
+  registrationId: string,
+  paths: StoredFaceImages,
+  photo: string,
+  thumbnail: string
+) => {
+  const bucket = supabase.storage.from(FACE_IMAGES_BUCKET);
+  const [imageUpload, thumbnailUpload] = await Promise.all([
+    bucket.upload(paths.image_path, await dataUrlToBlob(photo), { contentType: 'image/jpeg' }),
+    bucket.upload(paths.thumbnail_path, await dataUrlToBlob(thumbnail), { contentType: 'image/jpeg' }),
+  ]);
+
+  const failure = imageUpload.error ?? thumbnailUpload.error;
+  if (!failure) return;
+
+  const cleared: Partial<Record<keyof StoredFaceImages, null>> = {};
+  if (imageUpload.error) cleared.image_path = null;
+  if (thumbnailUpload.error) cleared.thumbnail_path = null;
+
+  const { error } = await supabase.from('people').update(cleared).eq('id', registrationId);
+  if (error) console.error('Error clearing face images that failed to upload:', error);
+  throw failure;
+};
+
+// Recognition snapshots live beside the enrollment photos, grouped by day
+export const uploadEventSnapshot = async (snapshot: string, occurredAt: Date): Promise<string> => {
+  const path = `events/${occurredAt.toISOString().slice(0, 10)}/${crypto.randomUUID()}.jpg`;
+  const { error } = await supabase.storage
+    .from(FACE_IMAGES_BUCKET)
+    .upload(path, await dataUrlToBlob(snapshot), { contentType: 'image/jpeg' });
+
+  if (error) throw error;
+  return path;
+};
+
+export const removeFaceImages = async (paths: (string | null | undefined)[]) => {
+  const existing = paths.filter((path): path is string => !!path);
+  if (existing.length === 0) return;
+
+  const { data, error } = await supabase.storage.from(FACE_IMAGES_BUCKET).remove(existing);
+  if (error) console.error('Error removing face images:', error);
+  // Storage skips objects the policies do not let this user delete
+  else if (data.length < existing.length) {
+    console.warn(`${existing.length - data.length} face images were not removed; removing them needs the Admin role`);
+  }
+};
+
+export const createSignedUrls = async (
+  paths: string[],
+  expiresIn = SIGNED_URL_TTL_SECONDS
+): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(FACE_IMAGES_BUCKET)
+    .createSignedUrls(paths, expiresIn);
+
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || [])
+      .filter(entry => entry.path && entry.signedUrl)
+      .map(entry => [entry.path, entry.signedUrl])
+  );
+};
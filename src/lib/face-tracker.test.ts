@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { boxIou, createFaceTracker, TrackBox, TrackDetection } from '@/lib/face-tracker';
+import { FaceMatch, UNKNOWN_LABEL } from '@/lib/face-matcher';
+
+const box = (x: number, y = 0, size = 100): TrackBox => ({ x, y, width: size, height: size });
+
+const descriptor = (offset: number) => {
+  const values = new Float32Array(128);
+  values[0] = offset;
+  return values;
+};
+
+const known = (name: string, confidence = 80): FaceMatch => ({
+  label: name,
+  personId: name.toLowerCase(),
+  distance: 0.3,
+  confidence,
+  isKnown: true,
+});
+
+const unknown: FaceMatch = { label: UNKNOWN_LABEL, personId: null, distance: Infinity, confidence: 0, isKnown: false };
+
+const detection = (x: number, match: FaceMatch, offset = 0): TrackDetection => ({
+  box: box(x),
+  descriptor: descriptor(offset),
+  match,
+});
+
+describe('boxIou', () => {
+  it('is 1 for identical boxes and 0 for disjoint ones', () => {
+    expect(boxIou(box(0), box(0))).toBe(1);
+    expect(boxIou(box(0), box(200))).toBe(0);
+  });
+
+  it('divides the overlap by the combined area', () => {
+    expect(boxIou(box(0), box(50))).toBeCloseTo(5000 / 15000);
+  });
+});
+
+describe('createFaceTracker', () => {
+  it('keeps the same id while a face moves and announces it once confirmed', () => {
+    const tracker = createFaceTracker({ minFramesToConfirm: 3 });
+
+    const first = tracker.update([detection(0, known('Ada'))], 0);
+    const second = tracker.update([detection(10, known('Ada'))], 100);
+    const third = tracker.update([detection(20, known('Ada'))], 200);
+
+    expect(first.events).toEqual([]);
+    expect(second.tracks[0].id).toBe(first.tracks[0].id);
+    expect(third.events).toMatchObject([{ type: 'enter', trackId: first.tracks[0].id, identity: { label: 'Ada' } }]);
+    expect(third.tracks[0]).toMatchObject({ confirmed: true, frames: 3, box: box(20) });
+  });
+
+  it('follows a face that jumped by its descriptor', () => {
+    const tracker = createFaceTracker();
+
+    const first = tracker.update([detection(0, known('Ada'))], 0);
+    const second = tracker.update([detection(500, known('Ada'), 0.1)], 100);
+
+    expect(second.tracks).toHaveLength(1);
+    expect(second.tracks[0].id).toBe(first.tracks[0].id);
+  });
+
+  it('opens separate tracks for faces that neither overlap nor look alike', () => {
+    const tracker = createFaceTracker();
+
+    const { tracks } = tracker.update([detection(0, known('Ada')), detection(500, known('Bob'), 2)], 0);
+
+    expect(new Set(tracks.map(track => track.id)).size).toBe(2);
+    expect(tracks.map(track => track.detectionIndex)).toEqual([0, 1]);
+  });
+
+  it('closes a confirmed track with a leave event once it has been missing too long', () => {
+    const tracker = createFaceTracker({ minFramesToConfirm: 1, maxMissingMs: 1000 });
+
+    const { tracks } = tracker.update([detection(0, known('Ada'))], 0);
+    expect(tracker.update([], 1000).events).toEqual([]);
+
+    const { tracks: remaining, events } = tracker.update([], 1001);
+    expect(remaining).toEqual([]);
+    expect(events).toMatchObject([{ type: 'leave', trackId: tracks[0].id, identity: { label: 'Ada' } }]);
+  });
+
+  it('drops unconfirmed tracks without a leave event', () => {
+    const tracker = createFaceTracker({ minFramesToConfirm: 3, maxMissingMs: 1000 });
+
+    tracker.update([detection(0, known('Ada'))], 0);
+
+    expect(tracker.update([], 2000)).toEqual({ tracks: [], events: [] });
+  });
+
+  it('names the track after the majority of its recent frames', () => {
+    const tracker = createFaceTracker({ voteWindow: 5 });
+
+    tracker.update([detection(0, known('Ada', 80))], 0);
+    tracker.update([detection(0, known('Ada', 60))], 100);
+    const { tracks } = tracker.update([detection(0, known('Bob'))], 200);
+
+    expect(tracks[0].identity).toEqual({ label: 'Ada', personId: 'ada', isKnown: true, confidence: 70 });
+  });
+
+  it('lets unknown frames outvote a brief resemblance', () => {
+    const tracker = createFaceTracker();
+
+    tracker.update([detection(0, unknown)], 0);
+    tracker.update([detection(0, unknown)], 100);
+    const { tracks } = tracker.update([detection(0, known('Ada'))], 200);
+
+    expect(tracks[0].identity).toMatchObject({ label: UNKNOWN_LABEL, isKnown: false });
+  });
+
+  it('keeps the identity through frames that could not be matched', () => {
+    const tracker = createFaceTracker({ voteWindow: 2 });
+
+    tracker.update([detection(0, known('Ada'))], 0);
+    tracker.update([{ ...detection(10, unknown), match: null }], 100);
+    const { tracks } = tracker.update([{ ...detection(20, unknown), match: null }], 200);
+
+    expect(tracks[0]).toMatchObject({ frames: 3, box: box(20), identity: { label: 'Ada', isKnown: true } });
+  });
+
+  it('breaks a tie in favour of the latest vote', () => {
+    const tracker = createFaceTracker();
+
+    tracker.update([detection(0, known('Ada'))], 0);
+    const { tracks } = tracker.update([detection(0, known('Bob'))], 100);
+
+    expect(tracks[0].identity.label).toBe('Bob');
+  });
+
+  it('closes every confirmed track on reset', () => {
+    const tracker = createFaceTracker({ minFramesToConfirm: 1 });
+
+    tracker.update([detection(0, known('Ada')), detection(500, unknown, 2)], 0);
+    const events = tracker.reset(50);
+
+    expect(events.map(event => event.type)).toEqual(['leave', 'leave']);
+    expect(tracker.update([], 100).tracks).toEqual([]);
+  });
+});
@@ -0,0 +1,244 @@
+import * as faceapi from 'face-api.js';
+import { FaceMatch, UNKNOWN_LABEL } from '@/lib/face-matcher';
+
+export interface TrackBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TrackDetection {
+  box: TrackBox;
+  descriptor: Float32Array;
+  // Null when the frame could not be matched; the detection still moves its
+  // track but casts no vote on who it is
+  match: FaceMatch | null;
+}
+
+export interface TrackIdentity {
+  label: string;
+  personId: string | null;
+  isKnown: boolean;
+  // Mean confidence of the frames that voted for this identity
+  confidence: number;
+}
+
+export interface FaceTrack {
+  id: string;
+  box: TrackBox;
+  // The detection this track was matched to in the latest frame
+  detectionIndex: number | null;
+  identity: TrackIdentity;
+  // True once the track has been seen long enough to announce
+  confirmed: boolean;
+  firstSeen: number;
+  lastSeen: number;
+  frames: number;
+}
+
+export type TrackEventType = 'enter' | 'leave';
+
+export interface TrackEvent {
+  type: TrackEventType;
+  trackId: string;
+  identity: TrackIdentity;
+  timestamp: number;
+}
+
+export interface FaceTrackerOptions {
+  // Minimum box overlap for a detection to continue a track on position alone
+  minIou?: number;
+  // Descriptor distance under which a detection continues a track even when
+  // the boxes do not overlap (fast movement, dropped frames)
+  maxDescriptorDistance?: number;
+  // Frames a track needs before it is announced with an enter event
+  minFramesToConfirm?: number;
+  // Unseen tracks are closed with a leave event after this long
+  maxMissingMs?: number;
+  // Number of recent frames that vote on a track's identity
+  voteWindow?: number;
+}
+
+const DEFAULT_MIN_IOU = 0.3;
+const DEFAULT_MAX_DESCRIPTOR_DISTANCE = 0.5;
+const DEFAULT_MIN_FRAMES_TO_CONFIRM = 3;
+const DEFAULT_MAX_MISSING_MS = 2000;
+const DEFAULT_VOTE_WINDOW = 7;
+// Weight of the newest descriptor in a track's running average
+const DESCRIPTOR_SMOOTHING = 0.3;
+
+interface Vote {
+  label: string;
+  personId: string | null;
+  isKnown: boolean;
+  confidence: number;
+}
+
+interface TrackState {
+  track: FaceTrack;
+  descriptor: Float32Array;
+  votes: Vote[];
+}
+
+export const boxIou = (a: TrackBox, b: TrackBox): number => {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Most frequent label in the window; ties go to the label voted most recently.
+// Unknown frames vote too, so a stranger who briefly resembles someone is not
+// promoted to them on a single frame.
+const majorityIdentity = (votes: Vote[]): TrackIdentity => {
+  const tally = new Map<string, { count: number; last: number; confidence: number; vote: Vote }>();
+  votes.forEach((vote, index) => {
+    const key = vote.isKnown ? `${vote.personId ?? ''}:${vote.label}` : UNKNOWN_LABEL;
+    const entry = tally.get(key);
+    if (entry) {
+      entry.count++;
+      entry.last = index;
+      entry.confidence += vote.confidence;
+      entry.vote = vote;
+    } else {
+      tally.set(key, { count: 1, last: index, confidence: vote.confidence, vote });
+    }
+  });
+
+  let best: { count: number; last: number; confidence: number; vote: Vote } | null = null;
+  for (const entry of tally.values()) {
+    if (!best || entry.count > best.count || (entry.count === best.count && entry.last > best.last)) {
+      best = entry;
+    }
+  }
+
+  if (!best) return { label: UNKNOWN_LABEL, personId: null, isKnown: false, confidence: 0 };
+  return {
+    label: best.vote.label,
+    personId: best.vote.personId,
+    isKnown: best.vote.isKnown,
+    confidence: best.confidence / best.count,
+  };
+};
+
+const blendDescriptor = (previous: Float32Array, next: Float32Array) => {
+  const blended = new Float32Array(previous.length);
+  for (let i = 0; i < previous.length; i++) {
+    blended[i] = previous[i] * (1 - DESCRIPTOR_SMOOTHING) + next[i] * DESCRIPTOR_SMOOTHING;
+  }
+  return blended;
+};
+
+// Associates each frame's detections with persistent tracks. Candidate pairs
+// need either enough box overlap or a close descriptor; they are then matched
+// greedily, best combined score first. Identity is a majority vote over the
+// track's recent frames rather than the latest frame alone.
+export const createFaceTracker = (options: FaceTrackerOptions = {}) => {
+  const minIou = options.minIou ?? DEFAULT_MIN_IOU;
+  const maxDescriptorDistance = options.maxDescriptorDistance ?? DEFAULT_MAX_DESCRIPTOR_DISTANCE;
+  const minFramesToConfirm = options.minFramesToConfirm ?? DEFAULT_MIN_FRAMES_TO_CONFIRM;
+  const maxMissingMs = options.maxMissingMs ?? DEFAULT_MAX_MISSING_MS;
+  const voteWindow = options.voteWindow ?? DEFAULT_VOTE_WINDOW;
+
+  let tracks: TrackState[] = [];
+  let nextId = 1;
+
+  const update = (detections: TrackDetection[], timestamp: number) => {
+    const events: TrackEvent[] = [];
+    const pairs: { track: number; detection: number; score: number }[] = [];
+
+    tracks.forEach((state, trackIndex) => {
+      detections.forEach((detection, detectionIndex) => {
+        const iou = boxIou(state.track.box, detection.box);
+        const distance = faceapi.euclideanDistance(state.descriptor, detection.descriptor);
+        if (iou < minIou && distance >= maxDescriptorDistance) return;
+
+        const similarity = Math.max(0, 1 - distance / maxDescriptorDistance);
+        pairs.push({ track: trackIndex, detection: detectionIndex, score: iou + similarity });
+      });
+    });
+    pairs.sort((a, b) => b.score - a.score);
+
+    const usedTracks = new Set<number>();
+    const assigned = new Map<number, number>();
+    for (const pair of pairs) {
+      if (usedTracks.has(pair.track) || assigned.has(pair.detection)) continue;
+      usedTracks.add(pair.track);
+      assigned.set(pair.detection, pair.track);
+    }
+
+    for (const state of tracks) state.track.detectionIndex = null;
+
+    detections.forEach((detection, detectionIndex) => {
+      const { match } = detection;
+      const votes: Vote[] = match
+        ? [{ label: match.label, personId: match.personId, isKnown: match.isKnown, confidence: match.confidence }]
+        : [];
+      const trackIndex = assigned.get(detectionIndex);
+
+      if (trackIndex === undefined) {
+        tracks.push({
+          track: {
+            id: `track-${nextId++}`,
+            box: detection.box,
+            detectionIndex,
+            identity: majorityIdentity(votes),
+            confirmed: false,
+            firstSeen: timestamp,
+            lastSeen: timestamp,
+            frames: 1,
+          },
+          descriptor: detection.descriptor,
+          votes,
+        });
+        return;
+      }
+
+      const state = tracks[trackIndex];
+      state.votes = [...state.votes, ...votes].slice(-voteWindow);
+      state.descriptor = blendDescriptor(state.descriptor, detection.descriptor);
+      state.track = {
+        ...state.track,
+        box: detection.box,
+        detectionIndex,
+        identity: majorityIdentity(state.votes),
+        lastSeen: timestamp,
+        frames: state.track.frames + 1,
+      };
+    });
+
+    for (const state of tracks) {
+      if (!state.track.confirmed && state.track.frames >= minFramesToConfirm) {
+        state.track.confirmed = true;
+        events.push({ type: 'enter', trackId: state.track.id, identity: state.track.identity, timestamp });
+      }
+    }
+
+    tracks = tracks.filter(state => {
+      if (timestamp - state.track.lastSeen <= maxMissingMs) return true;
+      if (state.track.confirmed) {
+        events.push({ type: 'leave', trackId: state.track.id, identity: state.track.identity, timestamp });
+      }
+      return false;
+    });
+
+    return { tracks: tracks.map(state => state.track), events };
+  };
+
+  // Closes every open track, e.g. when the camera stops
+  const reset = (timestamp: number): TrackEvent[] => {
+    const events = tracks
+      .filter(state => state.track.confirmed)
+      .map(state => ({ type: 'leave' as const, trackId: state.track.id, identity: state.track.identity, timestamp }));
+    tracks = [];
+    return events;
+  };
+
+  return { update, reset };
+};
+
+export type FaceTracker = ReturnType<typeof createFaceTracker>;
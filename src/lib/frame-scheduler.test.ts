@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFrameScheduler } from '@/lib/frame-scheduler';
+
+const deferred = () => {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe('createFrameScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for a slow frame instead of starting another', async () => {
+    let frame = deferred();
+    const processFrame = vi.fn(() => frame.promise);
+    const scheduler = createFrameScheduler(processFrame);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(processFrame).toHaveBeenCalledTimes(1);
+
+    const finished = frame;
+    frame = deferred();
+    finished.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(processFrame).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it('keeps the starts of two frames at least the minimum interval apart', async () => {
+    // Each frame takes 30ms
+    const processFrame = vi.fn(() => new Promise<void>(done => setTimeout(done, 30)));
+    const scheduler = createFrameScheduler(processFrame, { minIntervalMs: 100 });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(99);
+    expect(processFrame).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(processFrame).toHaveBeenCalledTimes(2);
+
+    // The next frame follows the one in flight as soon as it finishes
+    scheduler.setMinIntervalMs(0);
+    await vi.advanceTimersByTimeAsync(40);
+    expect(processFrame).toHaveBeenCalledTimes(3);
+    scheduler.stop();
+  });
+
+  it('runs no more frames once stopped', async () => {
+    const processFrame = vi.fn(async () => {});
+    const scheduler = createFrameScheduler(processFrame, { minIntervalMs: 100 });
+
+    scheduler.start();
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(processFrame).toHaveBeenCalledTimes(1);
+    expect(scheduler.isActive()).toBe(false);
+  });
+
+  it('resumes from a frame still in flight when restarted', async () => {
+    const frame = deferred();
+    const processFrame = vi.fn(() => frame.promise);
+    const scheduler = createFrameScheduler(processFrame);
+
+    scheduler.start();
+    scheduler.stop();
+    scheduler.start();
+    expect(processFrame).toHaveBeenCalledTimes(1);
+
+    frame.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(processFrame).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it('reports a failed frame and carries on', async () => {
+    const error = new Error('detector failed');
+    const processFrame = vi.fn().mockRejectedValueOnce(error).mockResolvedValue(undefined);
+    const onError = vi.fn();
+    const scheduler = createFrameScheduler(processFrame, { minIntervalMs: 100, onError });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(processFrame).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+});
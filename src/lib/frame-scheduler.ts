@@ -0,0 +1,64 @@
+export interface FrameSchedulerOptions {
+  // Lower bound on the time between the starts of two frames
+  minIntervalMs?: number;
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_MIN_INTERVAL_MS = 0;
+
+// Runs an async frame task in a loop with at most one frame in flight. The
+// next frame is only scheduled once the previous one has finished, so a slow
+// frame delays the loop instead of piling up calls behind it, and nothing is
+// ever queued: the frame that runs next is read from the source when it starts.
+export const createFrameScheduler = (
+  processFrame: () => Promise<void>,
+  options: FrameSchedulerOptions = {}
+) => {
+  let minIntervalMs = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+  const onError = options.onError ?? (error => console.error('Error processing frame:', error));
+
+  let active = false;
+  let inFlight = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const run = async () => {
+    timer = null;
+    inFlight = true;
+    const startedAt = performance.now();
+    try {
+      await processFrame();
+    } catch (error) {
+      onError(error);
+    } finally {
+      inFlight = false;
+    }
+
+    if (!active) return;
+    const elapsed = performance.now() - startedAt;
+    timer = setTimeout(run, Math.max(0, minIntervalMs - elapsed));
+  };
+
+  const start = () => {
+    if (active) return;
+    active = true;
+    // A frame still finishing from before stop() picks the loop back up
+    if (!inFlight) run();
+  };
+
+  const stop = () => {
+    active = false;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  // Takes effect from the next frame
+  const setMinIntervalMs = (intervalMs: number) => {
+    minIntervalMs = intervalMs;
+  };
+
+  return { start, stop, setMinIntervalMs, isActive: () => active };
+};
+
+export type FrameScheduler = ReturnType<typeof createFrameScheduler>;
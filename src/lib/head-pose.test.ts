@@ -0,0 +1,51 @@
+import * as faceapi from 'face-api.js';
+import { describe, expect, it } from 'vitest';
+import { estimateHeadPose, HeadPose, matchesPose } from '@/lib/head-pose';
+
+// A 100x100 face: jaw from x=0 to x=100 at y=50, eyes at y=40, chin at y=100
+const landmarksWithNoseAt = (x: number, y: number) => {
+  const points = Array.from({ length: 68 }, () => new faceapi.Point(0.5, 0.4));
+  points[0] = new faceapi.Point(0, 0.5);
+  points[16] = new faceapi.Point(1, 0.5);
+  points[8] = new faceapi.Point(0.5, 1);
+  points[30] = new faceapi.Point(x / 100, y / 100);
+  return new faceapi.FaceLandmarks68(points, { width: 100, height: 100 });
+};
+
+describe('estimateHeadPose', () => {
+  it('measures yaw from the jaw midline and pitch from the eye line', () => {
+    const pose = estimateHeadPose(landmarksWithNoseAt(60, 70));
+
+    expect(pose.yaw).toBeCloseTo(0.1);
+    expect(pose.pitch).toBeCloseTo(0.5);
+  });
+
+  it('reports a centred nose as zero yaw', () => {
+    expect(estimateHeadPose(landmarksWithNoseAt(50, 70)).yaw).toBeCloseTo(0);
+  });
+});
+
+describe('matchesPose', () => {
+  const baseline: HeadPose = { yaw: 0.02, pitch: 0.5 };
+
+  it('accepts a frontal pose only when the head is nearly straight', () => {
+    expect(matchesPose({ yaw: 0.03, pitch: 0.5 }, 'frontal', null)).toBe(true);
+    expect(matchesPose({ yaw: 0.1, pitch: 0.5 }, 'frontal', null)).toBe(false);
+  });
+
+  it('measures turns against the baseline', () => {
+    expect(matchesPose({ yaw: 0.15, pitch: 0.5 }, 'left', baseline)).toBe(true);
+    expect(matchesPose({ yaw: -0.1, pitch: 0.5 }, 'right', baseline)).toBe(true);
+    expect(matchesPose({ yaw: 0.15, pitch: 0.5 }, 'right', baseline)).toBe(false);
+  });
+
+  it('rejects turns too far to keep the face recognizable', () => {
+    expect(matchesPose({ yaw: 0.5, pitch: 0.5 }, 'left', baseline)).toBe(false);
+  });
+
+  it('needs a baseline before judging tilts', () => {
+    expect(matchesPose({ yaw: 0, pitch: 0.4 }, 'up', null)).toBe(false);
+    expect(matchesPose({ yaw: 0, pitch: 0.4 }, 'up', baseline)).toBe(true);
+    expect(matchesPose({ yaw: 0, pitch: 0.6 }, 'down', baseline)).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import * as faceapi from 'face-api.js';
+
+export type PoseId = 'frontal' | 'left' | 'right' | 'up' | 'down';
+
+export interface HeadPose {
+  // Horizontal nose offset from the jaw midline, as a fraction of jaw width.
+  // Positive when the nose moves towards the right edge of the image.
+  yaw: number;
+  // Vertical nose position between the eye line (0) and the chin (1).
+  pitch: number;
+}
+
+export interface EnrollmentPose {
+  id: PoseId;
+  label: string;
+  instruction: string;
+}
+
+// Frontal goes first so it can serve as the per-person baseline for the
+// other poses, and last so the mean descriptor is weighted towards frontal.
+export const ENROLLMENT_POSES: EnrollmentPose[] = [
+  { id: 'frontal', label: 'Frontal', instruction: 'Look straight at the camera' },
+  { id: 'left', label: 'Left', instruction: 'Turn your head slightly to your left' },
+  { id: 'right', label: 'Right', instruction: 'Turn your head slightly to your right' },
+  { id: 'up', label: 'Up', instruction: 'Tilt your head slightly up' },
+  { id: 'down', label: 'Down', instruction: 'Tilt your head slightly down' },
+  { id: 'frontal', label: 'Frontal', instruction: 'Look straight at the camera again' },
+];
+
+const FRONTAL_MAX_YAW = 0.06;
+const TURN_MIN_YAW = 0.08;
+const TURN_MAX_YAW = 0.3;
+const TILT_MIN_PITCH = 0.05;
+const TILT_MAX_PITCH = 0.2;
+
+const JAW_LEFT = 0;
+const JAW_RIGHT = 16;
+const CHIN = 8;
+const NOSE_TIP = 30;
+const LEFT_EYE = [36, 37, 38, 39, 40, 41];
+const RIGHT_EYE = [42, 43, 44, 45, 46, 47];
+
+const meanY = (points: faceapi.Point[], indices: number[]) =>
+  indices.reduce((sum, i) => sum + points[i].y, 0) / indices.length;
+
+// A rough yaw/pitch estimate from the 68-point landmarks. It is not a true 3D
+// head pose, but it is stable enough to tell "turned" from "frontal".
+export const estimateHeadPose = (landmarks: faceapi.FaceLandmarks68): HeadPose => {
+  const points = landmarks.positions;
+  const jawLeft = points[JAW_LEFT];
+  const jawRight = points[JAW_RIGHT];
+  const nose = points[NOSE_TIP];
+  const chin = points[CHIN];
+
+  const jawWidth = Math.max(1, jawRight.x - jawLeft.x);
+  const jawMidX = (jawLeft.x + jawRight.x) / 2;
+  const eyeLineY = (meanY(points, LEFT_EYE) + meanY(points, RIGHT_EYE)) / 2;
+  const faceHeight = Math.max(1, chin.y - eyeLineY);
+
+  return {
+    yaw: (nose.x - jawMidX) / jawWidth,
+    pitch: (nose.y - eyeLineY) / faceHeight,
+  };
+};
+
+// The video is not mirrored, so a person turning to their own left moves their
+// nose towards the right of the image. Turns and tilts are measured relative
+// to the person's own frontal baseline once one has been captured.
+export const matchesPose = (pose: HeadPose, target: PoseId, baseline: HeadPose | null): boolean => {
+  const reference = baseline ?? { yaw: 0, pitch: pose.pitch };
+  const yaw = pose.yaw - reference.yaw;
+  const pitch = pose.pitch - reference.pitch;
+
+  switch (target) {
+    case 'frontal':
+      return Math.abs(pose.yaw) < FRONTAL_MAX_YAW;
+    case 'left':
+      return yaw > TURN_MIN_YAW && yaw < TURN_MAX_YAW;
+    case 'right':
+      return -yaw > TURN_MIN_YAW && -yaw < TURN_MAX_YAW;
+    case 'up':
+      return baseline !== null && -pitch > TILT_MIN_PITCH && -pitch < TILT_MAX_PITCH;
+    case 'down':
+      return baseline !== null && pitch > TILT_MIN_PITCH && pitch < TILT_MAX_PITCH;
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,95 @@
+import * as faceapi from 'face-api.js';
+import { describe, expect, it } from 'vitest';
+import { createLivenessSession, LivenessFrame, moireScore } from '@/lib/liveness';
+
+// A 100x100 face with the jaw across the full width and a mouth of the given width
+const landmarks = (mouthWidth = 20) => {
+  const points = Array.from({ length: 68 }, (_, i) => new faceapi.Point(0.2 + (i % 10) * 0.06, 0.2 + Math.floor(i / 10) * 0.08));
+  points[0] = new faceapi.Point(0, 0.5);
+  points[16] = new faceapi.Point(1, 0.5);
+  points[48] = new faceapi.Point((50 - mouthWidth / 2) / 100, 0.8);
+  points[54] = new faceapi.Point((50 + mouthWidth / 2) / 100, 0.8);
+  return new faceapi.FaceLandmarks68(points, { width: 100, height: 100 });
+};
+
+const frame = (timestamp: number, mouthWidth?: number, moire = 0): LivenessFrame => ({
+  landmarks: landmarks(mouthWidth),
+  moire,
+  timestamp,
+});
+
+const clock = (start = 0) => {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+};
+
+describe('createLivenessSession', () => {
+  it('starts the challenge timer on the first face frame', () => {
+    const time = clock();
+    const session = createLivenessSession({ mode: 'active', challenge: 'smile', now: time.now });
+
+    time.advance(60000);
+    expect(session.addFrame(frame(time.now())).status).toBe('pending');
+
+    time.advance(11000);
+    expect(session.addFrame(frame(time.now())).status).toBe('spoof');
+  });
+
+  it('passes the smile challenge when the mouth widens', () => {
+    const time = clock();
+    const session = createLivenessSession({ mode: 'active', challenge: 'smile', now: time.now });
+
+    session.addFrame(frame(0, 20));
+    expect(session.addFrame(frame(100, 30))).toEqual({ status: 'live', mode: 'active', challenge: 'smile' });
+  });
+
+  it('keeps a settled verdict until reset', () => {
+    const time = clock();
+    const session = createLivenessSession({ mode: 'active', challenge: 'smile', now: time.now });
+
+    session.addFrame(frame(0, 20));
+    session.addFrame(frame(100, 30));
+    expect(session.addFrame(frame(200, 20)).status).toBe('live');
+
+    session.reset();
+    expect(session.verdict().status).toBe('pending');
+  });
+
+  it('asks a still face to move in passive mode', () => {
+    const session = createLivenessSession({ mode: 'passive' });
+
+    let verdict = session.verdict();
+    for (let i = 0; i < 10; i++) verdict = session.addFrame(frame(i * 100));
+
+    expect(verdict).toEqual({ status: 'pending', mode: 'passive', reason: 'Move your head slightly' });
+  });
+
+  it('rejects screen texture in passive mode', () => {
+    const session = createLivenessSession({ mode: 'passive' });
+
+    let verdict = session.verdict();
+    for (let i = 0; i < 6; i++) verdict = session.addFrame(frame(i * 100, 20, 0.9));
+
+    expect(verdict.status).toBe('spoof');
+  });
+});
+
+describe('moireScore', () => {
+  const SIZE = 32;
+
+  it('is zero for a flat crop', () => {
+    expect(moireScore(new Float32Array(SIZE * SIZE).fill(128), SIZE, SIZE)).toBe(0);
+  });
+
+  it('is high for a periodic stripe pattern', () => {
+    const stripes = new Float32Array(SIZE * SIZE);
+    for (let i = 0; i < stripes.length; i++) stripes[i] = (i % SIZE) % 4 < 2 ? 0 : 255;
+
+    expect(moireScore(stripes, SIZE, SIZE)).toBeGreaterThan(0.35);
+  });
+});
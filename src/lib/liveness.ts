@@ -0,0 +1,277 @@
+import * as faceapi from 'face-api.js';
+import { eyeAspectRatio, FACE_ANALYSIS_SIZE, faceLuminance } from '@/lib/face-quality';
+import { estimateHeadPose } from '@/lib/head-pose';
+
+export type LivenessMode = 'passive' | 'active';
+export type LivenessChallenge = 'blink' | 'turn_head' | 'smile';
+export type LivenessStatus = 'pending' | 'live' | 'spoof';
+
+export interface LivenessVerdict {
+  status: LivenessStatus;
+  mode: LivenessMode;
+  challenge?: LivenessChallenge;
+  // Human-readable hint for pending/spoof verdicts
+  reason?: string;
+}
+
+export interface LivenessFrame {
+  landmarks: faceapi.FaceLandmarks68;
+  // Periodicity of the face crop's fine texture, see moireScore
+  moire: number;
+  timestamp: number;
+}
+
+export const LIVENESS_CHALLENGE_INSTRUCTIONS: Record<LivenessChallenge, string> = {
+  blink: 'Blink your eyes',
+  turn_head: 'Turn your head to one side',
+  smile: 'Smile',
+};
+
+const CHALLENGES: LivenessChallenge[] = ['blink', 'turn_head', 'smile'];
+
+const MAX_FRAMES = 60;
+const MIN_PASSIVE_FRAMES = 6;
+const CHALLENGE_TIMEOUT_MS = 10000;
+
+// Screens and prints re-photographed by a webcam show a regular fine pattern
+const MAX_MOIRE = 0.35;
+// Mean landmark displacement (in inter-ocular distances) that counts as motion
+const MIN_MOTION = 0.03;
+// Non-affine landmark residual (in inter-ocular distances) a 3D face produces
+// when it moves; a flat photo moves as a (near) affine transform
+const MIN_PARALLAX = 0.015;
+const MIN_MOVING_FRAMES = 3;
+
+const EYE_CLOSED = 0.18;
+const EYE_OPEN = 0.22;
+const MIN_TURN = 0.12;
+const MIN_SMILE_GAIN = 0.12;
+
+const LEFT_EYE_OUTER = 36;
+const RIGHT_EYE_OUTER = 45;
+const MOUTH_LEFT = 48;
+const MOUTH_RIGHT = 54;
+const JAW_LEFT = 0;
+const JAW_RIGHT = 16;
+
+const distance = (a: faceapi.Point, b: faceapi.Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const interOcular = (points: faceapi.Point[]) =>
+  Math.max(1, distance(points[LEFT_EYE_OUTER], points[RIGHT_EYE_OUTER]));
+
+const mouthWidthRatio = (landmarks: faceapi.FaceLandmarks68) => {
+  const points = landmarks.positions;
+  return distance(points[MOUTH_LEFT], points[MOUTH_RIGHT]) /
+    Math.max(1, distance(points[JAW_LEFT], points[JAW_RIGHT]));
+};
+
+// Normalized autocorrelation of the second derivative along rows and columns at
+// short lags. Skin texture is close to uncorrelated; a re-captured screen or
+// print has periodic peaks.
+export const moireScore = (luminance: Float32Array, width: number, height: number): number => {
+  const correlationAt = (stride: number, step: number, count: number, lines: number, lag: number) => {
+    let product = 0;
+    let energy = 0;
+    for (let line = 0; line < lines; line++) {
+      const base = line * stride;
+      for (let i = 1; i < count - 1 - lag; i++) {
+        const d0 = luminance[base + (i - 1) * step] - 2 * luminance[base + i * step] + luminance[base + (i + 1) * step];
+        const j = i + lag;
+        const d1 = luminance[base + (j - 1) * step] - 2 * luminance[base + j * step] + luminance[base + (j + 1) * step];
+        product += d0 * d1;
+        energy += d0 * d0;
+      }
+    }
+    return energy > 0 ? product / energy : 0;
+  };
+
+  let peak = 0;
+  for (let lag = 2; lag <= 8; lag++) {
+    peak = Math.max(
+      peak,
+      correlationAt(width, 1, width, height, lag),
+      correlationAt(1, width, height, width, lag)
+    );
+  }
+  return peak;
+};
+
+export const measureMoire = (source: CanvasImageSource, box: faceapi.Box): number => {
+  const luminance = faceLuminance(source, box);
+  return luminance ? moireScore(luminance, FACE_ANALYSIS_SIZE, FACE_ANALYSIS_SIZE) : 0;
+};
+
+// Least-squares affine fit from one landmark set to the next; returns the RMS
+// residual. A rigid flat object (photo, phone) is explained almost entirely by
+// an affine transform, a real head turning in 3D is not.
+const affineResidual = (from: faceapi.Point[], to: faceapi.Point[]): number => {
+  let sxx = 0, sxy = 0, syy = 0, sx = 0, sy = 0;
+  const n = from.length;
+  for (const p of from) {
+    sxx += p.x * p.x; sxy += p.x * p.y; syy += p.y * p.y; sx += p.x; sy += p.y;
+  }
+  const normal = [[sxx, sxy, sx], [sxy, syy, sy], [sx, sy, n]];
+
+  const det3 = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+  const det = det3(normal);
+  if (Math.abs(det) < 1e-9) return 0;
+
+  const solve = (target: number[]) =>
+    [0, 1, 2].map(col => det3(normal.map((row, r) => row.map((value, c) => (c === col ? target[r] : value)))) / det);
+
+  const rhs = (pick: (p: faceapi.Point) => number) => {
+    let a = 0, b = 0, c = 0;
+    from.forEach((p, i) => {
+      a += p.x * pick(to[i]); b += p.y * pick(to[i]); c += pick(to[i]);
+    });
+    return [a, b, c];
+  };
+
+  const [ax, bx, cx] = solve(rhs(p => p.x));
+  const [ay, by, cy] = solve(rhs(p => p.y));
+
+  let squared = 0;
+  from.forEach((p, i) => {
+    const dx = ax * p.x + bx * p.y + cx - to[i].x;
+    const dy = ay * p.x + by * p.y + cy - to[i].y;
+    squared += dx * dx + dy * dy;
+  });
+  return Math.sqrt(squared / n);
+};
+
+const passiveVerdict = (frames: LivenessFrame[]): LivenessVerdict => {
+  if (frames.length < MIN_PASSIVE_FRAMES) {
+    return { status: 'pending', mode: 'passive', reason: 'Collecting frames' };
+  }
+
+  const meanMoire = frames.reduce((sum, frame) => sum + frame.moire, 0) / frames.length;
+  if (meanMoire > MAX_MOIRE) {
+    return { status: 'spoof', mode: 'passive', reason: 'Screen or print texture detected' };
+  }
+
+  let movingFrames = 0;
+  let parallaxFrames = 0;
+  for (let i = 1; i < frames.length; i++) {
+    const from = frames[i - 1].landmarks.positions;
+    const to = frames[i].landmarks.positions;
+    const scale = interOcular(from);
+    const motion = from.reduce((sum, p, j) => sum + distance(p, to[j]), 0) / from.length / scale;
+    if (motion < MIN_MOTION) continue;
+
+    movingFrames++;
+    if (affineResidual(from, to) / scale >= MIN_PARALLAX) parallaxFrames++;
+  }
+
+  if (movingFrames < MIN_MOVING_FRAMES) {
+    return { status: 'pending', mode: 'passive', reason: 'Move your head slightly' };
+  }
+
+  return parallaxFrames * 2 >= movingFrames
+    ? { status: 'live', mode: 'passive' }
+    : { status: 'spoof', mode: 'passive', reason: 'Face moves like a flat image' };
+};
+
+const challengeCompleted = (challenge: LivenessChallenge, frames: LivenessFrame[]): boolean => {
+  const first = frames[0];
+  if (!first) return false;
+
+  switch (challenge) {
+    case 'blink': {
+      // open → closed → open
+      let stage = 0;
+      for (const frame of frames) {
+        const ear = eyeAspectRatio(frame.landmarks);
+        if (stage === 0 && ear >= EYE_OPEN) stage = 1;
+        else if (stage === 1 && ear <= EYE_CLOSED) stage = 2;
+        else if (stage === 2 && ear >= EYE_OPEN) return true;
+      }
+      return false;
+    }
+    case 'turn_head': {
+      const startYaw = estimateHeadPose(first.landmarks).yaw;
+      return frames.some(frame => Math.abs(estimateHeadPose(frame.landmarks).yaw - startYaw) >= MIN_TURN);
+    }
+    case 'smile': {
+      const startWidth = mouthWidthRatio(first.landmarks);
+      return frames.some(frame => mouthWidthRatio(frame.landmarks) >= startWidth * (1 + MIN_SMILE_GAIN));
+    }
+    default:
+      return false;
+  }
+};
+
+export interface LivenessSessionOptions {
+  mode: LivenessMode;
+  // Fixes the active challenge instead of picking one at random
+  challenge?: LivenessChallenge;
+  now?: () => number;
+}
+
+// Accumulates landmark frames for a single face and turns them into a
+// liveness verdict. Once a session reaches "live" or "spoof" it stays there
+// until reset().
+export const createLivenessSession = (options: LivenessSessionOptions) => {
+  const now = options.now ?? Date.now;
+  const pickChallenge = () =>
+    options.challenge ?? CHALLENGES[Math.floor(Math.random() * CHALLENGES.length)];
+
+  let frames: LivenessFrame[] = [];
+  let challenge = pickChallenge();
+  // The challenge clock starts with the first face frame, so someone who
+  // takes a while to step into view still gets the full time
+  let startedAt: number | null = null;
+  let settled: LivenessVerdict | null = null;
+
+  const evaluate = (): LivenessVerdict => {
+    if (options.mode === 'passive') return passiveVerdict(frames);
+
+    const meanMoire = frames.length > 0
+      ? frames.reduce((sum, frame) => sum + frame.moire, 0) / frames.length
+      : 0;
+    if (frames.length >= MIN_PASSIVE_FRAMES && meanMoire > MAX_MOIRE) {
+      return { status: 'spoof', mode: 'active', challenge, reason: 'Screen or print texture detected' };
+    }
+    if (challengeCompleted(challenge, frames)) {
+      return { status: 'live', mode: 'active', challenge };
+    }
+    if (startedAt !== null && now() - startedAt > CHALLENGE_TIMEOUT_MS) {
+      return { status: 'spoof', mode: 'active', challenge, reason: 'Challenge not completed in time' };
+    }
+    return { status: 'pending', mode: 'active', challenge, reason: LIVENESS_CHALLENGE_INSTRUCTIONS[challenge] };
+  };
+
+  const addFrame = (frame: LivenessFrame): LivenessVerdict => {
+    if (settled) return settled;
+
+    startedAt ??= now();
+    frames = [...frames, frame].slice(-MAX_FRAMES);
+    const verdict = evaluate();
+    if (verdict.status !== 'pending') settled = verdict;
+    return verdict;
+  };
+
+  const verdict = (): LivenessVerdict => settled ?? evaluate();
+
+  const reset = () => {
+    frames = [];
+    challenge = pickChallenge();
+    startedAt = null;
+    settled = null;
+  };
+
+  return {
+    mode: options.mode,
+    get challenge() {
+      return challenge;
+    },
+    addFrame,
+    verdict,
+    reset,
+  };
+};
+
+export type LivenessSession = ReturnType<typeof createLivenessSession>;
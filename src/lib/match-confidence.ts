@@ -0,0 +1,15 @@
+// Shared by the app and the reference server in /server, so this module may
+// only import packages, never app code.
+
+// Maps a descriptor distance to a 0–100 confidence. A perfect match is 100,
+// a distance exactly on the threshold is 50 and confidence falls linearly to 0
+// at twice the threshold, so "known" faces always score above 50.
+export const distanceToConfidence = (distance: number, threshold: number): number => {
+  if (threshold <= 0) return 0;
+
+  const confidence = distance <= threshold
+    ? 50 + 50 * (1 - distance / threshold)
+    : 50 * (1 - (distance - threshold) / threshold);
+
+  return Math.min(100, Math.max(0, confidence));
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { formatTimecode, MediaTimeline, timelineToCsv } from '@/lib/media-recognition';
+
+describe('formatTimecode', () => {
+  it('shows minutes, seconds and tenths, adding hours only when needed', () => {
+    expect(formatTimecode(0)).toBe('00:00.0');
+    expect(formatTimecode(65_450)).toBe('01:05.4');
+    expect(formatTimecode(3_725_000)).toBe('1:02:05.0');
+  });
+});
+
+describe('timelineToCsv', () => {
+  it('writes one row per entry, leaving times blank for image batches', () => {
+    const timeline: MediaTimeline = {
+      source: 'lobby',
+      kind: 'images',
+      sampling: 1,
+      framesProcessed: 2,
+      cancelled: false,
+      entries: [{
+        trackId: 'track-1',
+        personId: null,
+        name: 'Unknown',
+        isKnown: false,
+        confidence: 0,
+        start: { index: 0, timeMs: null, label: 'a.jpg' },
+        end: { index: 1, timeMs: null, label: 'b, c.jpg' },
+        frames: 2,
+      }],
+    };
+
+    expect(timelineToCsv(timeline).split('\r\n')).toEqual([
+      'name,person_id,known,confidence,start,end,start_ms,end_ms,frames',
+      'Unknown,,no,0.0,a.jpg,"b, c.jpg",,,2',
+    ]);
+  });
+});
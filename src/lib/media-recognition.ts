@@ -0,0 +1,252 @@
+import { FaceSample } from '@/lib/face-descriptors';
+import { FrameSource } from '@/lib/face-detector';
+import { FaceMatcher } from '@/lib/face-matcher';
+import { createFaceTracker, FaceTrack, FaceTrackerOptions } from '@/lib/face-tracker';
+import { toCsv } from '@/lib/csv';
+
+export type MediaKind = 'video' | 'images';
+
+export interface MediaFrame {
+  index: number;
+  // Position in the video; null for image batches
+  timeMs: number | null;
+  // Timecode for video frames, file name for images
+  label: string;
+}
+
+// One continuous appearance of a face, from the first to the last frame its
+// track was seen in
+export interface TimelineEntry {
+  trackId: string;
+  personId: string | null;
+  name: string;
+  isKnown: boolean;
+  confidence: number;
+  start: MediaFrame;
+  end: MediaFrame;
+  frames: number;
+}
+
+export interface MediaTimeline {
+  source: string;
+  kind: MediaKind;
+  // Frames per second for video, every n-th file for images
+  sampling: number;
+  framesProcessed: number;
+  cancelled: boolean;
+  entries: TimelineEntry[];
+}
+
+export interface MediaRecognitionOptions {
+  detect: (source: FrameSource) => Promise<FaceSample[]>;
+  matcher: FaceMatcher;
+  signal?: AbortSignal;
+  onProgress?: (processed: number, total: number, entries: TimelineEntry[]) => void;
+}
+
+export const DEFAULT_VIDEO_SAMPLING_FPS = 2;
+export const DEFAULT_IMAGE_STEP = 1;
+
+// Image batches have no clock, so each file is one second apart for the
+// tracker: a face missing from a single file still continues its track
+const IMAGE_SPACING_MS = 1000;
+const IMAGE_TRACKER_OPTIONS: FaceTrackerOptions = { minFramesToConfirm: 1, maxMissingMs: IMAGE_SPACING_MS * 2 };
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+export const formatTimecode = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const seconds = totalSeconds % 60;
+  const tenths = Math.floor((ms % 1000) / 100);
+  return `${hours > 0 ? `${hours}:${pad(minutes)}` : pad(minutes)}:${pad(seconds)}.${tenths}`;
+};
+
+// Feeds sampled frames through the same tracker as the live view and keeps
+// the latest state of every confirmed track as a timeline entry
+const createTimelineBuilder = (matcher: FaceMatcher, trackerOptions: FaceTrackerOptions) => {
+  const tracker = createFaceTracker(trackerOptions);
+  const framesByTimestamp = new Map<number, MediaFrame>();
+  const entries = new Map<string, TimelineEntry>();
+
+  const toEntry = (track: FaceTrack): TimelineEntry => ({
+    trackId: track.id,
+    personId: track.identity.personId,
+    name: track.identity.label,
+    isKnown: track.identity.isKnown,
+    confidence: track.identity.confidence,
+    start: framesByTimestamp.get(track.firstSeen),
+    end: framesByTimestamp.get(track.lastSeen),
+    frames: track.frames,
+  });
+
+  const addFrame = (frame: MediaFrame, timestamp: number, samples: FaceSample[]) => {
+    framesByTimestamp.set(timestamp, frame);
+    const { tracks } = tracker.update(
+      samples.map(sample => ({
+        box: { x: sample.box.x, y: sample.box.y, width: sample.box.width, height: sample.box.height },
+        descriptor: sample.descriptor,
+        match: matcher.match(sample.descriptor),
+      })),
+      timestamp
+    );
+
+    for (const track of tracks) {
+      if (track.confirmed) entries.set(track.id, toEntry(track));
+    }
+  };
+
+  const getEntries = () =>
+    Array.from(entries.values()).sort((a, b) => a.start.index - b.start.index);
+
+  return { addFrame, getEntries };
+};
+
+const waitForEvent = (target: HTMLMediaElement, type: 'loadedmetadata' | 'seeked') =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(type, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(target.error?.message || 'The video could not be decoded'));
+    };
+    target.addEventListener(type, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+// Seeks through the video at the sampling rate instead of playing it, so
+// every sampled frame is processed no matter how long detection takes
+export const recognizeVideo = async (
+  file: File,
+  samplingFps: number,
+  options: MediaRecognitionOptions
+): Promise<MediaTimeline> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitForEvent(video, 'loadedmetadata');
+    video.src = url;
+    await loaded;
+
+    if (!Number.isFinite(video.duration)) {
+      throw new Error('The video does not report its length and cannot be sampled');
+    }
+
+    const intervalMs = 1000 / samplingFps;
+    const total = Math.floor((video.duration * 1000) / intervalMs) + 1;
+    const builder = createTimelineBuilder(options.matcher, {
+      // Sampled frames can be far apart, so tracks must survive a few gaps
+      minFramesToConfirm: 2,
+      maxMissingMs: Math.max(2000, intervalMs * 3),
+    });
+
+    let processed = 0;
+    for (; processed < total && !options.signal?.aborted; processed++) {
+      const timeMs = processed * intervalMs;
+      const seeked = waitForEvent(video, 'seeked');
+      video.currentTime = Math.min(timeMs / 1000, video.duration);
+      await seeked;
+
+      builder.addFrame(
+        { index: processed, timeMs, label: formatTimecode(timeMs) },
+        timeMs,
+        await options.detect(video)
+      );
+      options.onProgress?.(processed + 1, total, builder.getEntries());
+    }
+
+    return {
+      source: file.name,
+      kind: 'video',
+      sampling: samplingFps,
+      framesProcessed: processed,
+      cancelled: processed < total,
+      entries: builder.getEntries(),
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+const loadImage = async (file: File) => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Files are taken in name order, which is how exported frame sequences and
+// camera rolls are numbered
+export const recognizeImages = async (
+  files: File[],
+  step: number,
+  options: MediaRecognitionOptions
+): Promise<MediaTimeline> => {
+  const sampled = files
+    .filter(file => file.type.startsWith('image/'))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+    .filter((_, index) => index % step === 0);
+  const builder = createTimelineBuilder(options.matcher, IMAGE_TRACKER_OPTIONS);
+
+  let processed = 0;
+  for (; processed < sampled.length && !options.signal?.aborted; processed++) {
+    const file = sampled[processed];
+    let samples: FaceSample[] = [];
+    try {
+      samples = await options.detect(await loadImage(file));
+    } catch (error) {
+      // One unreadable file should not end the batch
+      console.error(`Error processing ${file.name}:`, error);
+    }
+
+    builder.addFrame({ index: processed, timeMs: null, label: file.name }, processed * IMAGE_SPACING_MS, samples);
+    options.onProgress?.(processed + 1, sampled.length, builder.getEntries());
+  }
+
+  const folder = files[0]?.webkitRelativePath.split('/')[0];
+  return {
+    source: folder || `${sampled.length} images`,
+    kind: 'images',
+    sampling: step,
+    framesProcessed: processed,
+    cancelled: processed < sampled.length,
+    entries: builder.getEntries(),
+  };
+};
+
+export const timelineToJson = (timeline: MediaTimeline): string =>
+  JSON.stringify({ ...timeline, generatedAt: new Date().toISOString() }, null, 2);
+
+export const timelineToCsv = (timeline: MediaTimeline): string => {
+  const header = ['name', 'person_id', 'known', 'confidence', 'start', 'end', 'start_ms', 'end_ms', 'frames'];
+  const rows = timeline.entries.map(entry => [
+    entry.name,
+    entry.personId ?? '',
+    entry.isKnown ? 'yes' : 'no',
+    entry.confidence.toFixed(1),
+    entry.start.label,
+    entry.end.label,
+    entry.start.timeMs?.toFixed(0) ?? '',
+    entry.end.timeMs?.toFixed(0) ?? '',
+    entry.frames.toString(),
+  ]);
+
+  return toCsv([header, ...rows]);
+};
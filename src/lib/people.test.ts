@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  addFaceSamples,
+  detailsFromDraft,
+  draftFromDetails,
+  EMPTY_DETAILS_DRAFT,
+  EMPTY_PEOPLE_FILTER,
+  filterPeople,
+  mergeDetails,
+  mergePeople,
+  parseTags,
+  PersonDetails,
+  profileFromRecord,
+  replaceFaceSamples,
+  validateDetails,
+} from '@/lib/people';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { rpc } }));
+
+const person = (details: Partial<PersonDetails>): PersonDetails => ({
+  name: 'Jane Doe',
+  external_id: null,
+  department: null,
+  title: null,
+  email: null,
+  tags: [],
+  notes: null,
+  ...details,
+});
+
+describe('parseTags', () => {
+  it('splits on commas and semicolons, trims and removes duplicates', () => {
+    expect(parseTags(' night shift;visitor, night shift,, ')).toEqual(['night shift', 'visitor']);
+  });
+});
+
+describe('detailsFromDraft', () => {
+  it('trims fields and stores blanks as null', () => {
+    const details = detailsFromDraft({ ...EMPTY_DETAILS_DRAFT, name: ' Jane ', department: '  ', tags: 'a, b' });
+
+    expect(details).toEqual(person({ name: 'Jane', tags: ['a', 'b'] }));
+  });
+
+  it('round-trips through draftFromDetails', () => {
+    const details = person({ email: 'jane@example.com', tags: ['a', 'b'] });
+
+    expect(detailsFromDraft(draftFromDetails(details))).toEqual(details);
+  });
+});
+
+describe('validateDetails', () => {
+  it('requires a name and a well-formed email', () => {
+    expect(validateDetails(person({ name: '' }))).toBe('Name is required.');
+    expect(validateDetails(person({ email: 'jane@' }))).toBe('Email address is not valid.');
+    expect(validateDetails(person({ email: 'jane@example.com' }))).toBeNull();
+  });
+});
+
+describe('profileFromRecord', () => {
+  it('maps known CSV columns, including their aliases, and keeps the rest as metadata', () => {
+    const { profile, metadata } = profileFromRecord({
+      employee_id: 'E-7',
+      role: 'Engineer',
+      tags: 'a;b',
+      badge: '42',
+    });
+
+    expect(profile).toEqual({
+      external_id: 'E-7',
+      department: null,
+      title: 'Engineer',
+      email: null,
+      tags: ['a', 'b'],
+      notes: null,
+    });
+    expect(metadata).toEqual({ badge: '42' });
+  });
+});
+
+describe('filterPeople', () => {
+  const people = [
+    person({ name: 'Jane Doe', department: 'Sales', tags: ['visitor'] }),
+    person({ name: 'John Roe', department: 'Support', external_id: 'E-9' }),
+  ];
+
+  it('matches the query against names, ids and tags', () => {
+    expect(filterPeople(people, { ...EMPTY_PEOPLE_FILTER, query: 'e-9' }).map(p => p.name)).toEqual(['John Roe']);
+    expect(filterPeople(people, { ...EMPTY_PEOPLE_FILTER, query: 'VISIT' }).map(p => p.name)).toEqual(['Jane Doe']);
+  });
+
+  it('combines the department and tag filters', () => {
+    expect(filterPeople(people, { ...EMPTY_PEOPLE_FILTER, department: 'Sales', tag: 'visitor' })).toHaveLength(1);
+    expect(filterPeople(people, { ...EMPTY_PEOPLE_FILTER, department: 'Support', tag: 'visitor' })).toHaveLength(0);
+  });
+});
+
+describe('mergeDetails', () => {
+  it('prefers incoming fields, falls back to the first existing value and combines tags', () => {
+    const merged = mergeDetails(
+      [person({ department: 'Sales', tags: ['a'] }), person({ department: 'Support', title: 'Lead', tags: ['b'] })],
+      person({ name: 'Jane D.', title: 'Manager', tags: ['a', 'c'] })
+    );
+
+    expect(merged).toEqual(person({
+      name: 'Jane D.',
+      department: 'Sales',
+      title: 'Manager',
+      tags: ['a', 'b', 'c'],
+    }));
+  });
+});
+
+describe('addFaceSamples', () => {
+  it('adds the samples and refreshes the mean in a single call', async () => {
+    rpc.mockResolvedValueOnce({ error: null });
+
+    await addFaceSamples('jane', [{ descriptor: new Float32Array([0.5]), source: 'legacy' }]);
+
+    expect(rpc).toHaveBeenCalledWith('add_face_samples', {
+      target_person_id: 'jane',
+      new_samples: [{ person_id: 'jane', descriptor: [0.5], pose: null, source: 'legacy' }],
+    });
+  });
+});
+
+describe('replaceFaceSamples', () => {
+  it('swaps the samples in a single call', async () => {
+    rpc.mockResolvedValueOnce({ error: null });
+
+    await replaceFaceSamples('jane', [{ descriptor: new Float32Array([0.5]), pose: 'left', source: 'camera' }]);
+
+    expect(rpc).toHaveBeenCalledWith('replace_face_samples', {
+      target_person_id: 'jane',
+      new_samples: [{ person_id: 'jane', descriptor: [0.5], pose: 'left', source: 'camera' }],
+    });
+  });
+
+  it('throws when the transaction fails', async () => {
+    rpc.mockResolvedValueOnce({ error: new Error('permission denied') });
+
+    await expect(replaceFaceSamples('jane', [])).rejects.toThrow('permission denied');
+  });
+});
+
+describe('mergePeople', () => {
+  it('merges the people, their samples and the new samples in a single call', async () => {
+    rpc.mockResolvedValueOnce({ error: null });
+    const details = person({ department: 'Sales' });
+
+    await mergePeople('jane', ['jane-2'], details, [{ descriptor: new Float32Array([0.5]), source: 'upload' }]);
+
+    expect(rpc).toHaveBeenCalledWith('merge_people', {
+      target_person_id: 'jane',
+      other_person_ids: ['jane-2'],
+      details,
+      new_samples: [{ person_id: 'jane', descriptor: [0.5], pose: null, source: 'upload' }],
+    });
+  });
+});
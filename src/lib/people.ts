@@ -0,0 +1,195 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { descriptorToArray } from '@/lib/face-descriptors';
+
+export type SampleSource = 'camera' | 'upload' | 'import' | 'legacy';
+
+export interface PersonProfile {
+  external_id: string | null;
+  department: string | null;
+  title: string | null;
+  email: string | null;
+  tags: string[];
+  notes: string | null;
+}
+
+export interface PersonDetails extends PersonProfile {
+  name: string;
+}
+
+// Form state for PersonDetails: every field is free text, tags comma-separated
+export type PersonDetailsDraft = Record<keyof PersonDetails, string>;
+
+export const EMPTY_DETAILS_DRAFT: PersonDetailsDraft = {
+  name: '',
+  external_id: '',
+  department: '',
+  title: '',
+  email: '',
+  tags: '',
+  notes: '',
+};
+
+export interface NewFaceSample {
+  descriptor: Float32Array;
+  pose?: string | null;
+  source: SampleSource;
+}
+
+export interface PeopleFilter {
+  query: string;
+  department: string | null;
+  tag: string | null;
+}
+
+export const EMPTY_PEOPLE_FILTER: PeopleFilter = { query: '', department: null, tag: null };
+
+// List columns, with the sample count embedded from face_samples
+export const PERSON_COLUMNS =
+  'id, name, external_id, department, title, email, tags, notes, face_descriptor, image_path, thumbnail_path, created_at, face_samples(count)';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const nullIfBlank = (value: string | undefined) => value?.trim() || null;
+
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,;]/).map(tag => tag.trim()).filter(Boolean)));
+
+export const detailsFromDraft = (draft: PersonDetailsDraft): PersonDetails => ({
+  name: draft.name.trim(),
+  external_id: nullIfBlank(draft.external_id),
+  department: nullIfBlank(draft.department),
+  title: nullIfBlank(draft.title),
+  email: nullIfBlank(draft.email),
+  tags: parseTags(draft.tags),
+  notes: nullIfBlank(draft.notes),
+});
+
+export const draftFromDetails = (details: PersonDetails): PersonDetailsDraft => ({
+  name: details.name,
+  external_id: details.external_id ?? '',
+  department: details.department ?? '',
+  title: details.title ?? '',
+  email: details.email ?? '',
+  tags: details.tags.join(', '),
+  notes: details.notes ?? '',
+});
+
+// Returns a message for the first invalid field, or null
+export const validateDetails = (details: PersonDetails): string | null => {
+  if (!details.name) return 'Name is required.';
+  if (details.email && !EMAIL_PATTERN.test(details.email)) return 'Email address is not valid.';
+  return null;
+};
+
+// Maps the recognised roster CSV columns onto profile fields; anything else
+// stays behind as free-form metadata.
+export const profileFromRecord = (record: Record<string, string>) => {
+  const {
+    external_id, employee_id, department, title, role, email, tags, notes,
+    ...metadata
+  } = record;
+
+  const profile: PersonProfile = {
+    external_id: nullIfBlank(external_id || employee_id),
+    department: nullIfBlank(department),
+    title: nullIfBlank(title || role),
+    email: nullIfBlank(email),
+    tags: parseTags(tags || ''),
+    notes: nullIfBlank(notes),
+  };
+  return { profile, metadata };
+};
+
+export const filterPeople = <T extends PersonDetails>(people: T[], { query, department, tag }: PeopleFilter): T[] => {
+  const needle = query.trim().toLowerCase();
+
+  return people.filter(person => {
+    if (department && person.department !== department) return false;
+    if (tag && !person.tags.includes(tag)) return false;
+    if (!needle) return true;
+
+    return [person.name, person.external_id, person.title, person.email, person.notes, ...person.tags]
+      .some(value => value?.toLowerCase().includes(needle));
+  });
+};
+
+// Unique-violation on people_external_id_key
+export const isDuplicateExternalIdError = (error: unknown) =>
+  (error as { code?: string } | null)?.code === '23505';
+
+export const toFaceSampleRows = (personId: string, samples: NewFaceSample[]): TablesInsert<'face_samples'>[] =>
+  samples.map(sample => ({
+    person_id: personId,
+    descriptor: descriptorToArray(sample.descriptor),
+    pose: sample.pose ?? null,
+    source: sample.source,
+  }));
+
+// New people and their samples are stored in one transaction, so a failure
+// leaves neither behind
+export const enrollPeople = async (
+  people: TablesInsert<'people'>[],
+  samples: TablesInsert<'face_samples'>[]
+) => {
+  const { error } = await supabase.rpc('enroll_people', { new_people: people, new_samples: samples });
+
+  if (error) throw error;
+};
+
+// Stores the samples and the recomputed mean in one transaction
+export const addFaceSamples = async (personId: string, samples: NewFaceSample[]) => {
+  const { error } = await supabase.rpc('add_face_samples', {
+    target_person_id: personId,
+    new_samples: toFaceSampleRows(personId, samples),
+  });
+
+  if (error) throw error;
+};
+
+// Swaps every stored sample for the new ones and recomputes the mean in one
+// transaction, so the person is never left without samples
+export const replaceFaceSamples = async (personId: string, samples: NewFaceSample[]) => {
+  const { error } = await supabase.rpc('replace_face_samples', {
+    target_person_id: personId,
+    new_samples: toFaceSampleRows(personId, samples),
+  });
+
+  if (error) throw error;
+};
+
+// Moves the others' samples to the target, deletes the others and stores the
+// merged details and the new samples, all in one transaction
+export const mergePeople = async (
+  targetId: string,
+  otherIds: string[],
+  details: PersonDetails,
+  samples: NewFaceSample[]
+) => {
+  const { error } = await supabase.rpc('merge_people', {
+    target_person_id: targetId,
+    other_person_ids: otherIds,
+    details: { ...details },
+    new_samples: toFaceSampleRows(targetId, samples),
+  });
+
+  if (error) throw error;
+};
+
+// Profile for several records that turned out to be the same person: filled-in
+// incoming fields win, otherwise the first existing value is kept, and tags
+// are combined.
+export const mergeDetails = (existing: PersonDetails[], incoming: PersonDetails): PersonDetails => {
+  const pick = (key: 'external_id' | 'department' | 'title' | 'email' | 'notes') =>
+    incoming[key] ?? existing.find(person => person[key])?.[key] ?? null;
+
+  return {
+    name: incoming.name,
+    external_id: pick('external_id'),
+    department: pick('department'),
+    title: pick('title'),
+    email: pick('email'),
+    tags: Array.from(new Set([...existing.flatMap(person => person.tags), ...incoming.tags])),
+    notes: pick('notes'),
+  };
+};
@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay, createRecognitionClient, RecognitionClientOptions } from '@/lib/recognition-client';
+import { ClientMessage, CLOSE_UNAUTHORIZED, createMessage, ServerMessage } from '@/lib/recognition-protocol';
+
+class FakeSocket {
+  static readonly OPEN = 1;
+  static instances: FakeSocket[] = [];
+
+  readyState = 0;
+  sent: ClientMessage[] = [];
+  onopen: () => void = () => {};
+  onmessage: (event: { data: string }) => void = () => {};
+  onclose: (event: { code: number; reason: string }) => void = () => {};
+  onerror: () => void = () => {};
+
+  constructor(readonly url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code = 1000, reason = '') {
+    this.readyState = 3;
+    this.onclose({ code, reason });
+  }
+
+  // Opens the socket and answers the hello with a welcome
+  accept() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen();
+    this.receive(createMessage({
+      type: 'welcome',
+      replyTo: this.sent[0].id,
+      sessionId: `session-${FakeSocket.instances.length}`,
+      serverName: 'test',
+      capabilities: ['frame_results', 'match'],
+      heartbeatIntervalMs: 1000,
+    }));
+  }
+
+  receive(message: ServerMessage) {
+    this.onmessage({ data: JSON.stringify(message) });
+  }
+}
+
+const latestSocket = () => FakeSocket.instances[FakeSocket.instances.length - 1];
+
+const createClient = (options: Partial<RecognitionClientOptions> = {}) => createRecognitionClient({
+  url: 'ws://recognition.test',
+  token: null,
+  clientId: 'browser-1',
+  getSourceId: () => 'door',
+  capabilities: ['frame_results', 'match'],
+  ...options,
+});
+
+const heartbeat = () => createMessage({ type: 'heartbeat' });
+
+describe('backoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the bound with each attempt up to the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect([0, 1, 2, 5, 10].map(attempt => backoffDelay(attempt, 1000, 30000))).toEqual([1000, 2000, 4000, 30000, 30000]);
+  });
+
+  it('picks a random delay below the bound', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.25);
+
+    expect(backoffDelay(2, 1000, 30000)).toBe(1000);
+  });
+});
+
+describe('createRecognitionClient', () => {
+  beforeEach(() => {
+    FakeSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeSocket);
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('introduces itself and reports the session once welcomed', () => {
+    const client = createClient({ token: 'secret' });
+
+    client.connect();
+    expect(client.getState().status).toBe('connecting');
+    latestSocket().accept();
+
+    expect(latestSocket().sent[0]).toMatchObject({ type: 'hello', clientId: 'browser-1', sourceId: 'door', token: 'secret' });
+    expect(client.getState()).toMatchObject({ status: 'connected', sessionId: 'session-1' });
+    client.disconnect();
+  });
+
+  it('queues messages while offline, dropping the oldest, and flushes them after the welcome', () => {
+    const client = createClient({ maxQueueSize: 2 });
+    const messages = [heartbeat(), heartbeat(), heartbeat()];
+
+    expect(client.send(messages[0])).toBe(true);
+    expect(client.send(messages[1])).toBe(true);
+    expect(client.send(messages[2])).toBe(false);
+    expect(client.getState().metrics).toMatchObject({ queued: 2, dropped: 1 });
+
+    client.connect();
+    latestSocket().accept();
+
+    expect(latestSocket().sent.slice(1).map(message => message.id)).toEqual([messages[1].id, messages[2].id]);
+    expect(client.getState().metrics.queued).toBe(0);
+    client.disconnect();
+  });
+
+  it('reconnects with growing delays after the connection drops', () => {
+    const client = createClient({ initialBackoffMs: 100 });
+
+    client.connect();
+    latestSocket().close(1006);
+    expect(client.getState().metrics.retryInMs).toBe(100);
+    vi.advanceTimersByTime(100);
+    expect(FakeSocket.instances).toHaveLength(2);
+
+    latestSocket().close(1006);
+    expect(client.getState().metrics.retryInMs).toBe(200);
+    vi.advanceTimersByTime(200);
+    latestSocket().accept();
+
+    // A welcome resets the backoff
+    latestSocket().close(1006);
+    expect(client.getState().metrics.retryInMs).toBe(100);
+    client.disconnect();
+  });
+
+  it('counts reconnects after the first session', () => {
+    const client = createClient({ initialBackoffMs: 100 });
+
+    client.connect();
+    latestSocket().accept();
+    latestSocket().close(1006);
+    vi.advanceTimersByTime(100);
+    latestSocket().accept();
+
+    expect(client.getState().metrics.reconnects).toBe(1);
+    client.disconnect();
+  });
+
+  it('gives up when the server rejects the token', () => {
+    const client = createClient();
+
+    client.connect();
+    latestSocket().close(CLOSE_UNAUTHORIZED, 'Invalid token');
+    vi.advanceTimersByTime(60000);
+
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(client.getState().metrics).toMatchObject({ lastError: 'Invalid token', retryInMs: null });
+  });
+
+  it('does not reconnect after disconnect', () => {
+    const client = createClient();
+
+    client.connect();
+    latestSocket().accept();
+    client.disconnect();
+    vi.advanceTimersByTime(60000);
+
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(client.getState().status).toBe('disconnected');
+  });
+
+  it('closes a connection that stops answering heartbeats', () => {
+    const client = createClient({ maxMissedHeartbeats: 2 });
+
+    client.connect();
+    latestSocket().accept();
+    vi.advanceTimersByTime(2000);
+    expect(latestSocket().sent.filter(message => message.type === 'heartbeat')).toHaveLength(2);
+
+    vi.advanceTimersByTime(1000);
+    expect(latestSocket().readyState).toBe(3);
+    expect(client.getState().status).toBe('disconnected');
+    client.disconnect();
+  });
+
+  describe('request', () => {
+    const matchRequest = () => createMessage({ type: 'match_request', threshold: null, faces: [] });
+
+    it('resolves with the reply to the request', async () => {
+      const client = createClient();
+      client.connect();
+      latestSocket().accept();
+
+      const message = matchRequest();
+      const reply = client.request(message);
+      const response = createMessage({ type: 'match_response', replyTo: message.id, matches: [] });
+      latestSocket().receive(response);
+
+      await expect(reply).resolves.toEqual(response);
+      client.disconnect();
+    });
+
+    it('rejects when the server answers with an error', async () => {
+      const client = createClient();
+      client.connect();
+      latestSocket().accept();
+
+      const message = matchRequest();
+      const reply = client.request(message);
+      latestSocket().receive(createMessage({
+        type: 'error',
+        replyTo: message.id,
+        code: 'internal',
+        message: 'Gallery unavailable',
+        fatal: false,
+      }));
+
+      await expect(reply).rejects.toThrow('internal: Gallery unavailable');
+      client.disconnect();
+    });
+
+    it('is never queued', async () => {
+      const client = createClient();
+
+      await expect(client.request(matchRequest())).rejects.toThrow('not connected');
+      expect(client.getState().metrics.queued).toBe(0);
+    });
+
+    it('times out or fails with the connection', async () => {
+      const client = createClient();
+      client.connect();
+      latestSocket().accept();
+
+      const late = client.request(matchRequest(), 500);
+      vi.advanceTimersByTime(500);
+      await expect(late).rejects.toThrow('did not answer in time');
+
+      const lost = client.request(matchRequest());
+      latestSocket().close(1006);
+      await expect(lost).rejects.toThrow('was lost');
+      client.disconnect();
+    });
+  });
+});
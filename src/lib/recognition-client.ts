@@ -0,0 +1,334 @@
+import {
+  Capability,
+  ClientMessage,
+  CLOSE_UNAUTHORIZED,
+  CLOSE_UNSUPPORTED_VERSION,
+  createMessage,
+  parseServerMessage,
+  ServerMessage,
+} from '@/lib/recognition-protocol';
+
+export type RecognitionClientStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface RecognitionClientMetrics {
+  // Successful sessions after the first one
+  reconnects: number;
+  sent: number;
+  // Messages waiting for the next session
+  queued: number;
+  // Messages dropped because the queue was full
+  dropped: number;
+  // Round trip of the latest heartbeat
+  rttMs: number | null;
+  connectedAt: number | null;
+  // Delay before the next connection attempt, when one is scheduled
+  retryInMs: number | null;
+  lastError: string | null;
+}
+
+export interface RecognitionClientState {
+  status: RecognitionClientStatus;
+  sessionId: string | null;
+  serverCapabilities: Capability[];
+  metrics: RecognitionClientMetrics;
+}
+
+export interface RecognitionClientOptions {
+  url: string;
+  token: string | null;
+  clientId: string;
+  // Read when each session starts, so it follows camera switches
+  getSourceId: () => string;
+  capabilities: Capability[];
+  onMessage?: (message: ServerMessage) => void;
+  maxQueueSize?: number;
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  // Heartbeats that can go unanswered before the connection is presumed dead
+  maxMissedHeartbeats?: number;
+}
+
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 30000;
+const DEFAULT_MAX_MISSED_HEARTBEATS = 2;
+// Used until the server announces its own interval
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15000;
+// Client-side close code for a connection that stopped answering heartbeats
+const CLOSE_HEARTBEAT_TIMEOUT = 4100;
+export const DEFAULT_REQUEST_TIMEOUT_MS = 2000;
+
+interface PendingRequest {
+  resolve: (reply: ServerMessage) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const INITIAL_METRICS: RecognitionClientMetrics = {
+  reconnects: 0,
+  sent: 0,
+  queued: 0,
+  dropped: 0,
+  rttMs: null,
+  connectedAt: null,
+  retryInMs: null,
+  lastError: null,
+};
+
+// "Full jitter": a random delay up to the exponential bound, so clients that
+// lost the server at the same moment do not reconnect in lockstep
+export const backoffDelay = (attempt: number, initialMs: number, maxMs: number) =>
+  Math.round(Math.random() * Math.min(maxMs, initialMs * 2 ** attempt));
+
+// One WebSocket session at a time to a recognition server. Messages sent
+// while there is no session wait in a bounded queue, oldest dropped first, and
+// are flushed once the next session has been welcomed. Lost connections are
+// retried with exponential backoff until disconnect() is called; a rejected
+// token or protocol version is not retried.
+export const createRecognitionClient = (options: RecognitionClientOptions) => {
+  const maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+  const initialBackoffMs = options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+  const maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+  const maxMissedHeartbeats = options.maxMissedHeartbeats ?? DEFAULT_MAX_MISSED_HEARTBEATS;
+
+  const listeners = new Set<() => void>();
+  let state: RecognitionClientState = {
+    status: 'disconnected',
+    sessionId: null,
+    serverCapabilities: [],
+    metrics: INITIAL_METRICS,
+  };
+  let socket: WebSocket | null = null;
+  let queue: ClientMessage[] = [];
+  let attempt = 0;
+  let hasConnected = false;
+  // False once disconnect() is called; nothing reconnects until connect()
+  let wanted = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // Heartbeats sent and not yet acknowledged, by message id
+  const pendingHeartbeats = new Map<string, number>();
+  const pendingRequests = new Map<string, PendingRequest>();
+
+  const setState = (next: Partial<RecognitionClientState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const setMetrics = (next: Partial<RecognitionClientMetrics>) => {
+    setState({ metrics: { ...state.metrics, ...next } });
+  };
+
+  const transmit = (message: ClientMessage) => {
+    socket.send(JSON.stringify(message));
+    setMetrics({ sent: state.metrics.sent + 1 });
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+    pendingHeartbeats.clear();
+  };
+
+  const startHeartbeat = (intervalMs: number) => {
+    stopHeartbeat();
+    heartbeatTimer = setInterval(() => {
+      if (pendingHeartbeats.size >= maxMissedHeartbeats) {
+        socket?.close(CLOSE_HEARTBEAT_TIMEOUT, 'Heartbeat timeout');
+        return;
+      }
+      const heartbeat = createMessage({ type: 'heartbeat' });
+      pendingHeartbeats.set(heartbeat.id, performance.now());
+      transmit(heartbeat);
+    }, intervalMs);
+  };
+
+  const settleRequest = (id: string, settle: (pending: PendingRequest) => void) => {
+    const pending = pendingRequests.get(id);
+    if (!pending) return false;
+    pendingRequests.delete(id);
+    clearTimeout(pending.timer);
+    settle(pending);
+    return true;
+  };
+
+  const rejectPendingRequests = (reason: string) => {
+    for (const id of Array.from(pendingRequests.keys())) {
+      settleRequest(id, pending => pending.reject(new Error(reason)));
+    }
+  };
+
+  const flushQueue = () => {
+    const pending = queue;
+    queue = [];
+    pending.forEach(transmit);
+    setMetrics({ queued: 0 });
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    if (message.type === 'error' && message.replyTo) {
+      settleRequest(message.replyTo, pending => pending.reject(new Error(`${message.code}: ${message.message}`)));
+    } else if (message.type !== 'heartbeat_ack' && 'replyTo' in message) {
+      settleRequest(message.replyTo, pending => pending.resolve(message));
+    }
+
+    switch (message.type) {
+      case 'welcome':
+        attempt = 0;
+        if (hasConnected) setMetrics({ reconnects: state.metrics.reconnects + 1 });
+        hasConnected = true;
+        setState({ status: 'connected', sessionId: message.sessionId, serverCapabilities: message.capabilities });
+        setMetrics({ connectedAt: Date.now(), lastError: null });
+        startHeartbeat(message.heartbeatIntervalMs || DEFAULT_HEARTBEAT_INTERVAL_MS);
+        flushQueue();
+        break;
+      case 'heartbeat_ack': {
+        const sentAt = pendingHeartbeats.get(message.replyTo);
+        if (sentAt !== undefined) {
+          pendingHeartbeats.clear();
+          setMetrics({ rttMs: performance.now() - sentAt });
+        }
+        break;
+      }
+      case 'error':
+        setMetrics({ lastError: `${message.code}: ${message.message}` });
+        break;
+    }
+    options.onMessage?.(message);
+  };
+
+  const scheduleReconnect = () => {
+    const delay = backoffDelay(attempt++, initialBackoffMs, maxBackoffMs);
+    setMetrics({ retryInMs: delay });
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      open();
+    }, delay);
+  };
+
+  const open = () => {
+    setState({ status: 'connecting', sessionId: null });
+    setMetrics({ retryInMs: null });
+
+    let current: WebSocket;
+    try {
+      current = new WebSocket(options.url);
+    } catch (error) {
+      setMetrics({ lastError: error instanceof Error ? error.message : String(error) });
+      setState({ status: 'disconnected' });
+      scheduleReconnect();
+      return;
+    }
+    socket = current;
+
+    current.onopen = () => {
+      current.send(JSON.stringify(createMessage({
+        type: 'hello',
+        clientId: options.clientId,
+        sourceId: options.getSourceId(),
+        token: options.token,
+        capabilities: options.capabilities,
+      })));
+    };
+
+    current.onmessage = (event) => {
+      if (socket !== current) return;
+      const parsed = parseServerMessage(event.data);
+      if (parsed.ok === false) {
+        console.error('Invalid message from the recognition server:', parsed.error);
+        return;
+      }
+      handleMessage(parsed.message);
+    };
+
+    current.onclose = (event) => {
+      // A socket replaced by disconnect() or a newer connection reports nothing
+      if (socket !== current) return;
+      socket = null;
+      stopHeartbeat();
+      rejectPendingRequests('Connection to the recognition server was lost');
+      setState({ status: 'disconnected', sessionId: null, serverCapabilities: [] });
+      setMetrics({ connectedAt: null });
+
+      if (!wanted) return;
+      if (event.code === CLOSE_UNAUTHORIZED || event.code === CLOSE_UNSUPPORTED_VERSION) {
+        // Retrying cannot fix a rejected token or a protocol mismatch
+        setMetrics({ lastError: event.reason || `Closed by the server (${event.code})` });
+        return;
+      }
+      scheduleReconnect();
+    };
+
+    current.onerror = () => {
+      setMetrics({ lastError: 'Connection failed' });
+    };
+  };
+
+  const connect = () => {
+    if (wanted) return;
+    wanted = true;
+    attempt = 0;
+    open();
+  };
+
+  const disconnect = () => {
+    wanted = false;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    stopHeartbeat();
+    rejectPendingRequests('Recognition client disconnected');
+    const current = socket;
+    socket = null;
+    current?.close(1000, 'Client disconnected');
+    setState({ status: 'disconnected', sessionId: null, serverCapabilities: [] });
+    setMetrics({ connectedAt: null, retryInMs: null });
+  };
+
+  // Sent straight away during a session, queued otherwise. Returns false when
+  // the queue was full and the oldest message had to be dropped.
+  const send = (message: ClientMessage) => {
+    if (state.status === 'connected' && socket?.readyState === WebSocket.OPEN) {
+      transmit(message);
+      return true;
+    }
+
+    queue.push(message);
+    const overflow = Math.max(0, queue.length - maxQueueSize);
+    if (overflow > 0) queue = queue.slice(overflow);
+    setMetrics({ queued: queue.length, dropped: state.metrics.dropped + overflow });
+    return overflow === 0;
+  };
+
+  // Sends a message that expects a reply and resolves with it. Requests are
+  // never queued: a reply that arrives after the next session starts would be
+  // of no use to a live caller.
+  const request = (message: ClientMessage, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS) => {
+    if (state.status !== 'connected' || socket?.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Recognition server is not connected'));
+    }
+
+    return new Promise<ServerMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingRequests.delete(message.id);
+        reject(new Error('Recognition server did not answer in time'));
+      }, timeoutMs);
+      pendingRequests.set(message.id, { resolve, reject, timer });
+      transmit(message);
+    });
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { connect, disconnect, send, request, subscribe, getState: () => state };
+};
+
+export type RecognitionClient = ReturnType<typeof createRecognitionClient>;
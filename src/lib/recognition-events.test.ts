@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRecognitionEventLogger, RecognitionEventInput } from '@/lib/recognition-events';
+
+const { insert, uploadEventSnapshot } = vi.hoisted(() => ({
+  insert: vi.fn(),
+  uploadEventSnapshot: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: () => ({ insert }) } }));
+vi.mock('@/lib/face-storage', () => ({ uploadEventSnapshot }));
+
+const event = (details: Partial<RecognitionEventInput> = {}): RecognitionEventInput => ({
+  trackId: 'track-1',
+  personId: 'jane',
+  name: 'Jane',
+  recognized: true,
+  liveness: 'live',
+  distance: 0.3,
+  confidence: 75,
+  box: { x: 0, y: 0, width: 10, height: 10 },
+  occurredAt: new Date('2025-08-01T09:00:00Z'),
+  ...details,
+});
+
+describe('createRecognitionEventLogger', () => {
+  let time = 0;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 0;
+    insert.mockReset().mockResolvedValue({ error: null });
+    uploadEventSnapshot.mockReset().mockResolvedValue('events/snapshot.jpg');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('drops repeats of the same person and state within the dedup window', async () => {
+    const logger = createRecognitionEventLogger({ sourceId: 'door', dedupWindowMs: 1000, now });
+
+    expect(logger.log(event())).toBe(true);
+    time = 500;
+    expect(logger.log(event())).toBe(false);
+    expect(logger.log(event({ recognized: false, liveness: 'spoof' }))).toBe(true);
+    time = 1000;
+    expect(logger.log(event())).toBe(true);
+
+    await logger.dispose();
+    expect(insert.mock.calls.flatMap(([rows]) => rows)).toHaveLength(3);
+  });
+
+  it('keeps unknown faces on different tracks apart', async () => {
+    const logger = createRecognitionEventLogger({ sourceId: 'door', dedupWindowMs: 1000, now });
+    const stranger = (trackId: string) =>
+      event({ trackId, personId: null, name: 'Unknown Person', recognized: false, liveness: 'pending' });
+
+    expect(logger.log(stranger('track-1'))).toBe(true);
+    expect(logger.log(stranger('track-2'))).toBe(true);
+    expect(logger.log(stranger('track-1'))).toBe(false);
+
+    // Known people are still de-duplicated across tracks
+    expect(logger.log(event({ trackId: 'track-3' }))).toBe(true);
+    expect(logger.log(event({ trackId: 'track-4' }))).toBe(false);
+    await logger.dispose();
+  });
+
+  it('writes a full batch straight away', async () => {
+    const logger = createRecognitionEventLogger({ sourceId: 'door', batchSize: 2, now });
+
+    logger.log(event({ personId: 'jane' }));
+    logger.log(event({ personId: 'john', distance: Infinity }));
+    await logger.flush();
+
+    expect(insert).toHaveBeenCalledTimes(1);
+    expect(insert.mock.calls[0][0]).toMatchObject([
+      { person_id: 'jane', source_id: 'door', distance: 0.3 },
+      { person_id: 'john', source_id: 'door', distance: null },
+    ]);
+    await logger.dispose();
+  });
+
+  it('reuses an uploaded snapshot when a failed batch is retried', async () => {
+    insert.mockResolvedValueOnce({ error: new Error('offline') });
+    const logger = createRecognitionEventLogger({ sourceId: 'door', now });
+
+    logger.log(event(), () => 'data:image/jpeg;base64,AAAA');
+    await logger.flush();
+    await logger.flush();
+
+    expect(uploadEventSnapshot).toHaveBeenCalledTimes(1);
+    expect(insert).toHaveBeenCalledTimes(2);
+    expect(insert.mock.calls[1][0][0].snapshot_path).toBe('events/snapshot.jpg');
+    await logger.dispose();
+  });
+
+  it('keeps the event when its snapshot cannot be uploaded', async () => {
+    uploadEventSnapshot.mockRejectedValueOnce(new Error('storage down'));
+    const logger = createRecognitionEventLogger({ sourceId: 'door', now });
+
+    logger.log(event(), () => 'data:image/jpeg;base64,AAAA');
+    await logger.flush();
+
+    expect(insert.mock.calls[0][0][0].snapshot_path).toBeNull();
+    await logger.dispose();
+  });
+});
@@ -0,0 +1,166 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { uploadEventSnapshot } from '@/lib/face-storage';
+import { LivenessStatus } from '@/lib/liveness';
+
+export type RecognitionEventRow = Tables<'recognition_events'>;
+
+export interface RecognitionEventInput {
+  // Face tracker id; tells unknown faces apart, which have no person id
+  trackId: string;
+  personId: string | null;
+  name: string;
+  recognized: boolean;
+  liveness: LivenessStatus;
+  distance: number;
+  confidence: number;
+  box: { x: number; y: number; width: number; height: number };
+  occurredAt: Date;
+}
+
+interface QueuedEvent {
+  event: RecognitionEventInput;
+  // JPEG data URL of the face, uploaded when the batch is flushed
+  snapshot: string | null;
+  // Set once the snapshot is uploaded, so a retried batch does not upload it again
+  snapshotPath: string | null;
+}
+
+export interface RecognitionEventLoggerOptions {
+  sourceId: string;
+  // The same person in the same state is logged at most once per window
+  dedupWindowMs?: number;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  now?: () => number;
+}
+
+export const DEFAULT_DEDUP_WINDOW_MS = 10000;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+// Events kept for retry while the database is unreachable; the oldest go first
+const MAX_PENDING_EVENTS = 500;
+
+export const RECENT_EVENTS_LIMIT = 100;
+
+// A known person is de-duplicated across tracks, an unknown face only within
+// its own track, so one stranger does not hide the next
+const dedupKey = (event: RecognitionEventInput) =>
+  `${event.personId ?? `track:${event.trackId}`}:${event.recognized ? 'recognized' : event.liveness}`;
+
+const uploadSnapshot = async (queued: QueuedEvent): Promise<QueuedEvent> => {
+  if (!queued.snapshot) return queued;
+  try {
+    const snapshotPath = await uploadEventSnapshot(queued.snapshot, queued.event.occurredAt);
+    return { ...queued, snapshot: null, snapshotPath };
+  } catch (error) {
+    // A missing snapshot should not cost us the event itself; the upload is
+    // tried again only if the batch has to be retried anyway
+    console.error('Error uploading recognition snapshot:', error);
+    return queued;
+  }
+};
+
+const toRow = (
+  { event, snapshotPath }: QueuedEvent,
+  sourceId: string
+): Omit<RecognitionEventRow, 'id' | 'created_at'> => {
+  return {
+    person_id: event.personId,
+    person_name: event.name,
+    recognized: event.recognized,
+    liveness: event.liveness,
+    // No gallery means an infinite distance, which JSON cannot carry
+    distance: Number.isFinite(event.distance) ? event.distance : null,
+    confidence: event.confidence,
+    box: event.box,
+    source_id: sourceId,
+    snapshot_path: snapshotPath,
+    occurred_at: event.occurredAt.toISOString(),
+  };
+};
+
+// Queues recognition events and writes them to recognition_events in batches.
+// Repeats of the same person and state within the dedup window are dropped
+// before they are queued, and a failed batch is retried on the next flush.
+export const createRecognitionEventLogger = (options: RecognitionEventLoggerOptions) => {
+  const now = options.now ?? Date.now;
+  const dedupWindowMs = options.dedupWindowMs ?? DEFAULT_DEDUP_WINDOW_MS;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  const lastLogged = new Map<string, number>();
+  let pending: QueuedEvent[] = [];
+  let flushing: Promise<void> | null = null;
+
+  const flush = async (): Promise<void> => {
+    if (flushing) return flushing;
+    if (pending.length === 0) return;
+
+    const batch = pending.slice(0, batchSize);
+    pending = pending.slice(batch.length);
+
+    flushing = (async () => {
+      const uploaded = await Promise.all(batch.map(uploadSnapshot));
+      try {
+        const { error } = await supabase
+          .from('recognition_events')
+          .insert(uploaded.map(queued => toRow(queued, options.sourceId)));
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error writing recognition events:', error);
+        pending = [...uploaded, ...pending].slice(-MAX_PENDING_EVENTS);
+      } finally {
+        flushing = null;
+      }
+    })();
+
+    return flushing;
+  };
+
+  const interval = setInterval(flush, options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+
+  // Returns whether the event was queued (false for a duplicate). The
+  // snapshot is only captured for events that are actually kept.
+  const log = (event: RecognitionEventInput, captureSnapshot?: () => string): boolean => {
+    const key = dedupKey(event);
+    const timestamp = now();
+    const previous = lastLogged.get(key);
+    if (previous !== undefined && timestamp - previous < dedupWindowMs) return false;
+
+    lastLogged.set(key, timestamp);
+    for (const [staleKey, loggedAt] of lastLogged) {
+      if (timestamp - loggedAt >= dedupWindowMs) lastLogged.delete(staleKey);
+    }
+
+    pending = [...pending, { event, snapshot: captureSnapshot?.() ?? null, snapshotPath: null }].slice(-MAX_PENDING_EVENTS);
+    if (pending.length >= batchSize) flush();
+    return true;
+  };
+
+  // Stops the timer and writes whatever is still queued
+  const dispose = async () => {
+    clearInterval(interval);
+    await flushing;
+    while (pending.length > 0) {
+      const before = pending.length;
+      await flush();
+      // Give up on a failing database rather than spin
+      if (pending.length >= before) break;
+    }
+  };
+
+  return { log, flush, dispose };
+};
+
+export type RecognitionEventLogger = ReturnType<typeof createRecognitionEventLogger>;
+
+export const fetchRecentEvents = async (limit = RECENT_EVENTS_LIMIT): Promise<RecognitionEventRow[]> => {
+  const { data, error } = await supabase
+    .from('recognition_events')
+    .select('*')
+    .order('occurred_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
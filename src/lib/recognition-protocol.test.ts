@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createMessage,
+  parseClientMessage,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+} from '@/lib/recognition-protocol';
+
+const hello = () => createMessage({
+  type: 'hello',
+  clientId: 'browser-1',
+  sourceId: 'door',
+  token: null,
+  capabilities: ['frame_results', 'match'],
+});
+
+describe('createMessage', () => {
+  it('adds the protocol version, a fresh id and the send time', () => {
+    const first = hello();
+
+    expect(first).toMatchObject({ v: PROTOCOL_VERSION, type: 'hello', clientId: 'browser-1' });
+    expect(first.id).not.toBe(hello().id);
+    expect(first.sentAt).toBeTypeOf('number');
+  });
+});
+
+describe('parseClientMessage', () => {
+  it('reads back a message built with createMessage', () => {
+    const message = hello();
+
+    expect(parseClientMessage(JSON.stringify(message))).toEqual({ ok: true, message });
+  });
+
+  it('rejects text that is not JSON without a reply id', () => {
+    expect(parseClientMessage('{nope')).toEqual({
+      ok: false,
+      code: 'invalid_message',
+      error: 'Message is not valid JSON',
+      replyTo: null,
+    });
+  });
+
+  it('reports another protocol version as unsupported', () => {
+    const result = parseClientMessage(JSON.stringify({ ...hello(), v: 2, id: 'm-1' }));
+
+    expect(result).toMatchObject({ ok: false, code: 'unsupported_version', replyTo: 'm-1' });
+  });
+
+  it('names the first invalid field', () => {
+    const request = createMessage({
+      type: 'match_request',
+      threshold: null,
+      faces: [{ trackId: 'track-1', descriptor: [0, 1] }],
+    });
+
+    expect(parseClientMessage(JSON.stringify(request))).toMatchObject({
+      ok: false,
+      code: 'invalid_message',
+      error: expect.stringMatching(/^faces\.0\.descriptor: /),
+      replyTo: request.id,
+    });
+  });
+
+  it('does not accept server messages', () => {
+    const heartbeatAck = createMessage({ type: 'heartbeat_ack', replyTo: 'm-1' });
+
+    expect(parseClientMessage(JSON.stringify(heartbeatAck))).toMatchObject({ ok: false, code: 'invalid_message' });
+  });
+});
+
+describe('parseServerMessage', () => {
+  it('accepts a null distance for an empty gallery', () => {
+    const response = createMessage({
+      type: 'match_response',
+      replyTo: 'm-1',
+      matches: [{ trackId: 'track-1', personId: null, name: 'Unknown', distance: null, confidence: 0, isKnown: false }],
+    });
+
+    expect(parseServerMessage(JSON.stringify(response))).toEqual({ ok: true, message: response });
+  });
+
+  it('requires every field, even the nullable ones', () => {
+    const { replyTo: _replyTo, ...error } = createMessage({
+      type: 'error',
+      replyTo: null,
+      code: 'internal',
+      message: 'Boom',
+      fatal: false,
+    });
+
+    expect(parseServerMessage(JSON.stringify(error))).toMatchObject({ ok: false, code: 'invalid_message' });
+  });
+});
@@ -0,0 +1,243 @@
+import { z } from 'zod';
+
+// Wire protocol between the browser and a recognition server over WebSocket.
+// Shared by the app and the reference server in /server, so this module may
+// only import packages, never app code.
+//
+// Every message is a JSON object with the protocol version, its own id and
+// the sender's clock. Replies name the message they answer in `replyTo`.
+//
+//   client                              server
+//   hello            ------------------>
+//                    <------------------ welcome | error (fatal)
+//   frame_results    ------------------>
+//                    <------------------ ack
+//   match_request    ------------------>
+//                    <------------------ match_response
+//   heartbeat        ------------------>
+//                    <------------------ heartbeat_ack
+//
+// Anything sent before a successful hello is answered with a not_ready error.
+
+export const PROTOCOL_VERSION = 1;
+
+export const DEFAULT_RECOGNITION_SERVER_URL = 'ws://localhost:8080/face-recognition';
+
+// Close codes in the range reserved for applications
+export const CLOSE_UNSUPPORTED_VERSION = 4000;
+export const CLOSE_UNAUTHORIZED = 4001;
+
+const envelopeShape = {
+  v: z.literal(PROTOCOL_VERSION),
+  id: z.string().min(1),
+  // Epoch milliseconds on the sender's clock
+  sentAt: z.number(),
+};
+
+const capabilitySchema = z.enum(['frame_results', 'match']);
+
+const protocolErrorCodeSchema = z.enum(['unsupported_version', 'invalid_message', 'unauthorized', 'not_ready', 'internal']);
+
+const boxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+const faceResultSchema = z.object({
+  trackId: z.string(),
+  personId: z.string().nullable(),
+  name: z.string(),
+  confidence: z.number(),
+  recognized: z.boolean(),
+  liveness: z.enum(['pending', 'live', 'spoof']),
+  box: boxSchema,
+});
+
+const presenceEventSchema = z.object({
+  type: z.enum(['enter', 'leave']),
+  trackId: z.string(),
+  personId: z.string().nullable(),
+  name: z.string(),
+  at: z.number(),
+});
+
+const matchSchema = z.object({
+  trackId: z.string(),
+  personId: z.string().nullable(),
+  name: z.string(),
+  // Null when the gallery is empty; JSON has no Infinity
+  distance: z.number().nullable(),
+  confidence: z.number(),
+  isKnown: z.boolean(),
+});
+
+const helloSchema = z.object({
+  ...envelopeShape,
+  type: z.literal('hello'),
+  clientId: z.string().min(1),
+  sourceId: z.string().min(1),
+  token: z.string().nullable(),
+  capabilities: z.array(capabilitySchema),
+});
+
+const frameResultsSchema = z.object({
+  ...envelopeShape,
+  type: z.literal('frame_results'),
+  sourceId: z.string().min(1),
+  frameAt: z.number(),
+  faces: z.array(faceResultSchema),
+  events: z.array(presenceEventSchema),
+});
+
+const matchRequestSchema = z.object({
+  ...envelopeShape,
+  type: z.literal('match_request'),
+  // Null uses the server's own threshold
+  threshold: z.number().positive().nullable(),
+  faces: z.array(z.object({
+    trackId: z.string(),
+    descriptor: z.array(z.number()).length(128),
+  })),
+});
+
+const heartbeatSchema = z.object({
+  ...envelopeShape,
+  type: z.literal('heartbeat'),
+});
+
+const welcomeSchema = z.object({
+  ...envelopeShape,
+  type: z.literal('welcome'),
+  replyTo: z.string(),
+  sessionId: z.string(),
+  serverName: z.string(),
+  capabilities: z.array(capabilitySchema),
+  // The client should send a heartbeat at least this often
+  heartbeatIntervalMs: z.number().int().positive(),
+});
+
+const ackSchema = z.object({
+  ...envelopeShape,
+  type: z.literal('ack'),
+  replyTo: z.string(),
+});
+
+const matchResponseSchema = z.object({
+  ...envelopeShape,
+  type: z.literal('match_response'),
+  replyTo: z.string(),
+  matches: z.array(matchSchema),
+});
+
+const heartbeatAckSchema = z.object({
+  ...envelopeShape,
+  type: z.literal('heartbeat_ack'),
+  replyTo: z.string(),
+});
+
+const errorSchema = z.object({
+  ...envelopeShape,
+  type: z.literal('error'),
+  // Null when the offending message could not be read at all
+  replyTo: z.string().nullable(),
+  code: protocolErrorCodeSchema,
+  message: z.string(),
+  // The server closes the connection after a fatal error
+  fatal: z.boolean(),
+});
+
+const clientMessageSchema = z.discriminatedUnion('type', [helloSchema, frameResultsSchema, matchRequestSchema, heartbeatSchema]);
+
+const serverMessageSchema = z.discriminatedUnion('type', [
+  welcomeSchema,
+  ackSchema,
+  matchResponseSchema,
+  heartbeatAckSchema,
+  errorSchema,
+]);
+
+// The app compiles without strictNullChecks, where z.infer makes every key
+// optional. Every field of the protocol is required (null, not absent, means
+// "none"), so the inferred types are made required again, all the way down.
+type Wire<T> = T extends (infer Item)[]
+  ? Wire<Item>[]
+  : T extends object ? { [K in keyof T]-?: Wire<T[K]> } : T;
+
+type Infer<S extends z.ZodTypeAny> = Wire<z.infer<S>>;
+
+export type Capability = Infer<typeof capabilitySchema>;
+export type ProtocolErrorCode = Infer<typeof protocolErrorCodeSchema>;
+
+type Envelope = Infer<z.ZodObject<typeof envelopeShape>>;
+
+export type WireBox = Infer<typeof boxSchema>;
+export type WireFaceResult = Infer<typeof faceResultSchema>;
+export type WirePresenceEvent = Infer<typeof presenceEventSchema>;
+export type WireMatch = Infer<typeof matchSchema>;
+
+export type HelloMessage = Infer<typeof helloSchema>;
+export type FrameResultsMessage = Infer<typeof frameResultsSchema>;
+export type MatchRequestMessage = Infer<typeof matchRequestSchema>;
+export type HeartbeatMessage = Infer<typeof heartbeatSchema>;
+export type ClientMessage = Infer<typeof clientMessageSchema>;
+
+export type WelcomeMessage = Infer<typeof welcomeSchema>;
+export type AckMessage = Infer<typeof ackSchema>;
+export type MatchResponseMessage = Infer<typeof matchResponseSchema>;
+export type HeartbeatAckMessage = Infer<typeof heartbeatAckSchema>;
+export type ErrorMessage = Infer<typeof errorSchema>;
+export type ServerMessage = Infer<typeof serverMessageSchema>;
+
+// Distributes over the union so each message keeps its own fields
+type WithoutEnvelope<T> = T extends Envelope ? Omit<T, keyof Envelope> : never;
+
+export const createMessage = <M extends WithoutEnvelope<ClientMessage | ServerMessage>>(message: M): M & Envelope => ({
+  v: PROTOCOL_VERSION,
+  id: crypto.randomUUID(),
+  sentAt: Date.now(),
+  ...message,
+});
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; code: ProtocolErrorCode; error: string; replyTo: string | null };
+
+// A message from another protocol version is reported as such rather than as
+// malformed, so the peer can tell an upgrade is needed
+const parseMessage = <T>(schema: z.ZodTypeAny, raw: string): ParseResult<T> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { ok: false, code: 'invalid_message', error: 'Message is not valid JSON', replyTo: null };
+  }
+
+  const header = typeof json === 'object' && json !== null ? json as { v?: unknown; id?: unknown } : {};
+  const replyTo = typeof header.id === 'string' ? header.id : null;
+  if (header.v !== PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      code: 'unsupported_version',
+      error: `Expected protocol version ${PROTOCOL_VERSION}, got ${String(header.v)}`,
+      replyTo,
+    };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {
+      ok: false,
+      code: 'invalid_message',
+      error: issue ? `${issue.path.join('.') || 'message'}: ${issue.message}` : 'Invalid message',
+      replyTo,
+    };
+  }
+  return { ok: true, message: parsed.data as T };
+};
+
+export const parseClientMessage = (raw: string) => parseMessage<ClientMessage>(clientMessageSchema, raw);
+
+export const parseServerMessage = (raw: string) => parseMessage<ServerMessage>(serverMessageSchema, raw);
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { collectRosterFiles, isRosterImage, parseCsv, personNameFromPath } from '@/lib/roster-import';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+describe('personNameFromPath', () => {
+  it('strips the extension and a trailing sample number', () => {
+    expect(personNameFromPath('Jane_Doe_2.jpg')).toBe('Jane Doe');
+    expect(personNameFromPath('Jane Doe (2).png')).toBe('Jane Doe');
+    expect(personNameFromPath('Jane-Doe.webp')).toBe('Jane-Doe');
+  });
+
+  it('prefers the containing folder', () => {
+    expect(personNameFromPath('roster/Jane Doe/front.jpg')).toBe('Jane Doe');
+  });
+});
+
+describe('isRosterImage', () => {
+  it('accepts the supported image types in any case', () => {
+    expect(isRosterImage('a/b.JPG')).toBe(true);
+    expect(isRosterImage('b.webp')).toBe(true);
+    expect(isRosterImage('b.gif')).toBe(false);
+    expect(isRosterImage('people.csv')).toBe(false);
+  });
+});
+
+describe('parseCsv', () => {
+  it('maps rows onto lower-cased, trimmed header keys', () => {
+    expect(parseCsv('Name, Department\nJane Doe,Sales\n')).toEqual([
+      { name: 'Jane Doe', department: 'Sales' },
+    ]);
+  });
+
+  it('handles quoted fields, escaped quotes and CRLF line endings', () => {
+    const rows = parseCsv('name,notes\r\n"Doe, Jane","Says ""hi""\nwhen she arrives"\r\n');
+
+    expect(rows).toEqual([{ name: 'Doe, Jane', notes: 'Says "hi"\nwhen she arrives' }]);
+  });
+
+  it('skips blank lines and fills missing trailing fields', () => {
+    expect(parseCsv('name,title\n\nJane\n,\n')).toEqual([{ name: 'Jane', title: '' }]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('collectRosterFiles', () => {
+  it('keeps images and reads the CSV, ignoring other files', async () => {
+    const roster = await collectRosterFiles([
+      new File(['jpeg'], 'Jane_Doe.jpg', { type: 'image/jpeg' }),
+      new File(['name,department\nJane Doe,Sales\n'], 'people.csv', { type: 'text/csv' }),
+      new File(['text'], 'readme.txt', { type: 'text/plain' }),
+    ]);
+
+    expect(roster.files.map(file => file.path)).toEqual(['Jane_Doe.jpg']);
+    expect(roster.csvRows).toEqual([{ name: 'Jane Doe', department: 'Sales' }]);
+  });
+});
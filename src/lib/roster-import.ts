@@ -0,0 +1,331 @@
+import * as faceapi from 'face-api.js';
+import JSZip from 'jszip';
+import {
+  arrayToDescriptor,
+  createThumbnail,
+  cropFace,
+  DEFAULT_PHOTO_QUALITY,
+  descriptorToArray,
+  detectAllFaceSamples,
+  extractFaceSample,
+  meanDescriptor,
+} from '@/lib/face-descriptors';
+import { DetectorConfig } from '@/lib/detector-config';
+import { assessFaceQuality, DEFAULT_QUALITY_THRESHOLDS, QualityThresholds } from '@/lib/face-quality';
+import { DEFAULT_MATCH_THRESHOLD, EnrolledFace } from '@/lib/face-matcher';
+import { createFaceImagePaths, StoredFaceImages, uploadFaceImages } from '@/lib/face-storage';
+import { enrollPeople, PersonProfile, profileFromRecord } from '@/lib/people';
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp'];
+
+export interface RosterFile {
+  // Path inside the ZIP or relative folder path; used to derive the name
+  path: string;
+  blob: Blob;
+}
+
+export type RosterFailureReason = 'no_face' | 'multiple_faces' | 'low_quality' | 'duplicate' | 'unreadable';
+
+export const ROSTER_FAILURE_LABELS: Record<RosterFailureReason, string> = {
+  no_face: 'No face found',
+  multiple_faces: 'Multiple faces',
+  low_quality: 'Low quality',
+  duplicate: 'Duplicate',
+  unreadable: 'Unreadable image',
+};
+
+export interface RosterFailure {
+  path: string;
+  reason: RosterFailureReason;
+  detail?: string;
+}
+
+export interface RosterPerson {
+  name: string;
+  profile: PersonProfile;
+  // CSV columns that are not profile fields
+  metadata: Record<string, string>;
+  descriptors: Float32Array[];
+  photo: string;
+  thumbnail: string;
+}
+
+export interface RosterProgress {
+  processed: number;
+  total: number;
+  current: string;
+}
+
+export interface RosterReport {
+  people: RosterPerson[];
+  failures: RosterFailure[];
+}
+
+export interface RosterOptions {
+  detector?: DetectorConfig;
+  qualityThresholds?: QualityThresholds;
+  duplicateThreshold?: number;
+  photoQuality?: number;
+  thumbnailQuality?: number;
+}
+
+const extensionOf = (path: string) => path.split('.').pop()?.toLowerCase() || '';
+const baseName = (path: string) => path.split('/').pop() || path;
+
+export const isRosterImage = (path: string) => IMAGE_EXTENSIONS.includes(extensionOf(path));
+
+// "Jane_Doe_2.jpg", "Jane Doe (2).png" and "Jane Doe/front.jpg" all belong to
+// "Jane Doe": a containing folder wins, otherwise the file name without its
+// extension and trailing sample number.
+export const personNameFromPath = (path: string): string => {
+  const parts = path.split('/').filter(Boolean);
+  const raw = parts.length > 1
+    ? parts[parts.length - 2]
+    : parts[0].replace(/\.[^.]+$/, '').replace(/([_\-\s]+\d+|\s*\(\d+\))$/, '');
+
+  return raw.replace(/[_]+/g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings.
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (!header) return [];
+
+  const keys = header.map(key => key.trim().toLowerCase());
+  return body.map(values =>
+    Object.fromEntries(keys.map((key, index) => [key, (values[index] || '').trim()]))
+  );
+};
+
+// CSV rows are matched to images by a "file" column (file name) or, failing
+// that, by a "name" column equal to the name derived from the path.
+const metadataFor = (path: string, name: string, csvRows: Record<string, string>[]) => {
+  const file = baseName(path).toLowerCase();
+  return csvRows.find(row => row.file && baseName(row.file).toLowerCase() === file) ||
+    csvRows.find(row => row.name && row.name.toLowerCase() === name.toLowerCase());
+};
+
+export interface CollectedRoster {
+  files: RosterFile[];
+  csvRows: Record<string, string>[];
+}
+
+// Accepts any mix of ZIP archives, loose images and one CSV file.
+export const collectRosterFiles = async (input: File[]): Promise<CollectedRoster> => {
+  const files: RosterFile[] = [];
+  let csvText: string | null = null;
+
+  for (const file of input) {
+    const path = file.webkitRelativePath || file.name;
+    const extension = extensionOf(path);
+
+    if (extension === 'zip') {
+      const zip = await JSZip.loadAsync(file);
+      for (const entry of Object.values(zip.files)) {
+        if (entry.dir || entry.name.startsWith('__MACOSX/')) continue;
+        if (extensionOf(entry.name) === 'csv' && csvText === null) {
+          csvText = await entry.async('string');
+        } else if (isRosterImage(entry.name)) {
+          files.push({ path: entry.name, blob: await entry.async('blob') });
+        }
+      }
+    } else if (extension === 'csv') {
+      csvText = await file.text();
+    } else if (isRosterImage(path)) {
+      files.push({ path, blob: file });
+    }
+  }
+
+  return { files, csvRows: csvText ? parseCsv(csvText) : [] };
+};
+
+// Runs each image through the same detect → crop → descriptor → quality
+// pipeline as manual enrollment, one at a time, and groups the survivors by
+// person. Images whose face is already enrolled, or matches a different
+// person earlier in the same import, are reported as duplicates.
+export const processRoster = async (
+  { files, csvRows }: CollectedRoster,
+  existing: EnrolledFace[],
+  onProgress: (progress: RosterProgress) => void,
+  options: RosterOptions = {}
+): Promise<RosterReport> => {
+  const thresholds = options.qualityThresholds ?? DEFAULT_QUALITY_THRESHOLDS;
+  const duplicateThreshold = options.duplicateThreshold ?? DEFAULT_MATCH_THRESHOLD;
+
+  const enrolledNames = new Set(existing.map(face => face.name.toLowerCase()));
+  const gallery = existing
+    .filter(face => face.face_descriptor)
+    .map(face => ({ name: face.name, descriptor: arrayToDescriptor(face.face_descriptor) }));
+
+  const people = new Map<string, RosterPerson>();
+  const failures: RosterFailure[] = [];
+
+  for (let index = 0; index < files.length; index++) {
+    const { path, blob } = files[index];
+    onProgress({ processed: index, total: files.length, current: path });
+
+    try {
+      const derivedName = personNameFromPath(path);
+      const metadata = metadataFor(path, derivedName, csvRows) || {};
+      const name = metadata.name || derivedName;
+      const key = name.toLowerCase();
+
+      if (enrolledNames.has(key)) {
+        failures.push({ path, reason: 'duplicate', detail: `${name} is already enrolled` });
+        continue;
+      }
+
+      const image = await faceapi.bufferToImage(blob);
+      const faces = await detectAllFaceSamples(image, options.detector);
+
+      if (faces.length === 0) {
+        failures.push({ path, reason: 'no_face' });
+        continue;
+      }
+      if (faces.length > 1) {
+        failures.push({ path, reason: 'multiple_faces', detail: `${faces.length} faces` });
+        continue;
+      }
+
+      const crop = cropFace(image, faces[0].box, image.naturalWidth, image.naturalHeight);
+      const sample = await extractFaceSample(crop, options.detector);
+      if (!sample) {
+        failures.push({ path, reason: 'no_face' });
+        continue;
+      }
+
+      const report = assessFaceQuality(crop, crop.width, crop.height, sample, thresholds);
+      if (!report.passed) {
+        const failed = Object.entries(report.criteria)
+          .filter(([, criterion]) => !criterion.passed)
+          .map(([key]) => key);
+        failures.push({ path, reason: 'low_quality', detail: failed.join(', ') });
+        continue;
+      }
+
+      const duplicate = gallery.find(entry =>
+        entry.name.toLowerCase() !== key &&
+        faceapi.euclideanDistance(entry.descriptor, sample.descriptor) < duplicateThreshold
+      );
+      if (duplicate) {
+        failures.push({ path, reason: 'duplicate', detail: `matches ${duplicate.name}` });
+        continue;
+      }
+
+      const person = people.get(key);
+      if (person) {
+        person.descriptors.push(sample.descriptor);
+      } else {
+        const { name: _name, file: _file, ...rest } = metadata;
+        people.set(key, {
+          name,
+          ...profileFromRecord(rest),
+          descriptors: [sample.descriptor],
+          photo: crop.toDataURL('image/jpeg', options.photoQuality ?? DEFAULT_PHOTO_QUALITY),
+          thumbnail: createThumbnail(crop, sample.box, crop.width, crop.height, options.thumbnailQuality),
+        });
+      }
+      gallery.push({ name, descriptor: sample.descriptor });
+    } catch (error) {
+      console.error(`Error processing ${path}:`, error);
+      failures.push({ path, reason: 'unreadable' });
+    }
+  }
+
+  onProgress({ processed: files.length, total: files.length, current: '' });
+  return { people: Array.from(people.values()), failures };
+};
+
+const toRegistrationRow = (id: string, person: RosterPerson, images: StoredFaceImages) => ({
+  id,
+  name: person.name,
+  ...person.profile,
+  face_descriptor: descriptorToArray(meanDescriptor(person.descriptors)),
+  ...images,
+  metadata: person.metadata,
+});
+
+const toSampleRows = (id: string, person: RosterPerson) =>
+  person.descriptors.map(descriptor => ({
+    person_id: id,
+    descriptor: descriptorToArray(descriptor),
+    source: 'import',
+  }));
+
+export const ROSTER_BATCH_SIZE = 25;
+
+// Inserts people in fixed-size batches so one bad row only fails its batch.
+// Each batch's people, samples and image paths are stored in one transaction;
+// the images are uploaded once it has committed, so a failed batch leaves
+// nothing in storage. A person whose upload fails is still enrolled, without
+// the image. Returns the names that could not be inserted.
+export const insertRoster = async (
+  people: RosterPerson[],
+  onBatch: (inserted: number) => void,
+  batchSize = ROSTER_BATCH_SIZE
+): Promise<string[]> => {
+  const failed: string[] = [];
+  let inserted = 0;
+
+  for (let start = 0; start < people.length; start += batchSize) {
+    const batch = people.slice(start, start + batchSize).map(person => {
+      const id = crypto.randomUUID();
+      return { id, person, images: createFaceImagePaths(id) };
+    });
+
+    try {
+      await enrollPeople(
+        batch.map(({ id, person, images }) => toRegistrationRow(id, person, images)),
+        batch.flatMap(({ id, person }) => toSampleRows(id, person))
+      );
+      inserted += batch.length;
+
+      for (const { id, person, images } of batch) {
+        await uploadFaceImages(id, images, person.photo, person.thumbnail)
+          .catch(error => console.error(`Error uploading images for ${person.name}:`, error));
+      }
+    } catch (error) {
+      console.error('Error inserting roster batch:', error);
+      failed.push(...batch.map(({ person }) => person.name));
+    }
+    onBatch(inserted);
+  }
+
+  return failed;
+};
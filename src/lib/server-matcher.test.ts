@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { matchOnServer } from '@/lib/server-matcher';
+import { UNKNOWN_LABEL } from '@/lib/face-matcher';
+import { RecognitionClient } from '@/lib/recognition-client';
+import { createMessage, MatchRequestMessage, WireMatch } from '@/lib/recognition-protocol';
+
+// A client whose server answers each request with `answer`
+const clientAnswering = (answer: (request: MatchRequestMessage) => WireMatch[]) => {
+  const request = vi.fn(async (message: MatchRequestMessage) =>
+    createMessage({ type: 'match_response', replyTo: message.id, matches: answer(message) })
+  );
+  return { client: { request } as unknown as RecognitionClient, request };
+};
+
+const wireMatch = (trackId: string, details: Partial<WireMatch> = {}): WireMatch => ({
+  trackId,
+  personId: 'ada',
+  name: 'Ada',
+  distance: 0.3,
+  confidence: 75,
+  isKnown: true,
+  ...details,
+});
+
+const descriptor = () => new Float32Array(128);
+
+describe('matchOnServer', () => {
+  it('sends nothing for a frame without faces', async () => {
+    const { client, request } = clientAnswering(() => []);
+
+    expect(await matchOnServer(client, [], 0.6)).toEqual([]);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('returns the matches in input order whatever order the server used', async () => {
+    const { client, request } = clientAnswering(message =>
+      message.faces.map(face => wireMatch(face.trackId, { name: `Face ${face.trackId}` })).reverse()
+    );
+
+    const matches = await matchOnServer(client, [descriptor(), descriptor()], 0.5);
+
+    expect(matches.map(match => match.label)).toEqual(['Face 0', 'Face 1']);
+    expect(request.mock.calls[0][0]).toMatchObject({ type: 'match_request', threshold: 0.5 });
+    expect(request.mock.calls[0][0].faces[0].descriptor).toHaveLength(128);
+  });
+
+  it('labels unknown faces like the local matcher and reads a null distance as Infinity', async () => {
+    const { client } = clientAnswering(() => [
+      wireMatch('0', { personId: null, name: 'Someone', distance: null, confidence: 0, isKnown: false }),
+    ]);
+
+    expect(await matchOnServer(client, [descriptor()], 0.6)).toEqual([{
+      label: UNKNOWN_LABEL,
+      personId: null,
+      distance: Infinity,
+      confidence: 0,
+      isKnown: false,
+    }]);
+  });
+
+  it('rejects a reply that leaves a face out', async () => {
+    const { client } = clientAnswering(() => [wireMatch('0')]);
+
+    await expect(matchOnServer(client, [descriptor(), descriptor()], 0.6)).rejects.toThrow('no match for face 1');
+  });
+
+  it('rejects a reply of the wrong type', async () => {
+    const client = {
+      request: async () => createMessage({ type: 'ack', replyTo: 'm-1' }),
+    } as unknown as RecognitionClient;
+
+    await expect(matchOnServer(client, [descriptor()], 0.6)).rejects.toThrow('Unexpected reply to a match request: ack');
+  });
+});
@@ -0,0 +1,50 @@
+import { descriptorToArray } from '@/lib/face-descriptors';
+import { FaceMatch, UNKNOWN_LABEL } from '@/lib/face-matcher';
+import { RecognitionClient } from '@/lib/recognition-client';
+import { createMessage } from '@/lib/recognition-protocol';
+
+export type MatchingMode = 'local' | 'server';
+
+export const MATCHING_MODE_LABELS: Record<MatchingMode, string> = {
+  local: 'In browser',
+  server: 'On server',
+};
+
+// Matches descriptors against the gallery held by the recognition server, so
+// only descriptors leave the browser. Results come back in input order, in
+// the same shape the local matcher produces. Rejects when the server is not
+// connected, does not answer in time or answers with an error.
+export const matchOnServer = async (
+  client: RecognitionClient,
+  descriptors: Float32Array[],
+  threshold: number
+): Promise<FaceMatch[]> => {
+  if (descriptors.length === 0) return [];
+
+  // Faces are keyed by their position in this request; tracks are only
+  // assigned once the matches are known
+  const reply = await client.request(createMessage({
+    type: 'match_request',
+    threshold,
+    faces: descriptors.map((descriptor, index) => ({
+      trackId: String(index),
+      descriptor: descriptorToArray(descriptor),
+    })),
+  }));
+  if (reply.type !== 'match_response') {
+    throw new Error(`Unexpected reply to a match request: ${reply.type}`);
+  }
+
+  const byKey = new Map(reply.matches.map(match => [match.trackId, match]));
+  return descriptors.map((_, index) => {
+    const match = byKey.get(String(index));
+    if (!match) throw new Error(`The server returned no match for face ${index}`);
+    return {
+      label: match.isKnown ? match.name : UNKNOWN_LABEL,
+      personId: match.personId,
+      distance: match.distance ?? Infinity,
+      confidence: match.confidence,
+      isKnown: match.isKnown,
+    };
+  });
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, parseSettings, settingsSchema } from '@/lib/settings';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+describe('parseSettings', () => {
+  it('falls back to the defaults for anything that is not an object', () => {
+    expect(parseSettings(null)).toEqual(DEFAULT_SETTINGS);
+    expect(parseSettings('dark')).toEqual(DEFAULT_SETTINGS);
+    expect(parseSettings({ camera: [] })).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('fills keys missing from older rows in from the defaults', () => {
+    const settings = parseSettings({ recognition: { matchThreshold: 0.5 } });
+
+    expect(settings.recognition).toEqual({ ...DEFAULT_SETTINGS.recognition, matchThreshold: 0.5 });
+    expect(settings.detector).toEqual(DEFAULT_SETTINGS.detector);
+  });
+
+  it('resets only the group holding an invalid value', () => {
+    const settings = parseSettings({
+      camera: { width: 10 },
+      images: { photoQuality: 0.5 },
+    });
+
+    expect(settings.camera).toEqual(DEFAULT_SETTINGS.camera);
+    expect(settings.images.photoQuality).toBe(0.5);
+  });
+
+  it('rejects a detector input size the tiny detector does not support', () => {
+    expect(parseSettings({ detector: { inputSize: 300 } }).detector).toEqual(DEFAULT_SETTINGS.detector);
+  });
+});
+
+describe('settingsSchema', () => {
+  it('requires the maximum brightness to be above the minimum', () => {
+    const result = settingsSchema.shape.quality.safeParse({
+      ...DEFAULT_SETTINGS.quality,
+      minBrightness: 200,
+      maxBrightness: 100,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({ path: ['maxBrightness'] });
+  });
+});
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { DEFAULT_MATCH_THRESHOLD } from '@/lib/face-matcher';
+import { DEFAULT_PHOTO_QUALITY, DEFAULT_THUMBNAIL_QUALITY } from '@/lib/face-descriptors';
+import { DEFAULT_ATTENDANCE_COOLDOWN_MINUTES, DEFAULT_LATE_AFTER } from '@/lib/attendance';
+import { DEFAULT_DETECTOR_CONFIG, TINY_INPUT_SIZES } from '@/lib/detector-config';
+import { DEFAULT_QUALITY_THRESHOLDS } from '@/lib/face-quality';
+
+// Every deployment (site) keeps its own row; builds for different sites set
+// VITE_DEPLOYMENT_ID
+export const DEPLOYMENT_ID: string = import.meta.env.VITE_DEPLOYMENT_ID || 'default';
+
+const LOCAL_STORAGE_KEY = `identity-hub.settings.${DEPLOYMENT_ID}`;
+
+export const settingsSchema = z.object({
+  recognition: z.object({
+    // Largest descriptor distance that still counts as the same person; also
+    // used to flag duplicates at enrollment
+    matchThreshold: z.number().min(0.2).max(1),
+    // Minimum time between the starts of two live recognition frames
+    frameIntervalMs: z.number().int().min(100).max(5000),
+    // Where live frames are matched; the browser is the fallback when the
+    // recognition server cannot be reached
+    matchingMode: z.enum(['local', 'server']),
+  }),
+  camera: z.object({
+    width: z.number().int().min(160).max(3840),
+    height: z.number().int().min(120).max(2160),
+  }),
+  images: z.object({
+    photoQuality: z.number().min(0.1).max(1),
+    thumbnailQuality: z.number().min(0.1).max(1),
+  }),
+  attendance: z.object({
+    cooldownMinutes: z.number().int().min(1).max(720),
+    lateAfter: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM'),
+  }),
+  // Enrollment quality gate, applied to camera captures, photo uploads and
+  // roster imports alike
+  quality: z.object({
+    minSharpness: z.number().min(0).max(1000),
+    minBrightness: z.number().min(0).max(255),
+    maxBrightness: z.number().min(0).max(255),
+    maxClippedFraction: z.number().min(0).max(1),
+    minFaceSize: z.number().min(0.05).max(1),
+    minDetectionScore: z.number().min(0.1).max(1),
+    minEyeAspectRatio: z.number().min(0).max(0.5),
+  }).refine(quality => quality.minBrightness < quality.maxBrightness, {
+    message: 'Must be above the minimum brightness',
+    path: ['maxBrightness'],
+  }),
+  detector: z.object({
+    kind: z.enum(['tiny', 'ssd', 'mtcnn']),
+    inputSize: z.number().int().refine(size => TINY_INPUT_SIZES.includes(size), 'Unsupported input size'),
+    scoreThreshold: z.number().min(0.1).max(0.95),
+    minFaceSize: z.number().int().min(20).max(200),
+  }),
+});
+
+type ParsedSettings = z.infer<typeof settingsSchema>;
+
+// Without strictNullChecks zod infers every key as optional, though parsing
+// always yields them all
+export type AppSettings = { [Group in keyof ParsedSettings]-?: Required<ParsedSettings[Group]> };
+type SettingsGroup = keyof AppSettings;
+
+// Where the settings in use came from
+export type SettingsSource = 'defaults' | 'database' | 'local';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  recognition: {
+    matchThreshold: DEFAULT_MATCH_THRESHOLD,
+    frameIntervalMs: 500,
+    matchingMode: 'local',
+  },
+  camera: {
+    width: 640,
+    height: 480,
+  },
+  images: {
+    photoQuality: DEFAULT_PHOTO_QUALITY,
+    thumbnailQuality: DEFAULT_THUMBNAIL_QUALITY,
+  },
+  attendance: {
+    cooldownMinutes: DEFAULT_ATTENDANCE_COOLDOWN_MINUTES,
+    lateAfter: DEFAULT_LATE_AFTER,
+  },
+  quality: DEFAULT_QUALITY_THRESHOLDS,
+  detector: DEFAULT_DETECTOR_CONFIG,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Stored settings may predate newer keys or hold values a later release no
+// longer accepts. Each group is filled in from the defaults and validated on
+// its own, so one bad value only resets its own group.
+export const parseSettings = (stored: unknown): AppSettings => {
+  const source = isRecord(stored) ? stored : {};
+  const groups = Object.keys(DEFAULT_SETTINGS) as SettingsGroup[];
+
+  return Object.fromEntries(groups.map(group => {
+    const value = isRecord(source[group]) ? source[group] : {};
+    const parsed = settingsSchema.shape[group].safeParse({ ...DEFAULT_SETTINGS[group], ...value });
+    return [group, parsed.success ? parsed.data : DEFAULT_SETTINGS[group]];
+  })) as AppSettings;
+};
+
+export const readLocalSettings = (): AppSettings | null => {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
+    return stored ? parseSettings(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.error('Error reading local settings:', error);
+    return null;
+  }
+};
+
+const writeLocalSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error writing local settings:', error);
+  }
+};
+
+// The deployment's row wins; the local copy is used when the database is
+// unreachable or has no row yet
+export const loadSettings = async (): Promise<{ settings: AppSettings; source: SettingsSource }> => {
+  try {
+    const { data, error } = await supabase
+      .from('settings')
+      .select('data')
+      .eq('deployment_id', DEPLOYMENT_ID)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) {
+      const settings = parseSettings(data.data);
+      writeLocalSettings(settings);
+      return { settings, source: 'database' };
+    }
+  } catch (error) {
+    console.error('Error loading settings, using the local copy:', error);
+  }
+
+  const local = readLocalSettings();
+  return local ? { settings: local, source: 'local' } : { settings: DEFAULT_SETTINGS, source: 'defaults' };
+};
+
+// Always kept locally; returns 'local' when the database write failed
+export const saveSettings = async (settings: AppSettings): Promise<SettingsSource> => {
+  const validated = settingsSchema.parse(settings) as AppSettings;
+  writeLocalSettings(validated);
+
+  try {
+    const { error } = await supabase
+      .from('settings')
+      .upsert({
+        deployment_id: DEPLOYMENT_ID,
+        data: validated as unknown as Json,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) throw error;
+    return 'database';
+  } catch (error) {
+    console.error('Error saving settings to the database:', error);
+    return 'local';
+  }
+};
@@ -0,0 +1,184 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Loader2, RefreshCw, ScrollText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import AppHeader from '@/components/AppHeader';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_PAGE_SIZE,
+  AuditAction,
+  AuditEntry,
+  AuditFilter,
+  describeAuditDetails,
+  EMPTY_AUDIT_FILTER,
+  fetchAuditLog,
+} from '@/lib/audit';
+
+const ALL_ACTIONS = 'all';
+const INPUT_CLASS = 'bg-slate-700 border-slate-600 text-white';
+
+const Audit = () => {
+  const [filter, setFilter] = useState<AuditFilter>(EMPTY_AUDIT_FILTER);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setEntries(await fetchAuditLog(filter));
+    } catch (error) {
+      console.error('Error loading the audit log:', error);
+      toast({
+        title: "Database Error",
+        description: "Failed to load the audit log.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter, toast]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <div className="container mx-auto px-4 py-8">
+        <AppHeader />
+
+        <div className="w-full max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <Link to="/" className="flex items-center gap-1 text-sm text-slate-400 hover:text-slate-200 mb-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Link>
+              <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+                <ScrollText className="text-blue-400" />
+                Audit Log
+              </h1>
+              <p className="text-sm text-slate-400 mt-1">
+                Enrollments, edits, deletions, exports and recognition sessions. Entries cannot be changed or removed.
+              </p>
+            </div>
+            <Button
+              onClick={loadEntries}
+              disabled={isLoading}
+              variant="outline"
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+
+          <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl p-6 border border-slate-700 shadow-2xl space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="audit-actor" className="text-slate-300">Actor</Label>
+                <Input
+                  id="audit-actor"
+                  value={filter.actor}
+                  onChange={(e) => setFilter(prev => ({ ...prev, actor: e.target.value }))}
+                  placeholder="Email contains..."
+                  className={`${INPUT_CLASS} placeholder-slate-400`}
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300">Action</Label>
+                <Select
+                  value={filter.action ?? ALL_ACTIONS}
+                  onValueChange={(value) => setFilter(prev => ({
+                    ...prev,
+                    action: value === ALL_ACTIONS ? null : value as AuditAction,
+                  }))}
+                >
+                  <SelectTrigger className={INPUT_CLASS}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                    {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                      <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="audit-from" className="text-slate-300">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={filter.from ?? ''}
+                  max={filter.to ?? undefined}
+                  onChange={(e) => setFilter(prev => ({ ...prev, from: e.target.value || null }))}
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div>
+                <Label htmlFor="audit-to" className="text-slate-300">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={filter.to ?? ''}
+                  min={filter.from ?? undefined}
+                  onChange={(e) => setFilter(prev => ({ ...prev, to: e.target.value || null }))}
+                  className={INPUT_CLASS}
+                />
+              </div>
+            </div>
+
+            {isLoading && entries.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-center py-8 text-slate-400">No audit entries match these filters</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-slate-700">
+                      <TableHead className="text-slate-400">When</TableHead>
+                      <TableHead className="text-slate-400">Actor</TableHead>
+                      <TableHead className="text-slate-400">Action</TableHead>
+                      <TableHead className="text-slate-400">Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map(entry => (
+                      <TableRow key={entry.id} className="border-slate-700">
+                        <TableCell className="text-slate-300 whitespace-nowrap">
+                          {new Date(entry.occurred_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-white">{entry.actor_email ?? 'System'}</TableCell>
+                        <TableCell className="text-slate-300">
+                          {AUDIT_ACTION_LABELS[entry.action as AuditAction] ?? entry.action}
+                        </TableCell>
+                        <TableCell className="text-slate-400 text-sm">{describeAuditDetails(entry)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {entries.length === AUDIT_PAGE_SIZE && (
+                  <p className="text-center text-sm text-slate-400">
+                    Showing the latest {AUDIT_PAGE_SIZE} entries; narrow the filters to see older ones.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Audit;
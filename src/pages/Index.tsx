@@ -4,6 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import FaceRegistration from '@/components/FaceRegistration';
 import LiveRecognition from '@/components/LiveRecognition';
 import ChatInterface from '@/components/ChatInterface';
+import AttendanceRoster from '@/components/AttendanceRoster';
 import AppHeader from '@/components/AppHeader';
 import NavigationBreadcrumbs from '@/components/NavigationBreadcrumbs';
 
@@ -27,6 +28,10 @@ const Index = () => {
             e.preventDefault();
             setCurrentTab('chat');
             break;
+          case '4':
+            e.preventDefault();
+            setCurrentTab('attendance');
+            break;
         }
       }
     };
@@ -47,7 +52,7 @@ const Index = () => {
           onValueChange={setCurrentTab}
           className="w-full max-w-6xl mx-auto"
         >
-          <TabsList className="grid w-full grid-cols-3 mb-8 bg-slate-800/50 border border-slate-700">
+          <TabsList className="grid w-full grid-cols-4 mb-8 bg-slate-800/50 border border-slate-700">
             <TabsTrigger 
               value="registration" 
               className="data-[state=active]:bg-blue-600 data-[state=active]:text-white text-slate-300 relative"
@@ -69,6 +74,13 @@ const Index = () => {
               AI Assistant
               <span className="hidden lg:inline text-xs text-slate-400 ml-2">(Ctrl+3)</span>
             </TabsTrigger>
+            <TabsTrigger 
+              value="attendance" 
+              className="data-[state=active]:bg-teal-600 data-[state=active]:text-white text-slate-300 relative"
+            >
+              Attendance
+              <span className="hidden lg:inline text-xs text-slate-400 ml-2">(Ctrl+4)</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="registration" className="focus:outline-none">
@@ -82,6 +94,10 @@ const Index = () => {
           <TabsContent value="chat" className="focus:outline-none">
             <ChatInterface />
           </TabsContent>
+
+          <TabsContent value="attendance" className="focus:outline-none">
+            <AttendanceRoster />
+          </TabsContent>
         </Tabs>
 
         {/* Footer */}
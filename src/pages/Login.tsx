@@ -0,0 +1,145 @@
+import React, { FormEvent, useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { KeyRound, Loader2, LogIn, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import AppHeader from '@/components/AppHeader';
+import { sendMagicLink, signInWithPassword } from '@/lib/auth';
+
+const INPUT_CLASS = 'bg-slate-700 border-slate-600 text-white placeholder-slate-400 focus:border-blue-500';
+
+const Login = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  const { session, isLoading } = useAuth();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  const from = (location.state as { from?: string } | null)?.from ?? '/';
+  if (!isLoading && session) return <Navigate to={from} replace />;
+
+  const submitPassword = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSubmitting(true);
+      await signInWithPassword(email.trim(), password);
+    } catch (error) {
+      console.error('Sign-in error:', error);
+      toast({
+        title: "Sign-in Failed",
+        description: error instanceof Error ? error.message : "Check your email and password.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitMagicLink = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSubmitting(true);
+      await sendMagicLink(email.trim());
+      setLinkSentTo(email.trim());
+    } catch (error) {
+      console.error('Magic link error:', error);
+      toast({
+        title: "Link Not Sent",
+        description: error instanceof Error ? error.message : "Failed to send the sign-in link.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const emailField = (idPrefix: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-email`} className="text-slate-300">Email</Label>
+      <Input
+        id={`${idPrefix}-email`}
+        type="email"
+        autoComplete="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className={INPUT_CLASS}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <div className="container mx-auto px-4 py-8">
+        <AppHeader />
+
+        <div className="w-full max-w-md mx-auto bg-slate-800/50 backdrop-blur-sm rounded-2xl p-6 border border-slate-700 shadow-2xl">
+          <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+            <LogIn className="text-blue-400" />
+            Sign In
+          </h2>
+
+          <Tabs defaultValue="password">
+            <TabsList className="grid w-full grid-cols-2 mb-6 bg-slate-700">
+              <TabsTrigger value="password" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white text-slate-300">
+                <KeyRound className="w-4 h-4 mr-2" />
+                Password
+              </TabsTrigger>
+              <TabsTrigger value="magic-link" className="data-[state=active]:bg-blue-600 data-[state=active]:text-white text-slate-300">
+                <Mail className="w-4 h-4 mr-2" />
+                Email Link
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <form onSubmit={submitPassword} className="space-y-4">
+                {emailField('password')}
+                <div className="space-y-2">
+                  <Label htmlFor="password" className="text-slate-300">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700">
+                  {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Sign In
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="magic-link">
+              {linkSentTo ? (
+                <p className="text-slate-300">
+                  A sign-in link was sent to <span className="font-semibold text-white">{linkSentTo}</span>. Open it on this device to continue.
+                </p>
+              ) : (
+                <form onSubmit={submitMagicLink} className="space-y-4">
+                  {emailField('magic-link')}
+                  <p className="text-sm text-slate-400">Only existing accounts receive a link; ask an admin for access.</p>
+                  <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700">
+                    {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Send Link
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Login;
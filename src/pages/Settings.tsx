@@ -0,0 +1,315 @@
+import React, { ReactNode, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ArrowLeft, Loader2, RotateCcw, Save, Settings as SettingsIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/hooks/use-settings';
+import AppHeader from '@/components/AppHeader';
+import { AppSettings, DEFAULT_SETTINGS, DEPLOYMENT_ID, settingsSchema, SettingsSource } from '@/lib/settings';
+import { DETECTOR_DESCRIPTIONS, DETECTOR_LABELS, DetectorKind, TINY_INPUT_SIZES } from '@/lib/detector-config';
+import { MATCHING_MODE_LABELS, MatchingMode } from '@/lib/server-matcher';
+
+type NumberFieldName =
+  | 'recognition.matchThreshold'
+  | 'recognition.frameIntervalMs'
+  | 'camera.width'
+  | 'camera.height'
+  | 'images.photoQuality'
+  | 'images.thumbnailQuality'
+  | 'quality.minSharpness'
+  | 'quality.minBrightness'
+  | 'quality.maxBrightness'
+  | 'quality.maxClippedFraction'
+  | 'quality.minFaceSize'
+  | 'quality.minDetectionScore'
+  | 'quality.minEyeAspectRatio'
+  | 'attendance.cooldownMinutes'
+  | 'detector.scoreThreshold'
+  | 'detector.minFaceSize';
+
+const SOURCE_LABELS: Record<SettingsSource, string> = {
+  database: `Saved for deployment "${DEPLOYMENT_ID}"`,
+  local: 'Stored on this device only; the database is unreachable or has no settings yet',
+  defaults: 'Using the built-in defaults',
+};
+
+const INPUT_CLASS = 'bg-slate-700 border-slate-600 text-white';
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+  <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl p-6 border border-slate-700 shadow-2xl">
+    <h2 className="text-lg font-semibold text-white mb-4">{title}</h2>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{children}</div>
+  </div>
+);
+
+const Settings = () => {
+  const { settings, source, isLoaded, save } = useSettings();
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<AppSettings>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: settings,
+  });
+
+  // Picks up the stored settings once they arrive, and changes saved
+  // elsewhere, unless the form is being edited
+  useEffect(() => {
+    if (!form.formState.isDirty) form.reset(settings);
+  }, [settings, form]);
+
+  const onSubmit = async (values: AppSettings) => {
+    try {
+      setIsSaving(true);
+      const savedTo = await save(values);
+      form.reset(values);
+      toast(savedTo === 'database'
+        ? { title: "Settings Saved", description: "Every client of this deployment will use the new settings." }
+        : {
+            title: "Saved Locally",
+            description: "The database could not be updated, so only this device uses the new settings.",
+            variant: "destructive",
+          });
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numberField = (name: NumberFieldName, label: string, description: string, step = 1) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-slate-300">{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step={step}
+              className={INPUT_CLASS}
+              name={field.name}
+              ref={field.ref}
+              onBlur={field.onBlur}
+              value={Number.isNaN(field.value) ? '' : field.value}
+              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+            />
+          </FormControl>
+          <FormDescription className="text-slate-400">{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const detectorKind = form.watch('detector.kind');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <div className="container mx-auto px-4 py-8">
+        <AppHeader />
+
+        <div className="w-full max-w-4xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <Link to="/" className="flex items-center gap-1 text-sm text-slate-400 hover:text-slate-200 mb-2">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Link>
+              <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+                <SettingsIcon className="text-blue-400" />
+                Settings
+              </h1>
+              <p className="text-sm text-slate-400 mt-1">
+                {isLoaded ? SOURCE_LABELS[source] : 'Loading stored settings…'}
+              </p>
+            </div>
+          </div>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <Section title="Recognition">
+                {numberField(
+                  'recognition.matchThreshold',
+                  'Match threshold',
+                  'Largest descriptor distance accepted as the same person. Lower is stricter; also used to flag duplicate enrollments.',
+                  0.01
+                )}
+                {numberField(
+                  'recognition.frameIntervalMs',
+                  'Frame interval (ms)',
+                  'Minimum time between two live recognition frames.',
+                  50
+                )}
+                <FormField
+                  control={form.control}
+                  name="recognition.matchingMode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-slate-300">Matching</FormLabel>
+                      <Select value={field.value} onValueChange={(mode) => field.onChange(mode as MatchingMode)}>
+                        <FormControl>
+                          <SelectTrigger className={INPUT_CLASS}>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(MATCHING_MODE_LABELS) as MatchingMode[]).map(mode => (
+                            <SelectItem key={mode} value={mode}>{MATCHING_MODE_LABELS[mode]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription className="text-slate-400">
+                        On the server, live frames send only face descriptors and the gallery is not downloaded; the browser matches while the server is unreachable.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </Section>
+
+              <Section title="Face Detector">
+                <FormField
+                  control={form.control}
+                  name="detector.kind"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-slate-300">Detector</FormLabel>
+                      <Select value={field.value} onValueChange={(kind) => field.onChange(kind as DetectorKind)}>
+                        <FormControl>
+                          <SelectTrigger className={INPUT_CLASS}>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(DETECTOR_LABELS) as DetectorKind[]).map(kind => (
+                            <SelectItem key={kind} value={kind}>{DETECTOR_LABELS[kind]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription className="text-slate-400">{DETECTOR_DESCRIPTIONS[field.value]}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {numberField(
+                  'detector.scoreThreshold',
+                  'Score threshold',
+                  'Detections scoring below this are ignored.',
+                  0.05
+                )}
+                {detectorKind === 'tiny' && (
+                  <FormField
+                    control={form.control}
+                    name="detector.inputSize"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-slate-300">Input size</FormLabel>
+                        <Select value={String(field.value)} onValueChange={(size) => field.onChange(Number(size))}>
+                          <FormControl>
+                            <SelectTrigger className={INPUT_CLASS}>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {TINY_INPUT_SIZES.map(size => (
+                              <SelectItem key={size} value={String(size)}>{size}px</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription className="text-slate-400">Larger finds smaller faces but is slower.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {detectorKind === 'mtcnn' && numberField(
+                  'detector.minFaceSize',
+                  'Min face size (px)',
+                  'Smallest face the detector searches for.',
+                  10
+                )}
+              </Section>
+
+              <Section title="Camera">
+                {numberField('camera.width', 'Width (px)', 'Requested capture width; the camera may pick the closest it supports.')}
+                {numberField('camera.height', 'Height (px)', 'Requested capture height.')}
+              </Section>
+
+              <Section title="Images">
+                {numberField('images.photoQuality', 'Photo JPEG quality', 'Quality of stored face photos, 0.1–1.', 0.05)}
+                {numberField('images.thumbnailQuality', 'Thumbnail JPEG quality', 'Quality of list thumbnails and event snapshots, 0.1–1.', 0.05)}
+              </Section>
+
+              <Section title="Enrollment Quality">
+                {numberField('quality.minSharpness', 'Min sharpness', 'Variance of the Laplacian over the face; raise it to reject blurrier captures.', 5)}
+                {numberField('quality.minDetectionScore', 'Min detection score', 'Detector confidence a sample needs, 0.1–1.', 0.05)}
+                {numberField('quality.minBrightness', 'Min brightness', 'Darkest accepted mean face luminance, 0–255.', 5)}
+                {numberField('quality.maxBrightness', 'Max brightness', 'Brightest accepted mean face luminance, 0–255.', 5)}
+                {numberField('quality.maxClippedFraction', 'Max clipped fraction', 'Share of face pixels that may be crushed black or blown white.', 0.05)}
+                {numberField('quality.minFaceSize', 'Min face size', 'Face box side relative to the shorter frame side.', 0.05)}
+                {numberField('quality.minEyeAspectRatio', 'Min eye openness', 'Eye aspect ratio; about 0.3 for open eyes and below 0.2 when closed.', 0.01)}
+              </Section>
+
+              <Section title="Attendance">
+                {numberField(
+                  'attendance.cooldownMinutes',
+                  'Cooldown (minutes)',
+                  'Minimum time between a check-in and the check-out, and between later updates of the check-out.'
+                )}
+                <FormField
+                  control={form.control}
+                  name="attendance.lateAfter"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-slate-300">Late after</FormLabel>
+                      <FormControl>
+                        <Input type="time" className={INPUT_CLASS} {...field} />
+                      </FormControl>
+                      <FormDescription className="text-slate-400">A first check-in after this time counts as late.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </Section>
+
+              <div className="flex justify-end gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => form.reset(DEFAULT_SETTINGS, { keepDefaultValues: true })}
+                  disabled={isSaving}
+                  className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore Defaults
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={isSaving}
+                  className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                >
+                  {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                  Save Settings
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,24 @@
+
+-- Store real face descriptors instead of captured JPEG data URLs
+ALTER TABLE public.face_registrations
+    ADD COLUMN face_descriptor REAL[],
+    ADD COLUMN thumbnail TEXT;
+
+-- The old face_encoding column only ever held the captured photo
+UPDATE public.face_registrations
+    SET thumbnail = face_encoding;
+
+ALTER TABLE public.face_registrations
+    ALTER COLUMN thumbnail SET NOT NULL,
+    DROP COLUMN face_encoding;
+
+-- face-api.js descriptors are always 128-dimensional
+ALTER TABLE public.face_registrations
+    ADD CONSTRAINT face_descriptor_length
+    CHECK (face_descriptor IS NULL OR array_length(face_descriptor, 1) = 128);
+
+-- Legacy rows keep a NULL descriptor until src/lib/backfill-descriptors.ts
+-- re-derives it from the stored image
+CREATE INDEX face_registrations_missing_descriptor_idx
+    ON public.face_registrations (id)
+    WHERE face_descriptor IS NULL;
@@ -0,0 +1,11 @@
+
+-- Multi-sample enrollment: keep every captured descriptor alongside the mean
+-- descriptor that face_descriptor now holds
+ALTER TABLE public.face_registrations
+    ADD COLUMN sample_descriptors JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN sample_count INTEGER NOT NULL DEFAULT 1;
+
+-- Single-shot registrations are a one-sample enrollment
+UPDATE public.face_registrations
+    SET sample_descriptors = jsonb_build_array(to_jsonb(face_descriptor))
+    WHERE face_descriptor IS NOT NULL;
@@ -0,0 +1,5 @@
+
+-- Broadcast registration changes so every open tab picks up renames,
+-- re-enrollments and deletions immediately
+ALTER TABLE public.face_registrations REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.face_registrations;
@@ -0,0 +1,4 @@
+
+-- Free-form metadata carried over from roster CSV imports
+ALTER TABLE public.face_registrations
+    ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,5 @@
+
+-- Operators may enroll someone who resembles an existing person; the reason
+-- and the matches they overrode are kept with the registration
+ALTER TABLE public.face_registrations
+    ADD COLUMN duplicate_override JSONB;
@@ -0,0 +1,20 @@
+
+-- Private bucket for enrollment photos and their thumbnails
+INSERT INTO storage.buckets (id, name, public)
+    VALUES ('face-images', 'face-images', false)
+    ON CONFLICT (id) DO NOTHING;
+
+-- Mirrors the open face_registrations policy until auth is added; the bucket
+-- stays private so images are only reachable through signed URLs
+CREATE POLICY "Allow all operations on face images"
+    ON storage.objects
+    FOR ALL
+    USING (bucket_id = 'face-images')
+    WITH CHECK (bucket_id = 'face-images');
+
+-- Images move out of the table; only their storage paths stay behind.
+-- Inline thumbnails are kept until src/lib/backfill-images.ts has uploaded them.
+ALTER TABLE public.face_registrations
+    ADD COLUMN image_path TEXT,
+    ADD COLUMN thumbnail_path TEXT,
+    ALTER COLUMN thumbnail DROP NOT NULL;
@@ -0,0 +1,81 @@
+
+-- A registration is now a person with a profile; the captured descriptors move
+-- to their own table. Renaming keeps ids, policies and the realtime publication.
+ALTER TABLE public.face_registrations RENAME TO people;
+ALTER INDEX public.face_registrations_missing_descriptor_idx RENAME TO people_missing_descriptor_idx;
+ALTER POLICY "Allow all operations on face_registrations" ON public.people
+    RENAME TO "Allow all operations on people";
+
+ALTER TABLE public.people
+    ADD COLUMN external_id TEXT,
+    ADD COLUMN department TEXT,
+    ADD COLUMN title TEXT,
+    ADD COLUMN email TEXT,
+    ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+    ADD COLUMN notes TEXT;
+
+-- Employee IDs are optional but must not be shared
+CREATE UNIQUE INDEX people_external_id_key
+    ON public.people (external_id)
+    WHERE external_id IS NOT NULL;
+
+CREATE INDEX people_department_idx ON public.people (department);
+CREATE INDEX people_tags_idx ON public.people USING GIN (tags);
+
+-- Roster imports stored these as free-form metadata; lift the recognised keys
+-- into columns and leave anything else where it was
+UPDATE public.people
+    SET external_id = NULLIF(COALESCE(metadata->>'external_id', metadata->>'employee_id'), ''),
+        department = NULLIF(metadata->>'department', ''),
+        title = NULLIF(COALESCE(metadata->>'title', metadata->>'role'), ''),
+        email = NULLIF(metadata->>'email', ''),
+        tags = COALESCE(
+            ARRAY(
+                SELECT btrim(tag)
+                FROM regexp_split_to_table(metadata->>'tags', '[,;]') AS tag
+                WHERE btrim(tag) <> ''
+            ),
+            '{}'
+        ),
+        notes = NULLIF(metadata->>'notes', ''),
+        metadata = metadata - ARRAY['external_id', 'employee_id', 'department', 'title', 'role', 'email', 'tags', 'notes']
+    WHERE metadata <> '{}'::jsonb;
+
+-- One row per captured descriptor; people.face_descriptor keeps their mean
+CREATE TABLE public.face_samples (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    person_id UUID NOT NULL REFERENCES public.people (id) ON DELETE CASCADE,
+    descriptor REAL[] NOT NULL CHECK (array_length(descriptor, 1) = 128),
+    -- Enrollment pose for camera captures, NULL otherwise
+    pose TEXT,
+    source TEXT NOT NULL DEFAULT 'camera'
+        CHECK (source IN ('camera', 'upload', 'import', 'legacy')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX face_samples_person_id_idx ON public.face_samples (person_id);
+
+ALTER TABLE public.face_samples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on face_samples"
+    ON public.face_samples
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+INSERT INTO public.face_samples (person_id, descriptor, source, created_at)
+    SELECT people.id,
+           ARRAY(
+               SELECT element.value::real
+               FROM jsonb_array_elements_text(sample) WITH ORDINALITY AS element (value, position)
+               ORDER BY element.position
+           ),
+           'legacy',
+           people.created_at
+    FROM public.people,
+         jsonb_array_elements(people.sample_descriptors) AS sample
+    WHERE jsonb_typeof(sample) = 'array';
+
+ALTER TABLE public.people
+    DROP COLUMN sample_descriptors,
+    DROP COLUMN sample_count;
@@ -0,0 +1,33 @@
+
+-- Every settled recognition (a verified match, an unknown face or a spoof),
+-- written in batches by src/lib/recognition-events.ts
+CREATE TABLE public.recognition_events (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Kept when the person is deleted so the log still reads correctly
+    person_id UUID REFERENCES public.people (id) ON DELETE SET NULL,
+    person_name TEXT NOT NULL,
+    recognized BOOLEAN NOT NULL,
+    liveness TEXT NOT NULL CHECK (liveness IN ('pending', 'live', 'spoof')),
+    distance REAL,
+    confidence REAL NOT NULL,
+    -- { x, y, width, height } in source pixels
+    box JSONB NOT NULL,
+    source_id TEXT NOT NULL,
+    snapshot_path TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX recognition_events_occurred_at_idx
+    ON public.recognition_events (occurred_at DESC);
+
+CREATE INDEX recognition_events_person_id_idx
+    ON public.recognition_events (person_id, occurred_at DESC);
+
+ALTER TABLE public.recognition_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on recognition_events"
+    ON public.recognition_events
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
@@ -0,0 +1,27 @@
+
+-- Check-ins and check-outs derived from live recognition, one row per
+-- transition, written by src/lib/attendance.ts
+CREATE TABLE public.attendance_records (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    person_id UUID NOT NULL REFERENCES public.people (id) ON DELETE CASCADE,
+    -- The site's local calendar day, as seen by the recording client
+    attendance_date DATE NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('check_in', 'check_out')),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    source_id TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX attendance_records_date_person_idx
+    ON public.attendance_records (attendance_date, person_id, occurred_at);
+
+ALTER TABLE public.attendance_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on attendance_records"
+    ON public.attendance_records
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+-- The roster view updates as people check in from any camera
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attendance_records;
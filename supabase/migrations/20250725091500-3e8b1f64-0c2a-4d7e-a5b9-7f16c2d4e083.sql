@@ -0,0 +1,20 @@
+
+-- Recognition settings, one row per deployment, written by src/lib/settings.ts.
+-- Clients validate data and fill in defaults for keys added after the row
+-- was written, so no schema change is needed when a setting is added.
+CREATE TABLE public.settings (
+    deployment_id TEXT NOT NULL PRIMARY KEY,
+    data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on settings"
+    ON public.settings
+    FOR ALL
+    USING (true)
+    WITH CHECK (true);
+
+-- Open clients pick up changes saved from the settings page
+ALTER PUBLICATION supabase_realtime ADD TABLE public.settings;
@@ -0,0 +1,142 @@
+
+-- Signed-in users only, each with one role. Roles are ordered so a higher one
+-- includes everything below it: viewers read, operators also enroll people
+-- and run recognition, admins also delete and change deployment settings.
+CREATE TYPE public.app_role AS ENUM ('viewer', 'operator', 'admin');
+
+CREATE TABLE public.user_roles (
+    user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+    role public.app_role NOT NULL DEFAULT 'viewer',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so policies on user_roles itself can call it without
+-- recursing into them
+CREATE FUNCTION public.has_role(required public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.user_roles
+        WHERE user_id = auth.uid()
+          AND role >= required
+    );
+$$;
+
+-- Every account starts as a viewer; an admin promotes it
+CREATE FUNCTION public.assign_default_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.user_roles (user_id) VALUES (NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.assign_default_role();
+
+INSERT INTO public.user_roles (user_id)
+    SELECT id FROM auth.users
+    ON CONFLICT (user_id) DO NOTHING;
+
+CREATE POLICY "Users read their own role, admins read all"
+    ON public.user_roles
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() OR public.has_role('admin'));
+
+CREATE POLICY "Admins manage roles"
+    ON public.user_roles
+    FOR ALL
+    TO authenticated
+    USING (public.has_role('admin'))
+    WITH CHECK (public.has_role('admin'));
+
+-- The open policies from before auth existed
+DROP POLICY "Allow all operations on people" ON public.people;
+DROP POLICY "Allow all operations on face_samples" ON public.face_samples;
+DROP POLICY "Allow all operations on recognition_events" ON public.recognition_events;
+DROP POLICY "Allow all operations on attendance_records" ON public.attendance_records;
+DROP POLICY "Allow all operations on settings" ON public.settings;
+DROP POLICY "Allow all operations on face images" ON storage.objects;
+
+CREATE POLICY "Viewers read people"
+    ON public.people FOR SELECT TO authenticated
+    USING (public.has_role('viewer'));
+CREATE POLICY "Operators enroll people"
+    ON public.people FOR INSERT TO authenticated
+    WITH CHECK (public.has_role('operator'));
+CREATE POLICY "Operators edit people"
+    ON public.people FOR UPDATE TO authenticated
+    USING (public.has_role('operator'))
+    WITH CHECK (public.has_role('operator'));
+CREATE POLICY "Admins delete people"
+    ON public.people FOR DELETE TO authenticated
+    USING (public.has_role('admin'));
+
+-- Replacing a person's samples is part of re-enrolling them, so operators
+-- may delete samples; the person themselves can only be deleted by an admin
+CREATE POLICY "Viewers read face samples"
+    ON public.face_samples FOR SELECT TO authenticated
+    USING (public.has_role('viewer'));
+CREATE POLICY "Operators manage face samples"
+    ON public.face_samples FOR ALL TO authenticated
+    USING (public.has_role('operator'))
+    WITH CHECK (public.has_role('operator'));
+
+CREATE POLICY "Viewers read recognition events"
+    ON public.recognition_events FOR SELECT TO authenticated
+    USING (public.has_role('viewer'));
+CREATE POLICY "Operators record recognition events"
+    ON public.recognition_events FOR INSERT TO authenticated
+    WITH CHECK (public.has_role('operator'));
+CREATE POLICY "Admins delete recognition events"
+    ON public.recognition_events FOR DELETE TO authenticated
+    USING (public.has_role('admin'));
+
+CREATE POLICY "Viewers read attendance"
+    ON public.attendance_records FOR SELECT TO authenticated
+    USING (public.has_role('viewer'));
+CREATE POLICY "Operators record attendance"
+    ON public.attendance_records FOR INSERT TO authenticated
+    WITH CHECK (public.has_role('operator'));
+CREATE POLICY "Admins delete attendance"
+    ON public.attendance_records FOR DELETE TO authenticated
+    USING (public.has_role('admin'));
+
+-- Other roles can still change settings on their own device; see
+-- saveSettings in src/lib/settings.ts
+CREATE POLICY "Viewers read settings"
+    ON public.settings FOR SELECT TO authenticated
+    USING (public.has_role('viewer'));
+CREATE POLICY "Admins change settings"
+    ON public.settings FOR ALL TO authenticated
+    USING (public.has_role('admin'))
+    WITH CHECK (public.has_role('admin'));
+
+-- Enrollment photos and recognition snapshots follow the same split;
+-- replacing a person's photos removes the old ones
+CREATE POLICY "Viewers read face images"
+    ON storage.objects FOR SELECT TO authenticated
+    USING (bucket_id = 'face-images' AND public.has_role('viewer'));
+CREATE POLICY "Operators upload face images"
+    ON storage.objects FOR INSERT TO authenticated
+    WITH CHECK (bucket_id = 'face-images' AND public.has_role('operator'));
+CREATE POLICY "Operators update face images"
+    ON storage.objects FOR UPDATE TO authenticated
+    USING (bucket_id = 'face-images' AND public.has_role('operator'))
+    WITH CHECK (bucket_id = 'face-images' AND public.has_role('operator'));
+CREATE POLICY "Operators remove face images"
+    ON storage.objects FOR DELETE TO authenticated
+    USING (bucket_id = 'face-images' AND public.has_role('operator'));
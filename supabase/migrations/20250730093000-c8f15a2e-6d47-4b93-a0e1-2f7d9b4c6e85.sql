@@ -0,0 +1,120 @@
+
+-- Who did what, for compliance. Changes to people (the former
+-- face_registrations table) are written by triggers; exports and recognition
+-- sessions are written by the client through src/lib/audit.ts. Rows can be
+-- added but never changed or removed.
+CREATE TABLE public.audit_log (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Kept when the account is deleted; the email still names the actor
+    actor_id UUID REFERENCES auth.users (id) ON DELETE SET NULL,
+    actor_email TEXT,
+    action TEXT NOT NULL CHECK (action IN (
+        'person.enrolled',
+        'person.updated',
+        'person.deleted',
+        'recognition.started',
+        'recognition.stopped',
+        'events.exported',
+        'chat.exported',
+        'attendance.exported'
+    )),
+    entity_id TEXT,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX audit_log_occurred_at_idx ON public.audit_log (occurred_at DESC);
+CREATE INDEX audit_log_actor_idx ON public.audit_log (actor_email, occurred_at DESC);
+CREATE INDEX audit_log_action_idx ON public.audit_log (action, occurred_at DESC);
+
+-- The actor and time always come from the session, never from the client
+CREATE FUNCTION public.stamp_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    NEW.actor_id := auth.uid();
+    NEW.actor_email := auth.jwt() ->> 'email';
+    NEW.occurred_at := now();
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_audit_entry
+    BEFORE INSERT ON public.audit_log
+    FOR EACH ROW EXECUTE FUNCTION public.stamp_audit_entry();
+
+-- Append-only for every role, including the service role that bypasses RLS
+CREATE FUNCTION public.reject_audit_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER reject_audit_change
+    BEFORE UPDATE OR DELETE ON public.audit_log
+    FOR EACH ROW EXECUTE FUNCTION public.reject_audit_change();
+
+CREATE TRIGGER reject_audit_truncate
+    BEFORE TRUNCATE ON public.audit_log
+    FOR EACH STATEMENT EXECUTE FUNCTION public.reject_audit_change();
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins read the audit log"
+    ON public.audit_log FOR SELECT TO authenticated
+    USING (public.has_role('admin'));
+
+-- Clients may only record the events the database cannot see for itself
+CREATE POLICY "Users record their own client events"
+    ON public.audit_log FOR INSERT TO authenticated
+    WITH CHECK (
+        public.has_role('viewer')
+        AND action IN ('recognition.started', 'recognition.stopped', 'events.exported', 'chat.exported', 'attendance.exported')
+    );
+
+-- Updates list the columns that changed rather than their values, so the log
+-- does not become a second copy of the gallery
+CREATE FUNCTION public.audit_people_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    changed TEXT[];
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO public.audit_log (action, entity_id, details)
+            VALUES ('person.enrolled', NEW.id::text, jsonb_build_object('name', NEW.name));
+        RETURN NEW;
+    ELSIF TG_OP = 'UPDATE' THEN
+        SELECT array_agg(new_values.key ORDER BY new_values.key) INTO changed
+            FROM jsonb_each(to_jsonb(NEW)) AS new_values
+            WHERE new_values.value IS DISTINCT FROM to_jsonb(OLD) -> new_values.key;
+        IF changed IS NULL THEN
+            RETURN NEW;
+        END IF;
+        INSERT INTO public.audit_log (action, entity_id, details)
+            VALUES ('person.updated', NEW.id::text, jsonb_build_object(
+                'name', NEW.name,
+                'previous_name', CASE WHEN NEW.name IS DISTINCT FROM OLD.name THEN OLD.name END,
+                'changed', to_jsonb(changed)
+            ));
+        RETURN NEW;
+    ELSE
+        INSERT INTO public.audit_log (action, entity_id, details)
+            VALUES ('person.deleted', OLD.id::text, jsonb_build_object('name', OLD.name));
+        RETURN OLD;
+    END IF;
+END;
+$$;
+
+CREATE TRIGGER audit_people_change
+    AFTER INSERT OR UPDATE OR DELETE ON public.people
+    FOR EACH ROW EXECUTE FUNCTION public.audit_people_change();
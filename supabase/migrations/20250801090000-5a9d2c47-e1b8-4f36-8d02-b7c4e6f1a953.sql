@@ -0,0 +1,49 @@
+
+-- Attendance is now one check-in (the first sighting of the day) and at most
+-- one check-out (the last sighting) per person and day, written by
+-- src/lib/attendance.ts. Before this, every sighting after the cooldown
+-- flipped between the two, so walking past the camera twice checked out.
+--
+-- Existing days keep their first check-in and last check-out, which is what
+-- the roster already reported.
+DELETE FROM public.attendance_records AS later
+    USING public.attendance_records AS earlier
+    WHERE later.kind = 'check_in'
+      AND earlier.kind = 'check_in'
+      AND later.person_id = earlier.person_id
+      AND later.attendance_date = earlier.attendance_date
+      AND (later.occurred_at, later.id) > (earlier.occurred_at, earlier.id);
+
+DELETE FROM public.attendance_records AS earlier
+    USING public.attendance_records AS later
+    WHERE earlier.kind = 'check_out'
+      AND later.kind = 'check_out'
+      AND earlier.person_id = later.person_id
+      AND earlier.attendance_date = later.attendance_date
+      AND (earlier.occurred_at, earlier.id) < (later.occurred_at, later.id);
+
+-- Also keeps a reload from writing a second check-in
+CREATE UNIQUE INDEX attendance_records_person_day_kind_key
+    ON public.attendance_records (person_id, attendance_date, kind);
+
+-- Deleting a person keeps their attendance history, like recognition_events
+ALTER TABLE public.attendance_records
+    ADD COLUMN person_name TEXT;
+
+UPDATE public.attendance_records
+    SET person_name = people.name
+    FROM public.people
+    WHERE people.id = attendance_records.person_id;
+
+ALTER TABLE public.attendance_records
+    ALTER COLUMN person_name SET NOT NULL,
+    ALTER COLUMN person_id DROP NOT NULL,
+    DROP CONSTRAINT attendance_records_person_id_fkey,
+    ADD CONSTRAINT attendance_records_person_id_fkey
+        FOREIGN KEY (person_id) REFERENCES public.people (id) ON DELETE SET NULL;
+
+-- The check-out moves forward as the person is seen again
+CREATE POLICY "Operators update attendance"
+    ON public.attendance_records FOR UPDATE TO authenticated
+    USING (public.has_role('operator'))
+    WITH CHECK (public.has_role('operator'));
@@ -0,0 +1,46 @@
+
+-- Deleting face samples or face images removes biometric data, so it is an
+-- admin action like deleting the person. Operators still add samples and
+-- move them between people.
+DROP POLICY "Operators manage face samples" ON public.face_samples;
+
+CREATE POLICY "Operators add face samples"
+    ON public.face_samples FOR INSERT TO authenticated
+    WITH CHECK (public.has_role('operator'));
+CREATE POLICY "Operators move face samples"
+    ON public.face_samples FOR UPDATE TO authenticated
+    USING (public.has_role('operator'))
+    WITH CHECK (public.has_role('operator'));
+CREATE POLICY "Admins delete face samples"
+    ON public.face_samples FOR DELETE TO authenticated
+    USING (public.has_role('admin'));
+
+DROP POLICY "Operators remove face images" ON storage.objects;
+
+CREATE POLICY "Admins remove face images"
+    ON storage.objects FOR DELETE TO authenticated
+    USING (bucket_id = 'face-images' AND public.has_role('admin'));
+
+-- A person without samples can never have their mean descriptor recomputed,
+-- so new people and their samples are stored in one transaction instead of
+-- deleting the person when the samples fail, which operators cannot do.
+-- Runs as the caller, so the insert policies above still apply.
+CREATE FUNCTION public.enroll_people(new_people JSONB, new_samples JSONB)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+    INSERT INTO public.people (
+        id, name, external_id, department, title, email, notes, tags, metadata,
+        face_descriptor, image_path, thumbnail_path, duplicate_override
+    )
+    SELECT
+        id, name, external_id, department, title, email, notes,
+        COALESCE(tags, '{}'), COALESCE(metadata, '{}'::jsonb),
+        face_descriptor, image_path, thumbnail_path, duplicate_override
+    FROM jsonb_populate_recordset(NULL::public.people, new_people);
+
+    INSERT INTO public.face_samples (person_id, descriptor, pose, source)
+    SELECT person_id, descriptor, pose, COALESCE(source, 'camera')
+    FROM jsonb_populate_recordset(NULL::public.face_samples, new_samples);
+$$;
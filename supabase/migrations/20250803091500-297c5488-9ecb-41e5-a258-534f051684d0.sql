@@ -0,0 +1,6 @@
+
+-- ON DELETE SET NULL updates audit rows, which reject_audit_change refuses,
+-- so a user with any audit history could never be deleted. Entries keep the
+-- id the actor had; actor_email still names them after the account is gone.
+ALTER TABLE public.audit_log
+    DROP CONSTRAINT audit_log_actor_id_fkey;
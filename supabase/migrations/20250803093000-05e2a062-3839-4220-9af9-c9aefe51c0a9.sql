@@ -0,0 +1,31 @@
+
+-- Exporting a media timeline is recorded like the other exports
+ALTER TABLE public.audit_log
+    DROP CONSTRAINT audit_log_action_check,
+    ADD CONSTRAINT audit_log_action_check CHECK (action IN (
+        'person.enrolled',
+        'person.updated',
+        'person.deleted',
+        'recognition.started',
+        'recognition.stopped',
+        'events.exported',
+        'chat.exported',
+        'attendance.exported',
+        'media.exported'
+    ));
+
+DROP POLICY "Users record their own client events" ON public.audit_log;
+
+CREATE POLICY "Users record their own client events"
+    ON public.audit_log FOR INSERT TO authenticated
+    WITH CHECK (
+        public.has_role('viewer')
+        AND action IN (
+            'recognition.started',
+            'recognition.stopped',
+            'events.exported',
+            'chat.exported',
+            'attendance.exported',
+            'media.exported'
+        )
+    );
@@ -0,0 +1,38 @@
+
+-- people.face_descriptor is the mean of the person's samples. Computing it in
+-- the database lets a function change the samples and the mean in the same
+-- transaction. NULL once the person has no samples left.
+CREATE FUNCTION public.mean_face_descriptor(target_person_id UUID)
+RETURNS REAL[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT array_agg(component ORDER BY position)
+    FROM (
+        SELECT position, avg(value)::real AS component
+        FROM public.face_samples, unnest(descriptor) WITH ORDINALITY AS components(value, position)
+        WHERE person_id = target_person_id
+        GROUP BY position
+    ) AS means;
+$$;
+
+-- Re-enrolling someone from scratch. The old samples are only gone once the
+-- new ones are stored, so a failure cannot leave the person without samples
+-- and silently drop them from recognition. Runs as the caller, so deleting
+-- samples still needs the Admin role.
+CREATE FUNCTION public.replace_face_samples(target_person_id UUID, new_samples JSONB)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+    DELETE FROM public.face_samples WHERE person_id = target_person_id;
+
+    INSERT INTO public.face_samples (person_id, descriptor, pose, source)
+    SELECT target_person_id, descriptor, pose, COALESCE(source, 'camera')
+    FROM jsonb_populate_recordset(NULL::public.face_samples, new_samples);
+
+    UPDATE public.people
+    SET face_descriptor = public.mean_face_descriptor(target_person_id)
+    WHERE id = target_person_id;
+$$;
@@ -0,0 +1,17 @@
+
+-- Adding samples to someone who is already enrolled: the samples and the
+-- recomputed mean are stored together, so a failure cannot leave a sample
+-- the matcher never sees. Runs as the caller, so the insert policies apply.
+CREATE FUNCTION public.add_face_samples(target_person_id UUID, new_samples JSONB)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+    INSERT INTO public.face_samples (person_id, descriptor, pose, source)
+    SELECT target_person_id, descriptor, pose, COALESCE(source, 'camera')
+    FROM jsonb_populate_recordset(NULL::public.face_samples, new_samples);
+
+    UPDATE public.people
+    SET face_descriptor = public.mean_face_descriptor(target_person_id)
+    WHERE id = target_person_id;
+$$;
@@ -0,0 +1,39 @@
+
+-- Folds duplicate people into one: the others' samples move to the target,
+-- the others are deleted, the new samples are added and the target takes the
+-- merged details and the mean of everything it now holds. One transaction, so
+-- a failure cannot leave samples split between people or delete anyone early.
+-- Runs as the caller, so deleting people still needs the Admin role.
+CREATE FUNCTION public.merge_people(
+    target_person_id UUID,
+    other_person_ids UUID[],
+    details JSONB,
+    new_samples JSONB
+)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+    UPDATE public.face_samples
+    SET person_id = target_person_id
+    WHERE person_id = ANY (other_person_ids);
+
+    -- Deleted before the update so an employee ID can move to the target
+    DELETE FROM public.people WHERE id = ANY (other_person_ids);
+
+    INSERT INTO public.face_samples (person_id, descriptor, pose, source)
+    SELECT target_person_id, descriptor, pose, COALESCE(source, 'camera')
+    FROM jsonb_populate_recordset(NULL::public.face_samples, new_samples);
+
+    UPDATE public.people AS person
+    SET name = merged.name,
+        external_id = merged.external_id,
+        department = merged.department,
+        title = merged.title,
+        email = merged.email,
+        tags = COALESCE(merged.tags, '{}'),
+        notes = merged.notes,
+        face_descriptor = public.mean_face_descriptor(target_person_id)
+    FROM jsonb_populate_record(NULL::public.people, details) AS merged
+    WHERE person.id = target_person_id;
+$$;
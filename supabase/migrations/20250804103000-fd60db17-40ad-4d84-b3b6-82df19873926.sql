@@ -0,0 +1,84 @@
+
+-- Adding, replacing and merging face samples changes who a person is
+-- recognized as without necessarily touching their row in people, so the
+-- samples are audited as well. One entry per person and statement rather than
+-- per sample, and the descriptors themselves are never copied into the log.
+ALTER TABLE public.audit_log
+    DROP CONSTRAINT audit_log_action_check,
+    ADD CONSTRAINT audit_log_action_check CHECK (action IN (
+        'person.enrolled',
+        'person.updated',
+        'person.deleted',
+        'samples.added',
+        'samples.updated',
+        'samples.moved',
+        'samples.removed',
+        'recognition.started',
+        'recognition.stopped',
+        'events.exported',
+        'chat.exported',
+        'attendance.exported',
+        'media.exported'
+    ));
+
+CREATE FUNCTION public.audit_face_samples_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO public.audit_log (action, entity_id, details)
+            SELECT 'samples.added', added.person_id::text, jsonb_build_object(
+                'name', (SELECT name FROM public.people WHERE id = added.person_id),
+                'count', count(*),
+                'sources', string_agg(DISTINCT added.source, ', ')
+            )
+            FROM new_samples AS added
+            GROUP BY added.person_id;
+    ELSIF TG_OP = 'UPDATE' THEN
+        -- Merges move samples to another person
+        INSERT INTO public.audit_log (action, entity_id, details)
+            SELECT
+                CASE WHEN changed.person_id = previous.person_id THEN 'samples.updated' ELSE 'samples.moved' END,
+                changed.person_id::text,
+                jsonb_build_object(
+                    'name', (SELECT name FROM public.people WHERE id = changed.person_id),
+                    'count', count(*),
+                    'from_person_id', NULLIF(previous.person_id, changed.person_id)
+                )
+            FROM new_samples AS changed
+            JOIN old_samples AS previous USING (id)
+            GROUP BY changed.person_id, previous.person_id;
+    ELSE
+        -- Also written when deleting a person cascades to their samples, in
+        -- which case the name may already be gone
+        INSERT INTO public.audit_log (action, entity_id, details)
+            SELECT 'samples.removed', removed.person_id::text, jsonb_build_object(
+                'name', (SELECT name FROM public.people WHERE id = removed.person_id),
+                'count', count(*),
+                'sources', string_agg(DISTINCT removed.source, ', ')
+            )
+            FROM old_samples AS removed
+            GROUP BY removed.person_id;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+-- A trigger with transition tables covers a single event
+CREATE TRIGGER audit_face_samples_insert
+    AFTER INSERT ON public.face_samples
+    REFERENCING NEW TABLE AS new_samples
+    FOR EACH STATEMENT EXECUTE FUNCTION public.audit_face_samples_change();
+
+CREATE TRIGGER audit_face_samples_update
+    AFTER UPDATE ON public.face_samples
+    REFERENCING OLD TABLE AS old_samples NEW TABLE AS new_samples
+    FOR EACH STATEMENT EXECUTE FUNCTION public.audit_face_samples_change();
+
+CREATE TRIGGER audit_face_samples_delete
+    AFTER DELETE ON public.face_samples
+    REFERENCING OLD TABLE AS old_samples
+    FOR EACH STATEMENT EXECUTE FUNCTION public.audit_face_samples_change();